@@ -1,4 +1,4 @@
-import type { ProviderType } from '@shared/settings'
+import type { ProviderType, ToolCallMode, ToolCallPreference } from '@shared/settings'
 
 export interface ModelConfig {
   id: string
@@ -8,6 +8,7 @@ export interface ModelConfig {
   contextLength?: number
   reasoning?: 'none' | 'hybrid' | 'always'
   codexOnly?: boolean  // Only available with Codex OAuth
+  nativeTools?: boolean  // Prefer provider-native tool calling over the XML protocol
 }
 
 export interface ProviderConfig {
@@ -16,6 +17,7 @@ export interface ProviderConfig {
   models: ModelConfig[]
   apiKeyPlaceholder: string
   apiKeyUrl?: string
+  defaultContextLength: number  // Assumed for custom models without a known contextLength
 }
 
 export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
@@ -24,10 +26,11 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'Claude models - best for agents',
     apiKeyPlaceholder: 'sk-ant-...',
     apiKeyUrl: 'https://console.anthropic.com/settings/keys',
+    defaultContextLength: 200_000,
     models: [
-      { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', vision: true, recommended: true, reasoning: 'hybrid' },
-      { id: 'claude-opus-4-5', name: 'Claude Opus 4.5', vision: true, reasoning: 'hybrid' },
-      { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', vision: true, reasoning: 'hybrid' },
+      { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', vision: true, recommended: true, reasoning: 'hybrid', nativeTools: true, contextLength: 200_000 },
+      { id: 'claude-opus-4-5', name: 'Claude Opus 4.5', vision: true, reasoning: 'hybrid', nativeTools: true, contextLength: 200_000 },
+      { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', vision: true, reasoning: 'hybrid', nativeTools: true, contextLength: 200_000 },
     ],
   },
   openai: {
@@ -35,17 +38,18 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'GPT models - Login with ChatGPT or use API key',
     apiKeyPlaceholder: 'sk-...',
     apiKeyUrl: 'https://platform.openai.com/api-keys',
+    defaultContextLength: 128_000,
     models: [
       // API key models
-      { id: 'gpt-5-mini', name: 'GPT-5 Mini', vision: true, recommended: true },
-      { id: 'gpt-5-nano', name: 'GPT-5 Nano', vision: true },
+      { id: 'gpt-5-mini', name: 'GPT-5 Mini', vision: true, recommended: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5-nano', name: 'GPT-5 Nano', vision: true, nativeTools: true, contextLength: 400_000 },
       // Codex models (ChatGPT Pro/Plus subscription required)
-      { id: 'gpt-5-codex', name: 'GPT-5 Codex', vision: true, codexOnly: true },
-      { id: 'gpt-5.1-codex', name: 'GPT-5.1 Codex', vision: true, codexOnly: true },
-      { id: 'gpt-5.1-codex-max', name: 'GPT-5.1 Codex Max', vision: true, codexOnly: true },
-      { id: 'gpt-5.1-codex-mini', name: 'GPT-5.1 Codex Mini', vision: true, codexOnly: true },
-      { id: 'gpt-5.2-codex', name: 'GPT-5.2 Codex', vision: true, codexOnly: true },
-      { id: 'gpt-5.3-codex', name: 'GPT-5.3 Codex', vision: true, codexOnly: true, recommended: true },
+      { id: 'gpt-5-codex', name: 'GPT-5 Codex', vision: true, codexOnly: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5.1-codex', name: 'GPT-5.1 Codex', vision: true, codexOnly: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5.1-codex-max', name: 'GPT-5.1 Codex Max', vision: true, codexOnly: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5.1-codex-mini', name: 'GPT-5.1 Codex Mini', vision: true, codexOnly: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5.2-codex', name: 'GPT-5.2 Codex', vision: true, codexOnly: true, nativeTools: true, contextLength: 400_000 },
+      { id: 'gpt-5.3-codex', name: 'GPT-5.3 Codex', vision: true, codexOnly: true, recommended: true, nativeTools: true, contextLength: 400_000 },
     ],
   },
   google: {
@@ -53,12 +57,13 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'Gemini models - Login with Google or use API key',
     apiKeyPlaceholder: 'AIza...',
     apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+    defaultContextLength: 1_048_576,
     models: [
-      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash Preview', vision: true, recommended: true, reasoning: 'always' },
-      { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview', vision: true, reasoning: 'always' },
-      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', vision: true, reasoning: 'always' },
-      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', vision: true, reasoning: 'always' },
-      { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', vision: true },
+      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash Preview', vision: true, recommended: true, reasoning: 'always', contextLength: 1_048_576 },
+      { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview', vision: true, reasoning: 'always', contextLength: 1_048_576 },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', vision: true, reasoning: 'always', contextLength: 1_048_576 },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', vision: true, reasoning: 'always', contextLength: 1_048_576 },
+      { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', vision: true, contextLength: 1_048_576 },
     ],
   },
   groq: {
@@ -66,10 +71,11 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'Very fast inference',
     apiKeyPlaceholder: 'gsk_...',
     apiKeyUrl: 'https://console.groq.com/keys',
+    defaultContextLength: 131_072,
     models: [
-      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', vision: false, recommended: true },
-      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', vision: false },
-      { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', vision: false },
+      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', vision: false, recommended: true, contextLength: 131_072 },
+      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', vision: false, contextLength: 131_072 },
+      { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', vision: false, contextLength: 32_768 },
     ],
   },
   xai: {
@@ -77,12 +83,13 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'Grok models',
     apiKeyPlaceholder: 'xai-...',
     apiKeyUrl: 'https://console.x.ai',
+    defaultContextLength: 256_000,
     models: [
-      { id: 'grok-4-1-fast-reasoning', name: 'Grok 4.1 Fast Reasoning', vision: true, recommended: true, reasoning: 'always' },
-      { id: 'grok-4-1-fast-non-reasoning', name: 'Grok 4.1 Fast', vision: true },
-      { id: 'grok-code-fast-1', name: 'Grok Code Fast 1', vision: false, reasoning: 'always' },
-      { id: 'grok-4-fast-reasoning', name: 'Grok 4 Fast Reasoning', vision: true, reasoning: 'always' },
-      { id: 'grok-4-fast-non-reasoning', name: 'Grok 4 Fast', vision: true },
+      { id: 'grok-4-1-fast-reasoning', name: 'Grok 4.1 Fast Reasoning', vision: true, recommended: true, reasoning: 'always', contextLength: 2_000_000 },
+      { id: 'grok-4-1-fast-non-reasoning', name: 'Grok 4.1 Fast', vision: true, contextLength: 2_000_000 },
+      { id: 'grok-code-fast-1', name: 'Grok Code Fast 1', vision: false, reasoning: 'always', contextLength: 256_000 },
+      { id: 'grok-4-fast-reasoning', name: 'Grok 4 Fast Reasoning', vision: true, reasoning: 'always', contextLength: 2_000_000 },
+      { id: 'grok-4-fast-non-reasoning', name: 'Grok 4 Fast', vision: true, contextLength: 2_000_000 },
     ],
   },
   openrouter: {
@@ -90,23 +97,25 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
     description: 'Access many models with one API key',
     apiKeyPlaceholder: 'sk-or-...',
     apiKeyUrl: 'https://openrouter.ai/settings/keys',
+    defaultContextLength: 128_000,
     models: [
-      { id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4', vision: true, recommended: true, reasoning: 'hybrid' },
-      { id: 'anthropic/claude-haiku-4', name: 'Claude Haiku 4', vision: true, reasoning: 'hybrid' },
-      { id: 'openai/gpt-4o', name: 'GPT-4o', vision: true },
-      { id: 'openai/gpt-4o-mini', name: 'GPT-4o Mini', vision: true },
-      { id: 'openai/o1', name: 'o1', vision: true, reasoning: 'hybrid' },
-      { id: 'openai/o1-mini', name: 'o1 Mini', vision: false, reasoning: 'hybrid' },
-      { id: 'openai/o3-mini', name: 'o3 Mini', vision: false, reasoning: 'hybrid' },
-      { id: 'google/gemini-2.0-flash-exp:free', name: 'Gemini 2.0 Flash (Free)', vision: true, reasoning: 'always' },
-      { id: 'deepseek/deepseek-r1', name: 'DeepSeek R1', vision: false, reasoning: 'always' },
-      { id: 'meta-llama/llama-3.3-70b-instruct', name: 'Llama 3.3 70B', vision: false },
+      { id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4', vision: true, recommended: true, reasoning: 'hybrid', nativeTools: true, contextLength: 200_000 },
+      { id: 'anthropic/claude-haiku-4', name: 'Claude Haiku 4', vision: true, reasoning: 'hybrid', nativeTools: true, contextLength: 200_000 },
+      { id: 'openai/gpt-4o', name: 'GPT-4o', vision: true, nativeTools: true, contextLength: 128_000 },
+      { id: 'openai/gpt-4o-mini', name: 'GPT-4o Mini', vision: true, nativeTools: true, contextLength: 128_000 },
+      { id: 'openai/o1', name: 'o1', vision: true, reasoning: 'hybrid', contextLength: 200_000 },
+      { id: 'openai/o1-mini', name: 'o1 Mini', vision: false, reasoning: 'hybrid', contextLength: 128_000 },
+      { id: 'openai/o3-mini', name: 'o3 Mini', vision: false, reasoning: 'hybrid', contextLength: 200_000 },
+      { id: 'google/gemini-2.0-flash-exp:free', name: 'Gemini 2.0 Flash (Free)', vision: true, reasoning: 'always', contextLength: 1_048_576 },
+      { id: 'deepseek/deepseek-r1', name: 'DeepSeek R1', vision: false, reasoning: 'always', contextLength: 64_000 },
+      { id: 'meta-llama/llama-3.3-70b-instruct', name: 'Llama 3.3 70B', vision: false, contextLength: 131_072 },
     ],
   },
   'openai-compatible': {
     name: 'OpenAI Compatible',
     description: 'Custom endpoints (Ollama, LM Studio, etc.)',
     apiKeyPlaceholder: 'optional',
+    defaultContextLength: 32_000,
     models: [
       { id: 'llama3.2', name: 'Llama 3.2 (Ollama)', vision: false, recommended: true },
       { id: 'qwen2.5', name: 'Qwen 2.5 (Ollama)', vision: false },
@@ -114,6 +123,16 @@ export const PROVIDER_CONFIGS: Record<ProviderType, ProviderConfig> = {
       { id: 'custom', name: 'Custom Model', vision: false },
     ],
   },
+  scripted: {
+    name: 'Scripted',
+    description: 'Replays a fixture file offline - for tests and demos',
+    apiKeyPlaceholder: 'not needed',
+    defaultContextLength: 200_000,
+    models: [
+      { id: 'scripted-xml', name: 'Scripted (XML tools)', vision: false, recommended: true },
+      { id: 'scripted-native', name: 'Scripted (native tools)', vision: false, nativeTools: true },
+    ],
+  },
 }
 
 export function getModelsForProvider(provider: ProviderType, codexModeOnly?: boolean): ModelConfig[] {
@@ -142,3 +161,111 @@ export function getModelConfig(provider: ProviderType, modelId: string): ModelCo
   const models = getModelsForProvider(provider)
   return models.find((m) => m.id === modelId)
 }
+
+/**
+ * Resolve the tool-calling protocol for a model. An explicit preference wins;
+ * 'auto' uses native tool calling only for models marked `nativeTools`.
+ */
+export function resolveToolCallMode(
+  provider: ProviderType,
+  modelId: string,
+  preference: ToolCallPreference = 'auto'
+): ToolCallMode {
+  if (preference !== 'auto') return preference
+  // Search all models (including Codex-only ones) rather than the filtered list
+  const model = PROVIDER_CONFIGS[provider]?.models.find((m) => m.id === modelId)
+  return model?.nativeTools ? 'native' : 'xml'
+}
+
+/** Context window for a model, falling back to the provider default for custom models. */
+export function getContextLength(provider: ProviderType, modelId: string): number {
+  const config = PROVIDER_CONFIGS[provider]
+  const model = config?.models.find((m) => m.id === modelId)
+  return model?.contextLength ?? config?.defaultContextLength ?? 32_000
+}
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number
+  output: number
+  /** Price for input tokens read from the prompt cache, when discounted */
+  cachedInput?: number
+}
+
+/**
+ * List prices used to estimate spend. Keyed by model ID; OpenRouter IDs fall
+ * back to the part after the vendor prefix. Subscription (Codex, Gemini login)
+ * and local models are not listed and show token counts only.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Anthropic
+  'claude-sonnet-4-5': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-opus-4-5': { input: 5, output: 25, cachedInput: 0.5 },
+  'claude-haiku-4-5': { input: 1, output: 5, cachedInput: 0.1 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cachedInput: 0.3 },
+  // OpenAI
+  'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'o1': { input: 15, output: 60, cachedInput: 7.5 },
+  'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  // Google
+  'gemini-3-pro-preview': { input: 2, output: 12, cachedInput: 0.2 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3, cachedInput: 0.05 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  'gemini-2.0-flash-exp:free': { input: 0, output: 0 },
+  // Groq
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  // xAI
+  'grok-4-1-fast-reasoning': { input: 0.2, output: 0.5, cachedInput: 0.05 },
+  'grok-4-1-fast-non-reasoning': { input: 0.2, output: 0.5, cachedInput: 0.05 },
+  'grok-code-fast-1': { input: 0.2, output: 1.5, cachedInput: 0.02 },
+  'grok-4-fast-reasoning': { input: 0.2, output: 0.5, cachedInput: 0.05 },
+  'grok-4-fast-non-reasoning': { input: 0.2, output: 0.5, cachedInput: 0.05 },
+  // OpenRouter-only
+  'deepseek-r1': { input: 0.55, output: 2.19 },
+  'llama-3.3-70b-instruct': { input: 0.13, output: 0.4 },
+}
+
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  if (MODEL_PRICING[modelId]) return MODEL_PRICING[modelId]
+  const slash = modelId.indexOf('/')
+  return slash === -1 ? undefined : MODEL_PRICING[modelId.slice(slash + 1)]
+}
+
+/** Estimated USD for a call, or undefined when the model has no listed price */
+export function estimateCost(
+  modelId: string | undefined,
+  usage: { inputTokens: number; outputTokens: number; cachedInputTokens: number }
+): number | undefined {
+  const pricing = modelId ? getModelPricing(modelId) : undefined
+  if (!pricing) return undefined
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens)
+  const uncached = usage.inputTokens - cached
+  return (
+    uncached * pricing.input +
+    cached * (pricing.cachedInput ?? pricing.input) +
+    usage.outputTokens * pricing.output
+  ) / 1_000_000
+}
+
+/** e.g. 950, 12.3k, 1.2M */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`
+  return `${(tokens / 1_000_000).toFixed(1)}M`
+}
+
+/** e.g. $0.0042, $0.31, $12.40 */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0'
+  if (usd < 0.01) return `$${usd.toFixed(4)}`
+  return `$${usd.toFixed(2)}`
+}
@@ -1,18 +1,24 @@
-export { createProvider, validateSettings, ProviderError } from './providers'
-export { PROVIDER_CONFIGS, getModelsForProvider, getDefaultModelForProvider, getModelConfig } from './config'
-export type { ModelConfig, ProviderConfig } from './config'
+export { createProvider, createProviderChain, validateSettings, ProviderError, ProviderHttpError } from './providers'
+export type { ProviderCandidate } from './providers'
+export { ScriptedLanguageModel, ScriptedAssertionError, createScriptedModel, parseScriptedFixture } from './scripted'
+export type { ScriptedFixture, ScriptedTurn, ScriptedToolCall, ScriptedExpectation, ScriptedCall } from './scripted'
+export { PROVIDER_CONFIGS, getModelsForProvider, getDefaultModelForProvider, getModelConfig, getContextLength, resolveToolCallMode, MODEL_PRICING, getModelPricing, estimateCost, formatTokenCount, formatCost } from './config'
+export type { ModelConfig, ProviderConfig, ModelPricing } from './config'
 
-export { formatToolResults } from './xmlParser'
+export { formatToolResults, formatToolOutput } from './xmlParser'
 
 export { XMLStreamParser, STREAM_EVENT_TYPES } from './streamParser'
 export type { StreamEvent, ToolCallEvent, ToolResultEvent } from './streamParser'
 
-export { runWorkflow, getMessageText, hasAttachments, getAttachments } from './workflow'
+export { runWorkflow, getMessageText, hasAttachments, getAttachments, addTokenUsage, buildReplayedTurnMessages, compareReplay, parseReplayBundle, REPLAY_BUNDLE_VERSION } from './workflow'
 export type {
   AgentOptions,
+  ReplayAgentOptions,
   AgentResult,
   AgentCallbacks,
   ToolCallInfo,
+  ToolApproval,
+  ApprovalDecision,
   AssistantMessageSegment,
   Message,
   MessageContent,
@@ -21,6 +27,11 @@ export type {
   ImagePart,
   FilePart,
   FinishReason,
+  ModelFallback,
+  ModelSwitch,
+  TokenUsage,
+  ReplayBundle,
+  ReplayComparison,
 } from './workflow'
 
 export { getTracer } from './tracing'
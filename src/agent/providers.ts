@@ -6,8 +6,10 @@ import { createXai } from '@ai-sdk/xai'
 import { createOpenRouter } from '@openrouter/ai-sdk-provider'
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
 import type { LanguageModel } from 'ai'
-import type { ProviderSettings } from '@shared/settings'
+import type { ProviderSettings, ProviderType } from '@shared/settings'
 import { wrapWithDebugMiddleware } from './debugMiddleware'
+import { resolveToolCallMode } from './config'
+import { createScriptedModel } from './scripted'
 import { createCodexFetch } from '@auth/codex'
 import { createGeminiFetch } from '@auth/gemini'
 import type { CodexAuth, GeminiAuth } from '@auth/types'
@@ -61,7 +63,11 @@ const createFetchWithLogging = (providerName: string, extraHeaders?: Record<stri
       if (!response.ok) {
         const text = await response.text()
         logError(`[${providerName}] Error response body:`, text)
-        throw new Error(`HTTP ${response.status}: ${text}`)
+        throw new ProviderHttpError(
+          `HTTP ${response.status}: ${text}`,
+          response.status,
+          parseRetryAfter(response.headers)
+        )
       }
 
       return response
@@ -91,6 +97,34 @@ export class ProviderError extends Error {
   }
 }
 
+/** Non-2xx response from a provider API, keeping the status and retry-after hint */
+export class ProviderHttpError extends ProviderError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'ProviderHttpError'
+  }
+}
+
+/** Parse `retry-after-ms` / `retry-after` (seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(headers: Headers | Record<string, string | undefined> | undefined): number | undefined {
+  if (!headers) return undefined
+  const get = (name: string) => headers instanceof Headers ? headers.get(name) : headers[name]
+
+  const ms = Number(get('retry-after-ms'))
+  if (Number.isFinite(ms) && ms >= 0) return ms
+
+  const value = get('retry-after')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
 /**
  * Create a Codex-enabled OpenAI provider
  * Uses OAuth tokens instead of API key
@@ -225,7 +259,7 @@ export function createProvider(settings: ProviderSettings): LanguageModel {
 
   // Allow OpenAI without API key if using Codex OAuth
   // Allow Google without API key if using Gemini OAuth
-  if (!apiKey && settings.provider !== 'openai-compatible') {
+  if (!apiKey && settings.provider !== 'openai-compatible' && settings.provider !== 'scripted') {
     if (settings.provider === 'openai' && settings.codexAuth) {
       // Codex OAuth is available, will be used instead
       log('Using Codex OAuth instead of API key')
@@ -340,6 +374,15 @@ export function createProvider(settings: ProviderSettings): LanguageModel {
         return wrapWithDebugMiddleware(model)
       }
 
+      case 'scripted': {
+        log('Creating scripted provider...')
+        try {
+          return createScriptedModel(settings.scriptedFixture, settings.model)
+        } catch (error) {
+          throw new ProviderError((error as Error).message)
+        }
+      }
+
       default:
         logError('Unknown provider:', settings.provider)
         throw new ProviderError(`Unknown provider: ${settings.provider}`)
@@ -350,11 +393,60 @@ export function createProvider(settings: ProviderSettings): LanguageModel {
   }
 }
 
+export interface ProviderCandidate {
+  provider: ProviderType
+  model: string
+  languageModel: LanguageModel
+}
+
+/**
+ * Create the primary model followed by the configured fallbacks, in order.
+ * Fallbacks share the primary's API keys and auth; ones that can't be created
+ * (e.g. no API key for that provider) are skipped, and so are ones that call
+ * tools differently from the primary: the prompt and the history are built
+ * for its tool-call mode, and a switch mid-run can't rebuild them.
+ */
+export function createProviderChain(settings: ProviderSettings): ProviderCandidate[] {
+  const modeOf = (provider: ProviderType, model: string) =>
+    resolveToolCallMode(provider, model, settings.toolCallModes?.[provider])
+  const primaryMode = modeOf(settings.provider, settings.model)
+
+  const chain: ProviderCandidate[] = [{
+    provider: settings.provider,
+    model: settings.model,
+    languageModel: createProvider(settings),
+  }]
+
+  for (const fallback of settings.fallbackModels ?? []) {
+    if (!fallback.model) continue
+    if (chain.some(c => c.provider === fallback.provider && c.model === fallback.model)) continue
+    if (modeOf(fallback.provider, fallback.model) !== primaryMode) {
+      logError(`Skipping fallback ${fallback.provider}/${fallback.model}: it doesn't use ${primaryMode} tool calls like ${settings.provider}/${settings.model}`)
+      continue
+    }
+    try {
+      chain.push({
+        provider: fallback.provider,
+        model: fallback.model,
+        languageModel: createProvider({ ...settings, provider: fallback.provider, model: fallback.model }),
+      })
+    } catch (error) {
+      logError(`Skipping fallback ${fallback.provider}/${fallback.model}:`, error)
+    }
+  }
+
+  return chain
+}
+
 export function validateSettings(settings: ProviderSettings): string | null {
   if (settings.provider === 'openai-compatible') {
     if (!settings.openaiCompatible?.baseURL) {
       return 'Please enter the base URL for your OpenAI-compatible provider'
     }
+  } else if (settings.provider === 'scripted') {
+    if (!settings.scriptedFixture) {
+      return 'Please load a fixture file for the scripted provider'
+    }
   } else if (settings.provider === 'openai') {
     // OpenAI can use either API key or Codex OAuth
     if (!settings.apiKeys[settings.provider] && !settings.codexAuth) {
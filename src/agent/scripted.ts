@@ -0,0 +1,306 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from '@ai-sdk/provider'
+
+const log = (...args: unknown[]) => console.log('[Agent:Scripted]', ...args)
+
+const DEFAULT_CHUNK_SIZE = 24
+
+/** Checks run against the prompt a turn receives. Substring checks are case-sensitive. */
+export interface ScriptedExpectation {
+  /** Substrings the system prompt must contain */
+  systemIncludes?: string[]
+  /** Substrings the newest input must contain: everything after the last assistant message, tool results included */
+  inputIncludes?: string[]
+  /** Substrings the newest input must not contain */
+  inputExcludes?: string[]
+  /** Tools that must be offered to the model (native tool-call mode only) */
+  toolsInclude?: string[]
+  /** Exact number of prompt messages, system message included */
+  messageCount?: number
+}
+
+export interface ScriptedToolCall {
+  id?: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface ScriptedTurn {
+  expect?: ScriptedExpectation
+  reasoning?: string
+  /** Streamed as text; in XML mode this is where `<invoke>` blocks go */
+  text?: string
+  /** Native tool calls, emitted after the text */
+  toolCalls?: ScriptedToolCall[]
+  /** Fail this call instead of answering, e.g. to exercise retries and fallbacks */
+  error?: { message: string; status?: number }
+  usage?: { inputTokens?: number; outputTokens?: number }
+}
+
+export interface ScriptedFixture {
+  name?: string
+  /** Characters per streamed delta (default: 24) */
+  chunkSize?: number
+  /** Delay between deltas in ms (default: 0) */
+  delayMs?: number
+  turns: ScriptedTurn[]
+}
+
+/** A prompt the scripted model received, kept for assertions after the run */
+export interface ScriptedCall {
+  turn: number
+  prompt: LanguageModelV3Prompt
+  tools: string[]
+}
+
+/** The run sent the model something its fixture didn't expect */
+export class ScriptedAssertionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScriptedAssertionError'
+  }
+}
+
+/** Parse and sanity-check a fixture file. Throws with a readable message on bad input. */
+export function parseScriptedFixture(json: string): ScriptedFixture {
+  let fixture: unknown
+  try {
+    fixture = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Scripted fixture is not valid JSON: ${(error as Error).message}`)
+  }
+
+  const turns = (fixture as { turns?: unknown } | null)?.turns
+  if (!Array.isArray(turns) || turns.length === 0) {
+    throw new Error('Scripted fixture needs a non-empty "turns" array')
+  }
+  turns.forEach((turn: ScriptedTurn, i) => {
+    if (!turn || typeof turn !== 'object') {
+      throw new Error(`Scripted fixture turn ${i + 1} is not an object`)
+    }
+    if (!turn.text && !turn.toolCalls?.length && !turn.error) {
+      throw new Error(`Scripted fixture turn ${i + 1} needs text, toolCalls or error`)
+    }
+    for (const call of turn.toolCalls ?? []) {
+      if (typeof call?.name !== 'string' || !call.input || typeof call.input !== 'object') {
+        throw new Error(`Scripted fixture turn ${i + 1} has a tool call without a name and input object`)
+      }
+    }
+  })
+
+  return fixture as ScriptedFixture
+}
+
+function partText(part: { type: string; text?: string; output?: unknown; input?: unknown }): string {
+  if (part.type === 'text' || part.type === 'reasoning') return part.text ?? ''
+  if (part.type === 'tool-result') return JSON.stringify(part.output)
+  if (part.type === 'tool-call') return JSON.stringify(part.input)
+  return ''
+}
+
+function messageText(message: LanguageModelV3Prompt[number]): string {
+  if (typeof message.content === 'string') return message.content
+  return message.content.map(partText).join('\n')
+}
+
+/** Text of everything the model received since it last spoke */
+function getNewestInput(prompt: LanguageModelV3Prompt): string {
+  const lastAssistant = prompt.map(m => m.role).lastIndexOf('assistant')
+  return prompt.slice(lastAssistant + 1)
+    .filter(m => m.role !== 'system')
+    .map(messageText)
+    .join('\n')
+}
+
+function checkExpectation(expect: ScriptedExpectation, call: ScriptedCall): string[] {
+  const failures: string[] = []
+  const system = call.prompt.filter(m => m.role === 'system').map(messageText).join('\n')
+  const input = getNewestInput(call.prompt)
+
+  for (const text of expect.systemIncludes ?? []) {
+    if (!system.includes(text)) failures.push(`system prompt should include ${JSON.stringify(text)}`)
+  }
+  for (const text of expect.inputIncludes ?? []) {
+    if (!input.includes(text)) failures.push(`input should include ${JSON.stringify(text)}`)
+  }
+  for (const text of expect.inputExcludes ?? []) {
+    if (input.includes(text)) failures.push(`input should not include ${JSON.stringify(text)}`)
+  }
+  for (const tool of expect.toolsInclude ?? []) {
+    if (!call.tools.includes(tool)) failures.push(`tool ${tool} should be offered`)
+  }
+  if (expect.messageCount !== undefined && call.prompt.length !== expect.messageCount) {
+    failures.push(`expected ${expect.messageCount} messages, got ${call.prompt.length}`)
+  }
+
+  return failures
+}
+
+function chunk(text: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size))
+  }
+  return chunks
+}
+
+function toUsage(turn: ScriptedTurn): LanguageModelV3Usage {
+  const inputTokens = turn.usage?.inputTokens ?? 0
+  const outputTokens = turn.usage?.outputTokens ?? 0
+  return {
+    inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+  }
+}
+
+/**
+ * A language model that answers from a fixture instead of the network, so
+ * runWorkflow, the XML parser and the tool queue can be exercised offline
+ * and deterministically. Each call consumes the next turn; every prompt it
+ * receives is kept in `calls` and checked against the turn's `expect`.
+ */
+export class ScriptedLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3'
+  readonly provider = 'scripted'
+  readonly modelId: string
+  readonly supportedUrls = {}
+  readonly calls: ScriptedCall[] = []
+
+  private readonly fixture: ScriptedFixture
+  private nextTurn = 0
+
+  constructor(fixture: ScriptedFixture, modelId = 'scripted') {
+    this.fixture = fixture
+    this.modelId = modelId
+  }
+
+  /** Throws unless every turn was played */
+  assertComplete(): void {
+    const remaining = this.fixture.turns.length - this.nextTurn
+    if (remaining > 0) {
+      throw new ScriptedAssertionError(`${remaining} scripted turn(s) were never requested`)
+    }
+  }
+
+  private takeTurn(options: LanguageModelV3CallOptions): ScriptedTurn {
+    const index = this.nextTurn
+    const turn = this.fixture.turns[index]
+    if (!turn) {
+      throw new ScriptedAssertionError(
+        `Scripted fixture${this.fixture.name ? ` "${this.fixture.name}"` : ''} ran out of turns after ${index}`
+      )
+    }
+    this.nextTurn++
+
+    const call: ScriptedCall = {
+      turn: index + 1,
+      prompt: options.prompt,
+      tools: (options.tools ?? []).map(t => t.name),
+    }
+    this.calls.push(call)
+    log(`Turn ${call.turn}/${this.fixture.turns.length}`)
+
+    const failures = turn.expect ? checkExpectation(turn.expect, call) : []
+    if (failures.length > 0) {
+      throw new ScriptedAssertionError(`Scripted turn ${call.turn}: ${failures.join('; ')}`)
+    }
+    if (turn.error) {
+      throw Object.assign(new Error(turn.error.message), { status: turn.error.status })
+    }
+    return turn
+  }
+
+  private toolCallId(turn: number, index: number, call: ScriptedToolCall): string {
+    return call.id ?? `scripted_${turn}_${index + 1}`
+  }
+
+  async doGenerate(options: LanguageModelV3CallOptions) {
+    const turn = this.takeTurn(options)
+    const content: LanguageModelV3Content[] = []
+    if (turn.reasoning) content.push({ type: 'reasoning', text: turn.reasoning })
+    if (turn.text) content.push({ type: 'text', text: turn.text })
+    turn.toolCalls?.forEach((call, i) => {
+      content.push({
+        type: 'tool-call',
+        toolCallId: this.toolCallId(this.nextTurn, i, call),
+        toolName: call.name,
+        input: JSON.stringify(call.input),
+      })
+    })
+
+    return {
+      content,
+      finishReason: { unified: turn.toolCalls?.length ? 'tool-calls' as const : 'stop' as const, raw: undefined },
+      usage: toUsage(turn),
+      warnings: [],
+    }
+  }
+
+  async doStream(options: LanguageModelV3CallOptions) {
+    const turn = this.takeTurn(options)
+    const turnNumber = this.nextTurn
+    const size = this.fixture.chunkSize ?? DEFAULT_CHUNK_SIZE
+    const delayMs = this.fixture.delayMs ?? 0
+
+    const parts: LanguageModelV3StreamPart[] = [{ type: 'stream-start', warnings: [] }]
+    if (turn.reasoning) {
+      parts.push({ type: 'reasoning-start', id: 'reasoning' })
+      for (const delta of chunk(turn.reasoning, size)) {
+        parts.push({ type: 'reasoning-delta', id: 'reasoning', delta })
+      }
+      parts.push({ type: 'reasoning-end', id: 'reasoning' })
+    }
+    if (turn.text) {
+      parts.push({ type: 'text-start', id: 'text' })
+      for (const delta of chunk(turn.text, size)) {
+        parts.push({ type: 'text-delta', id: 'text', delta })
+      }
+      parts.push({ type: 'text-end', id: 'text' })
+    }
+    turn.toolCalls?.forEach((call, i) => {
+      parts.push({
+        type: 'tool-call',
+        toolCallId: this.toolCallId(turnNumber, i, call),
+        toolName: call.name,
+        input: JSON.stringify(call.input),
+      })
+    })
+    parts.push({
+      type: 'finish',
+      finishReason: { unified: turn.toolCalls?.length ? 'tool-calls' : 'stop', raw: undefined },
+      usage: toUsage(turn),
+    })
+
+    const abortSignal = options.abortSignal
+    const stream = new ReadableStream<LanguageModelV3StreamPart>({
+      async start(controller) {
+        for (const part of parts) {
+          if (abortSignal?.aborted) {
+            controller.error(new DOMException('The operation was aborted', 'AbortError'))
+            return
+          }
+          if (delayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, delayMs))
+          }
+          controller.enqueue(part)
+        }
+        controller.close()
+      },
+    })
+
+    return { stream }
+  }
+}
+
+export function createScriptedModel(fixtureJson: string | undefined, modelId?: string): ScriptedLanguageModel {
+  if (!fixtureJson?.trim()) {
+    throw new Error('No scripted fixture loaded')
+  }
+  return new ScriptedLanguageModel(parseScriptedFixture(fixtureJson), modelId)
+}
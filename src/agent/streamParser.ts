@@ -15,6 +15,8 @@ export interface ToolCallEvent {
   id: string
   name: string
   params: Record<string, unknown>
+  /** Set when the arguments could not be parsed */
+  inputError?: string
 }
 
 export interface ToolResultEvent {
@@ -0,0 +1,93 @@
+import type { ApprovalRule } from '@shared/settings'
+import type { AgentSession, ToolCallInfo } from './types'
+import { getHost, CLICK_ACTIONS } from './planScope'
+
+const log = (...args: unknown[]) => console.log('[Workflow:Approval]', ...args)
+
+type ToolRunner = (name: string, params: Record<string, unknown>) => Promise<unknown>
+
+async function getNewDomainReason(toolCall: ToolCallInfo, session: AgentSession): Promise<string | null> {
+  const url = toolCall.input.url
+  if (typeof url !== 'string' || url === 'back' || url === 'forward') return null
+
+  const targetHost = getHost(url)
+  if (!targetHost) return null
+
+  const tabId = (toolCall.input.tabId as number | undefined) ?? session.config.tabId
+  try {
+    const tab = await chrome.tabs.get(tabId)
+    const currentHost = tab.url ? getHost(tab.url) : null
+    if (currentHost === targetHost) return null
+  } catch (err) {
+    log('Could not read current tab URL:', err)
+  }
+
+  return `Navigates to a new domain: ${targetHost}`
+}
+
+async function getFormSubmitReason(toolCall: ToolCallInfo, session: AgentSession, runTool: ToolRunner): Promise<string | null> {
+  const { input } = toolCall
+  if (toolCall.name === 'computer' && !CLICK_ACTIONS.has(input.action as string)) return null
+  if (!input.ref && !input.coordinate) return null
+
+  const result = await runTool('describe_element', {
+    tabId: input.tabId ?? session.config.tabId,
+    ref: input.ref,
+    coordinate: input.coordinate,
+  }) as { isSubmit?: boolean; text?: string } | null
+
+  if (!result?.isSubmit) return null
+  return result.text ? `Submits a form ("${result.text}")` : 'Submits a form'
+}
+
+function getStorageEditReason(toolCall: ToolCallInfo): string | null {
+  const { action, area, key } = toolCall.input
+  if (action === 'set') return area === 'cookies' ? `Sets cookie "${key}"` : `Sets ${area} key "${key}"`
+  if (action === 'remove') return area === 'cookies' ? `Deletes cookie "${key}"` : `Deletes ${area} key "${key}"`
+  return null
+}
+
+function getRememberReason(toolCall: ToolCallInfo): string {
+  const content = String(toolCall.input.content ?? '').trim()
+  const preview = content.length > 200 ? `${content.slice(0, 200)}…` : content
+  return `Saves a memory for future conversations: "${preview}"`
+}
+
+/**
+ * Check a tool call against the approval rules; storage edits and saved
+ * memories need approval whatever the rules say. Returns a human-readable reason when the call must
+ * wait for the user, or null when it can run.
+ */
+export async function getApprovalReason(
+  toolCall: ToolCallInfo,
+  session: AgentSession,
+  runTool: ToolRunner
+): Promise<string | null> {
+  // Editing storage can sign the user out or corrupt app state, so it always asks
+  if (toolCall.name === 'read_storage') return getStorageEditReason(toolCall)
+  // Memories go into every later system prompt, so page text must not be able to plant one
+  if (toolCall.name === 'remember') return getRememberReason(toolCall)
+
+  const rules = new Set<ApprovalRule>(session.config.approvalRules ?? [])
+  if (rules.size === 0) return null
+
+  switch (toolCall.name) {
+    case 'run_javascript':
+      return rules.has('run_javascript') ? 'Runs JavaScript on the page' : null
+    case 'close_tab':
+      return rules.has('close_tab') ? `Closes tab ${toolCall.input.tabId ?? ''}`.trim() : null
+    case 'update_plan':
+      return rules.has('update_plan') ? 'Plan needs your approval before the agent continues' : null
+    case 'navigate':
+      return rules.has('navigate_new_domain') ? getNewDomainReason(toolCall, session) : null
+    case 'form_input':
+    case 'computer':
+      return rules.has('form_submit') ? getFormSubmitReason(toolCall, session, runTool) : null
+  }
+
+  if (rules.has('mcp_tools') && session.mcpTools.some(t => t.name === toolCall.name)) {
+    return 'Calls an external MCP tool'
+  }
+
+  return null
+}
@@ -0,0 +1,223 @@
+import type { AgentSession, Message, ContentPart } from './types'
+import { getMessageText } from './types'
+import { toolDefinitionToJsonSchema } from './nativeTools'
+
+/** Rough chars-per-token ratio used for estimation (no tokenizer in the extension) */
+const CHARS_PER_TOKEN = 4
+/** Approximate cost of one screenshot-sized image across providers */
+const IMAGE_TOKENS = 1600
+/** Start compacting once the estimated prompt exceeds this share of the context window */
+const COMPACTION_TRIGGER_RATIO = 0.75
+/** Compact until the estimated prompt fits within this share of the context window */
+const COMPACTION_TARGET_RATIO = 0.5
+/** Most recent tool-result messages that are never compacted */
+const KEEP_RECENT_TOOL_RESULTS = 2
+/** Length old tool outputs are cut down to */
+const CONDENSED_OUTPUT_CHARS = 1500
+
+const COMPACTED_MARKER = '[compacted'
+const SCREENSHOT_PLACEHOLDER = '[compacted: screenshot removed to save context]'
+
+export interface CompactionResult {
+  tokensBefore: number
+  tokensAfter: number
+  imagesDropped: number
+  resultsCondensed: number
+  stepsDropped: number
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function estimatePartTokens(part: ContentPart): number {
+  switch (part.type) {
+    case 'text':
+      return estimateTextTokens(part.text)
+    case 'image':
+      return IMAGE_TOKENS
+    case 'file':
+      // base64 expands 3 bytes into 4 chars
+      return estimateTextTokens(part.data) * 3 / 4
+  }
+}
+
+export function estimateMessageTokens(message: Message): number {
+  let tokens = typeof message.content === 'string'
+    ? estimateTextTokens(message.content)
+    : message.content.reduce((sum, part) => sum + estimatePartTokens(part), 0)
+
+  for (const tc of message.toolCalls ?? []) {
+    tokens += estimateTextTokens(tc.name + JSON.stringify(tc.input))
+  }
+  for (const tr of message.toolResults ?? []) {
+    tokens += estimateTextTokens(tr.output)
+  }
+
+  return Math.ceil(tokens)
+}
+
+/** Estimate the full prompt size: system prompt, native tool schemas and all messages. */
+export function estimateSessionTokens(session: AgentSession): number {
+  let tokens = estimateTextTokens(session.systemPrompt)
+
+  if (session.toolCallMode === 'native') {
+    for (const def of [...session.toolDefinitions, ...session.mcpTools]) {
+      tokens += estimateTextTokens(def.description + JSON.stringify(toolDefinitionToJsonSchema(def)))
+    }
+  }
+
+  for (const message of session.messages) {
+    tokens += estimateMessageTokens(message)
+  }
+
+  return tokens
+}
+
+function isToolResultMessage(message: Message): boolean {
+  if (message.role !== 'user') return false
+  if (message.toolResults?.length) return true
+  return getMessageText(message).trimStart().startsWith('<tool_results>')
+}
+
+/** Cut a tool output down to its head, noting how much was dropped. Idempotent. */
+export function condenseOutput(output: string): string {
+  if (output.length <= CONDENSED_OUTPUT_CHARS || output.includes(COMPACTED_MARKER)) {
+    return output
+  }
+  const omitted = output.length - CONDENSED_OUTPUT_CHARS
+  return `${output.slice(0, CONDENSED_OUTPUT_CHARS)}\n${COMPACTED_MARKER}: ${omitted} more chars removed to save context — re-run the tool if you need them]`
+}
+
+function condenseToolResultText(text: string): string {
+  return text.replace(
+    /(<output>)([\s\S]*?)(<\/output>)/g,
+    (_match, open: string, output: string, close: string) => open + condenseOutput(output) + close
+  )
+}
+
+/** Names of the tools called by an assistant message, in either protocol */
+function getCalledToolNames(message: Message): string[] {
+  if (message.toolCalls?.length) {
+    return message.toolCalls.map(tc => tc.name)
+  }
+  const names: string[] = []
+  for (const match of getMessageText(message).matchAll(/<invoke name="([^"]*)">/g)) {
+    names.push(match[1])
+  }
+  return names
+}
+
+function dropImages(message: Message): number {
+  if (typeof message.content === 'string') return 0
+
+  let dropped = 0
+  message.content = message.content.map((part): ContentPart => {
+    if (part.type !== 'image') return part
+    dropped++
+    return { type: 'text', text: SCREENSHOT_PLACEHOLDER }
+  })
+  return dropped
+}
+
+function condenseResults(message: Message): boolean {
+  let changed = false
+
+  if (message.toolResults) {
+    message.toolResults = message.toolResults.map(tr => {
+      const output = condenseOutput(tr.output)
+      if (output !== tr.output) changed = true
+      return { ...tr, output }
+    })
+  }
+
+  if (typeof message.content === 'string') {
+    const condensed = condenseToolResultText(message.content)
+    if (condensed !== message.content) {
+      message.content = condensed
+      changed = true
+    }
+  } else {
+    message.content = message.content.map(part => {
+      if (part.type !== 'text') return part
+      const condensed = condenseToolResultText(part.text)
+      if (condensed !== part.text) changed = true
+      return { ...part, text: condensed }
+    })
+  }
+
+  return changed
+}
+
+/**
+ * Compact the session's messages in place when the estimated prompt nears
+ * the model's context window. Stages run from least to most lossy, stopping
+ * as soon as the prompt fits the target:
+ * 1. Replace screenshots in old tool results with a placeholder
+ * 2. Condense old tool outputs to their first few hundred tokens
+ * 3. Collapse the oldest steps (tool calls + results) into a one-line note
+ *
+ * The most recent tool results and all non-tool messages are never touched.
+ */
+export function compactSession(session: AgentSession, contextLength: number): CompactionResult | null {
+  const tokensBefore = estimateSessionTokens(session)
+  if (tokensBefore <= contextLength * COMPACTION_TRIGGER_RATIO) {
+    return null
+  }
+
+  const target = contextLength * COMPACTION_TARGET_RATIO
+  const messages = session.messages
+  const toolResultIndexes = messages
+    .map((m, i) => (isToolResultMessage(m) ? i : -1))
+    .filter(i => i !== -1)
+  const compactable = toolResultIndexes.slice(0, Math.max(0, toolResultIndexes.length - KEEP_RECENT_TOOL_RESULTS))
+
+  const result: CompactionResult = {
+    tokensBefore,
+    tokensAfter: tokensBefore,
+    imagesDropped: 0,
+    resultsCondensed: 0,
+    stepsDropped: 0,
+  }
+
+  const fits = () => {
+    result.tokensAfter = estimateSessionTokens(session)
+    return result.tokensAfter <= target
+  }
+
+  // Stage 1: screenshots
+  for (const i of compactable) {
+    result.imagesDropped += dropImages(messages[i])
+  }
+
+  // Stage 2: condense old outputs, oldest first
+  if (!fits()) {
+    for (const i of compactable) {
+      if (condenseResults(messages[i])) result.resultsCondensed++
+      if (fits()) break
+    }
+  }
+
+  // Stage 3: collapse whole steps, oldest first. The assistant/result pair is
+  // kept as a short note so role alternation and native call/result pairing hold.
+  if (!fits()) {
+    for (const i of compactable) {
+      const assistant = messages[i - 1]
+      if (!assistant || assistant.role !== 'assistant') continue
+
+      const toolNames = getCalledToolNames(assistant)
+      messages[i - 1] = {
+        role: 'assistant',
+        content: `${COMPACTED_MARKER}: earlier step called ${toolNames.join(', ') || 'tools'}]`,
+      }
+      messages[i] = {
+        role: 'user',
+        content: `${COMPACTED_MARKER}: tool results removed to save context]`,
+      }
+      result.stepsDropped++
+      if (fits()) break
+    }
+  }
+
+  return result
+}
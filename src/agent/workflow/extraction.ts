@@ -0,0 +1,126 @@
+import { generateText } from 'ai'
+import type { AgentSession, ToolExecutionResult, TokenUsage } from './types'
+import { extractJson } from './structuredOutput'
+import { toTokenUsage } from './stream'
+import { estimateCost } from '../config'
+import { ScriptedLanguageModel } from '../scripted'
+import { finishExtraction, describeExtraction, type ExtractionPlan } from '@shared/extraction'
+
+const log = (...args: unknown[]) => console.log('[Workflow:Extract]', ...args)
+
+/** What the `extract` handler leaves for the model when the DOM heuristics fall short */
+interface PendingExtraction {
+  plan: ExtractionPlan
+  /** Each record's item as compact page text; may stop short of the records */
+  items: string[]
+}
+
+interface ExtractOutput {
+  records: Array<Record<string, unknown>>
+  limitReached?: boolean
+  _extraction?: PendingExtraction
+  [key: string]: unknown
+}
+
+const EXTRACTION_SYSTEM = `You extract structured records from web page content.
+Reply with JSON only, no prose. Use null for a value the content does not contain; never guess or invent one. Copy text, numbers and URLs exactly as they appear.`
+
+function buildPrompt(plan: ExtractionPlan, records: Array<Record<string, unknown>>, items: string[]): string {
+  const shape = plan.multiple
+    ? `The content below has ${items.length} items. Reply with a JSON array of exactly ${items.length} objects, one per item, in the same order.`
+    : 'Reply with one JSON object.'
+
+  const blocks = items.map((text, i) => {
+    const hints = Object.keys(records[i] ?? {}).length > 0
+      ? `\nFound in the markup (keep unless the text shows it is wrong): ${JSON.stringify(records[i])}`
+      : ''
+    return `<item index="${i}">${hints}\n${text}\n</item>`
+  })
+
+  return `Schema of one record:
+${JSON.stringify(plan.itemSchema, null, 2)}
+
+${shape}
+
+${blocks.join('\n\n')}`
+}
+
+/** The model's records, one per item; null when the reply isn't usable */
+function parseRecords(text: string, plan: ExtractionPlan): Array<Record<string, unknown> | null> | null {
+  const value = extractJson(text)?.value
+  const records = plan.multiple ? value : [value]
+  if (!Array.isArray(records)) return null
+  return records.map(record => record && typeof record === 'object' && !Array.isArray(record)
+    ? record as Record<string, unknown>
+    : null)
+}
+
+function withOutput(result: ToolExecutionResult, output: Record<string, unknown>): ToolExecutionResult {
+  return { ...result, result: output, toolCall: { ...result.toolCall, result: output } }
+}
+
+/**
+ * Finish an `extract` call whose records have gaps: the model reads each
+ * item's text for the missing fields, its answer is merged over what the
+ * heuristics found, and the merged records are checked against the schema
+ * again. The item text is dropped from the result either way.
+ *
+ * The pass's tokens ride along on the result so the step counts them. A
+ * scripted or replayed model only has turns for the agent's own steps, so
+ * the pass is skipped there rather than eating one of them.
+ */
+export async function completeExtraction(session: AgentSession, result: ToolExecutionResult): Promise<ToolExecutionResult> {
+  const { _extraction: pending, ...output } = result.result as ExtractOutput
+  if (!pending) return result
+  if (pending.items.length === 0 || session.model instanceof ScriptedLanguageModel) {
+    return withOutput(result, output)
+  }
+
+  let read: Array<Record<string, unknown> | null> | null
+  let usage: TokenUsage
+  try {
+    const reply = await generateText({
+      model: session.model,
+      system: EXTRACTION_SYSTEM,
+      prompt: buildPrompt(pending.plan, output.records, pending.items),
+      abortSignal: session.abortSignal,
+    })
+    usage = toTokenUsage(reply.usage)
+    usage.cost = estimateCost(session.modelName, usage)
+    read = parseRecords(reply.text, pending.plan)
+  } catch (err) {
+    log('Model pass failed:', (err as Error).message)
+    return withOutput(result, output)
+  }
+
+  if (!read) {
+    log('Model pass returned no usable JSON')
+    return { ...withOutput(result, output), usage }
+  }
+
+  // The model saw the markup's values as hints, so its answer wins where it gave one
+  const merged = output.records.map((record, i) => {
+    const fromModel = read[i]
+    if (!fromModel) return record
+    const combined = { ...record }
+    for (const field of pending.plan.fields) {
+      const value = fromModel[field.name]
+      if (value !== null && value !== undefined && value !== '') combined[field.name] = value
+    }
+    return combined
+  })
+
+  const report = finishExtraction(merged, pending.plan)
+  const note = describeExtraction(report, output.limitReached)
+  log(`Model pass filled ${pending.items.length} items`, report.missing ?? 'no gaps')
+
+  const { missing: _missing, invalid: _invalid, note: _note, ...rest } = output
+  return {
+    ...withOutput(result, {
+      ...rest,
+      ...report,
+      ...(note && { note }),
+    }),
+    usage,
+  }
+}
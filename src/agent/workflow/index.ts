@@ -7,22 +7,52 @@ export type {
   TextPart,
   ImagePart,
   FilePart,
+  NativeToolCall,
+  NativeToolResult,
   ToolCallInfo,
+  ToolApproval,
+  ApprovalDecision,
   AssistantMessageSegment,
   ToolExecutor,
   AgentConfig,
   AgentSession,
+  PlanScope,
+  ModelFallback,
+  ModelSwitch,
+  TokenUsage,
   StepResult,
   ToolExecutionResult,
   FinishReason,
   AgentResult,
   AgentCallbacks,
   AgentOptions,
+  ReplayAgentOptions,
 } from './types'
 
-export { getMessageText, hasAttachments, getAttachments } from './types'
+export { getMessageText, hasAttachments, getAttachments, addTokenUsage } from './types'
 
 export { createSession, isAborted } from './session'
 export { streamLLMResponse, hasToolCalls } from './stream'
-export { executeTool, ToolQueue } from './tools'
-export { buildAssistantResponse, buildToolResultsMessage } from './messages'
+export { isTransientError, getRetryDelay, DEFAULT_MAX_RETRIES } from './retry'
+export { executeTool, runSessionTool, ToolQueue } from './tools'
+export { LoopDetector } from './loopDetection'
+export { updateSiteInstructions } from './siteInstructions'
+export type { LoopKind, LoopSignal, LoopRecovery } from './loopDetection'
+export { checkStructuredOutput, MAX_OUTPUT_REPAIRS } from './structuredOutput'
+export type { StructuredOutputCheck } from './structuredOutput'
+export {
+  RunRecorder,
+  applyReplay,
+  compareReplay,
+  parseReplayBundle,
+  bundleToFixture,
+  createReplayModel,
+  createReplayToolExecutor,
+  REPLAY_BUNDLE_VERSION,
+} from './recording'
+export type { ReplayBundle, ReplayOptions, ReplayComparison, RecordedLLMCall, RecordedToolCall } from './recording'
+export { buildAssistantResponse, buildToolResultsMessage, buildReplayedTurnMessages } from './messages'
+export type { ReplayableTurn } from './messages'
+export { buildNativeToolSet, toolDefinitionToJsonSchema } from './nativeTools'
+export { compactSession, estimateSessionTokens, estimateMessageTokens, estimateTextTokens } from './compaction'
+export type { CompactionResult } from './compaction'
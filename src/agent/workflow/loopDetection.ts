@@ -0,0 +1,276 @@
+import type { AgentSession, ToolCallInfo } from './types'
+import { runSessionTool } from './tools'
+import { injectNote } from './messages'
+
+const log = (...args: unknown[]) => console.log('[Workflow:LoopDetection]', ...args)
+
+/** Number of recent steps compared against each other */
+const WINDOW_STEPS = 6
+/** The same call (tool + input) this many times within the window, on an unchanged page or with the same error */
+const REPEATED_CALL_LIMIT = 3
+/** The same error text this many times within the window */
+const REPEATED_ERROR_LIMIT = 3
+/** This many page reads in a row came back identical despite actions in between */
+const UNCHANGED_PAGE_LIMIT = 3
+
+/** Tools whose output is a view of the current page */
+const PAGE_READ_TOOLS = new Set(['read_page', 'get_page_text', 'find'])
+
+/** Calls that legitimately repeat with the same input: polling, reading and scrolling */
+const REPEATABLE_COMPUTER_ACTIONS = new Set(['wait', 'screenshot', 'zoom', 'hover', 'scroll', 'scroll_to'])
+
+/** Computer actions that are expected to change the page */
+const ACTING_COMPUTER_ACTIONS = new Set([
+  'left_click',
+  'right_click',
+  'double_click',
+  'triple_click',
+  'type',
+  'key',
+  'left_click_drag',
+])
+
+export type LoopKind = 'repeated_call' | 'repeated_error' | 'unchanged_page'
+
+export interface LoopSignal {
+  kind: LoopKind
+  detail: string
+}
+
+export type LoopRecovery = 'note' | 'screenshot' | 'stop'
+
+interface RecordedCall {
+  label: string
+  /** Normalized error text, when the call failed */
+  error?: string
+}
+
+interface StepRecord {
+  calls: Map<string, RecordedCall>
+  errors: string[]
+  acted: boolean
+  pageFingerprint?: string
+}
+
+/** JSON with sorted keys, so inputs that differ only in key order compare equal */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/** Cheap string hash (djb2); page reads can be large and only need comparing */
+function hashText(text: string): string {
+  let hash = 5381
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0
+  }
+  return `${text.length}:${hash >>> 0}`
+}
+
+function isRepeatable(toolCall: ToolCallInfo): boolean {
+  if (PAGE_READ_TOOLS.has(toolCall.name)) return true
+  return toolCall.name === 'computer' && REPEATABLE_COMPUTER_ACTIONS.has(toolCall.input.action as string)
+}
+
+function isActing(toolCall: ToolCallInfo): boolean {
+  switch (toolCall.name) {
+    case 'computer':
+      return ACTING_COMPUTER_ACTIONS.has(toolCall.input.action as string)
+    case 'form_input':
+    case 'navigate':
+    case 'run_javascript':
+      return true
+    default:
+      return false
+  }
+}
+
+function describeCall(toolCall: ToolCallInfo): string {
+  const action = toolCall.name === 'computer' ? toolCall.input.action : undefined
+  return typeof action === 'string' ? `computer(${action})` : toolCall.name
+}
+
+/** Errors often embed refs or coordinates; compare them without the numbers */
+function normalizeError(error: string): string {
+  return error.trim().slice(0, 200).replace(/\d+/g, '#')
+}
+
+function recordStep(toolCalls: ToolCallInfo[]): StepRecord {
+  const record: StepRecord = { calls: new Map(), errors: [], acted: false }
+  const pageReads: string[] = []
+
+  for (const toolCall of toolCalls) {
+    if (!isRepeatable(toolCall)) {
+      record.calls.set(`${toolCall.name}:${stableStringify(toolCall.input)}`, {
+        label: describeCall(toolCall),
+        ...(toolCall.status === 'error' && toolCall.error && { error: normalizeError(toolCall.error) }),
+      })
+    }
+    if (toolCall.status === 'error' && toolCall.error) {
+      record.errors.push(toolCall.error)
+    }
+    if (isActing(toolCall)) {
+      record.acted = true
+    }
+    if (PAGE_READ_TOOLS.has(toolCall.name) && toolCall.status === 'completed') {
+      pageReads.push(`${toolCall.name}:${stableStringify(toolCall.input)}:${stableStringify(toolCall.result)}`)
+    }
+  }
+
+  if (pageReads.length > 0) {
+    record.pageFingerprint = hashText(pageReads.join('\n'))
+  }
+  return record
+}
+
+/**
+ * Watches the tool calls of recent steps for signs that the agent is going
+ * in circles: the same call over and over, the same error over and over,
+ * or page reads that never change no matter what it clicks.
+ */
+export class LoopDetector {
+  private steps: StepRecord[] = []
+  private interventions = 0
+
+  /** Record a finished step. Returns a signal when the agent looks stuck. */
+  record(toolCalls: ToolCallInfo[]): LoopSignal | null {
+    this.steps.push(recordStep(toolCalls))
+    if (this.steps.length > WINDOW_STEPS) {
+      this.steps.shift()
+    }
+    return this.findRepeatedCall() ?? this.findRepeatedError() ?? this.findUnchangedPage()
+  }
+
+  /**
+   * Pick the next recovery for a detected loop and start a fresh window, so
+   * the agent gets a few steps to act on it before the next escalation.
+   */
+  escalate(vision: boolean): LoopRecovery {
+    this.interventions++
+    this.steps = []
+    if (this.interventions === 1) return 'note'
+    if (this.interventions === 2 && vision) return 'screenshot'
+    return 'stop'
+  }
+
+  /** Forget everything, e.g. when the user sends a new message mid-run */
+  reset(): void {
+    this.steps = []
+    this.interventions = 0
+  }
+
+  /**
+   * The same call only counts as repeating when it failed the same way or
+   * the page read the same before each one. Clicking "Next" or scrolling
+   * through a list repeats a call too, but the page changes in between.
+   */
+  private findRepeatedCall(): LoopSignal | null {
+    const counts = new Map<string, number>()
+    // The page as last read before the step; unknown until something reads it
+    let page = 'unknown'
+    for (const step of this.steps) {
+      for (const [signature, call] of step.calls) {
+        const key = `${signature}|${call.error ? `error:${call.error}` : `page:${page}`}`
+        const count = (counts.get(key) ?? 0) + 1
+        counts.set(key, count)
+        if (count >= REPEATED_CALL_LIMIT) {
+          const why = call.error ? 'and got the same error each time' : 'without the page changing in between'
+          return { kind: 'repeated_call', detail: `${call.label} was called ${count} times with the same input ${why}` }
+        }
+      }
+      if (step.pageFingerprint) page = step.pageFingerprint
+    }
+    return null
+  }
+
+  private findRepeatedError(): LoopSignal | null {
+    const counts = new Map<string, number>()
+    for (const step of this.steps) {
+      for (const error of step.errors) {
+        const key = normalizeError(error)
+        const count = (counts.get(key) ?? 0) + 1
+        counts.set(key, count)
+        if (count >= REPEATED_ERROR_LIMIT) {
+          return { kind: 'repeated_error', detail: `the same error came back ${count} times: "${error.slice(0, 120)}"` }
+        }
+      }
+    }
+    return null
+  }
+
+  private findUnchangedPage(): LoopSignal | null {
+    let fingerprint: string | undefined
+    let reads = 0
+    let actions = 0
+
+    // Walk back from the latest read while the page looks the same, counting
+    // the steps that acted on it in between
+    for (let i = this.steps.length - 1; i >= 0; i--) {
+      const step = this.steps[i]
+      if (step.pageFingerprint) {
+        if (fingerprint && step.pageFingerprint !== fingerprint) break
+        fingerprint = step.pageFingerprint
+        reads++
+        // Actions in the oldest read's step may be what produced that page
+        if (reads >= UNCHANGED_PAGE_LIMIT) break
+      }
+      if (fingerprint && step.acted) actions++
+    }
+
+    if (reads >= UNCHANGED_PAGE_LIMIT && actions >= UNCHANGED_PAGE_LIMIT - 1) {
+      return { kind: 'unchanged_page', detail: `the page read the same ${reads} times in a row despite ${actions} steps of actions` }
+    }
+    return null
+  }
+}
+
+function formatLoopNote(signal: LoopSignal, withScreenshot: boolean): string {
+  const lines = [
+    '<system-note>',
+    `You appear to be stuck: ${signal.detail}. Repeating the same approach will not help.`,
+  ]
+  if (withScreenshot) {
+    lines.push('Above is a screenshot of the page as it is right now. Compare it with what you expected to see; a dialog, overlay or error message may be in the way.')
+  }
+  lines.push(
+    'Try something different: re-read the page for fresh refs, use another element or keyboard navigation, scroll the target into view, or navigate to the destination directly.',
+    'If the task cannot be done, stop and explain what is blocking you.',
+    '</system-note>'
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Nudge the agent out of a loop: a corrective note, backed by a screenshot
+ * of the page when the model can see images.
+ */
+export async function applyLoopRecovery(
+  session: AgentSession,
+  signal: LoopSignal,
+  recovery: Exclude<LoopRecovery, 'stop'>
+): Promise<void> {
+  log(`Stuck (${signal.kind}), recovering with ${recovery}:`, signal.detail)
+
+  const images: string[] = []
+  if (recovery === 'screenshot') {
+    const result = await runSessionTool(session, 'computer', {
+      action: 'screenshot',
+      tabId: session.config.tabId,
+    }) as { dataUrl?: unknown } | null
+    if (typeof result?.dataUrl === 'string' && result.dataUrl.startsWith('data:image/')) {
+      images.push(result.dataUrl)
+    } else {
+      log('Screenshot for loop recovery failed:', result)
+    }
+  }
+
+  injectNote(session.messages, formatLoopNote(signal, images.length > 0), images)
+}
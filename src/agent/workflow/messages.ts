@@ -1,7 +1,20 @@
-import type { StepResult, ToolExecutionResult, AgentSession, Message, ContentPart } from './types'
+import type {
+  StepResult,
+  ToolExecutionResult,
+  AgentSession,
+  Message,
+  ContentPart,
+  FilePart,
+  NativeToolCall,
+  NativeToolResult,
+  ToolCallInfo,
+  AssistantMessageSegment,
+} from './types'
 import type { TabInfo } from '@shared/types'
-import { formatToolResults } from '../xmlParser'
+import type { ToolCallMode } from '@shared/settings'
+import { formatToolResults, formatToolOutput } from '../xmlParser'
 import { appendAssistantMessage, appendUserMessage } from './session'
+import { condenseOutput } from './compaction'
 
 export function buildAssistantResponse(stepResult: StepResult): string {
   let response = stepResult.text
@@ -43,14 +56,31 @@ function extractScreenshots(toolResults: ToolExecutionResult[]): string[] {
   return images
 }
 
+/** Extract files tools attached (e.g. a download) and strip their data from the result objects. */
+function extractFiles(toolResults: ToolExecutionResult[]): FilePart[] {
+  const files: FilePart[] = []
+
+  for (const tr of toolResults) {
+    const result = tr.result as Record<string, unknown> | null
+    const file = result && typeof result === 'object' ? result.file as Partial<FilePart> | undefined : undefined
+    if (file && typeof file.data === 'string' && file.data.startsWith('data:') && file.mediaType) {
+      files.push({ type: 'file', data: file.data, mediaType: file.mediaType, filename: file.filename })
+      result!.file = { mediaType: file.mediaType, filename: file.filename, attached: true }
+    }
+  }
+
+  return files
+}
+
 export function buildToolResultsMessage(toolResults: ToolExecutionResult[]): string | ContentPart[] {
   const images = extractScreenshots(toolResults)
+  const files = extractFiles(toolResults)
 
   const text = formatToolResults(
     toolResults.map(tr => ({ name: tr.toolCall.name, result: tr.result }))
   )
 
-  if (images.length === 0) {
+  if (images.length === 0 && files.length === 0) {
     return text
   }
 
@@ -58,9 +88,19 @@ export function buildToolResultsMessage(toolResults: ToolExecutionResult[]): str
   for (const dataUrl of images) {
     parts.push({ type: 'image', image: dataUrl, mediaType: 'image/png' })
   }
+  parts.push(...files)
   return parts
 }
 
+function buildNativeToolResults(toolResults: ToolExecutionResult[]): NativeToolResult[] {
+  return toolResults.map(tr => ({
+    toolCallId: tr.toolCall.id,
+    toolName: tr.toolCall.name,
+    output: formatToolOutput(tr.toolCall.name, tr.result),
+    isError: tr.hasError,
+  }))
+}
+
 function renderTabsList(tabs: TabInfo[], currentTabId: number): string {
   const lines = [`<tabs_list current="${currentTabId}">`]
   for (const tab of tabs) {
@@ -89,14 +129,178 @@ export function injectTabContext(messages: Message[], tabs: TabInfo[], currentTa
   }
 }
 
+/** Append a runner note (and optional screenshots) to the last user message */
+export function injectNote(messages: Message[], text: string, images: string[] = []): void {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'user') continue
+    const msg = messages[i]
+    const imageParts: ContentPart[] = images.map(dataUrl => ({ type: 'image', image: dataUrl, mediaType: 'image/png' }))
+
+    if (typeof msg.content === 'string' && imageParts.length === 0) {
+      msg.content = msg.content + '\n\n' + text
+    } else {
+      const existing: ContentPart[] = typeof msg.content === 'string'
+        ? [{ type: 'text', text: msg.content }]
+        : msg.content
+      msg.content = [...existing, ...imageParts, { type: 'text', text: '\n\n' + text }]
+    }
+    return
+  }
+}
+
 export function appendStepMessages(
   session: AgentSession,
   stepResult: StepResult,
   toolResults: ToolExecutionResult[]
 ): void {
+  if (session.toolCallMode === 'native') {
+    const toolCalls: NativeToolCall[] = stepResult.toolCalls.map(tc => ({
+      id: tc.id,
+      name: tc.name,
+      input: tc.input,
+    }))
+    appendAssistantMessage(session, stepResult.text, toolCalls)
+
+    // Screenshots and attached files can't go inside tool results for every
+    // provider, so they ride along as parts of the user message that carries the results
+    const images = extractScreenshots(toolResults)
+    const files = extractFiles(toolResults)
+    const nativeResults = buildNativeToolResults(toolResults)
+    const content: ContentPart[] = [
+      ...images.map((dataUrl): ContentPart => ({ type: 'image', image: dataUrl, mediaType: 'image/png' })),
+      ...files,
+    ]
+    appendUserMessage(session, content, nativeResults)
+    return
+  }
+
   const assistantContent = buildAssistantResponse(stepResult)
   appendAssistantMessage(session, assistantContent)
 
   const toolResultsContent = buildToolResultsMessage(toolResults)
   appendUserMessage(session, toolResultsContent)
 }
+
+/** A persisted assistant turn: its final text plus the tool calls it made along the way */
+export interface ReplayableTurn {
+  content: string
+  toolCalls?: ToolCallInfo[]
+  assistantSegments?: AssistantMessageSegment[]
+}
+
+interface ReplayStep {
+  text: string
+  toolCalls: ToolCallInfo[]
+}
+
+/**
+ * Split a turn into steps. Text that follows a tool call starts a new step,
+ * mirroring how the model narrates and then calls tools. Turns saved before
+ * segments existed are replayed as a single step ahead of the final text.
+ */
+function splitTurnIntoSteps(turn: ReplayableTurn): ReplayStep[] {
+  const toolCalls = turn.toolCalls ?? []
+  const segments = turn.assistantSegments ?? []
+
+  if (segments.length === 0) {
+    return toolCalls.length > 0
+      ? [{ text: '', toolCalls }, { text: turn.content, toolCalls: [] }]
+      : [{ text: turn.content, toolCalls: [] }]
+  }
+
+  const byId = new Map(toolCalls.map(tc => [tc.id, tc]))
+  const steps: ReplayStep[] = [{ text: '', toolCalls: [] }]
+
+  for (const segment of segments) {
+    let current = steps[steps.length - 1]
+    if (segment.type === 'text') {
+      if (current.toolCalls.length > 0) {
+        current = { text: '', toolCalls: [] }
+        steps.push(current)
+      }
+      current.text += segment.text
+    } else {
+      const toolCall = byId.get(segment.toolCallId)
+      if (toolCall) current.toolCalls.push(toolCall)
+    }
+  }
+
+  return steps
+}
+
+/** Serialize a stored tool call's outcome for replay, without screenshots or full page dumps */
+function formatReplayedOutput(toolCall: ToolCallInfo): string {
+  if (toolCall.status === 'error' || toolCall.error) {
+    return JSON.stringify({ error: toolCall.error ?? 'Tool execution failed' })
+  }
+  if (toolCall.status !== 'completed') {
+    return JSON.stringify({ error: 'Tool call did not complete' })
+  }
+
+  let result = toolCall.result
+  if (result && typeof result === 'object' && typeof (result as Record<string, unknown>).dataUrl === 'string') {
+    const copy: Record<string, unknown> = { ...(result as Record<string, unknown>) }
+    delete copy.dataUrl
+    result = { ...copy, screenshot: '[omitted from history]' }
+  }
+  if (result && typeof result === 'object' && (result as Record<string, unknown>).file) {
+    result = { ...(result as Record<string, unknown>), file: '[omitted from history]' }
+  }
+
+  const output = typeof result === 'string' ? result : JSON.stringify(result ?? { success: true })
+  return condenseOutput(output)
+}
+
+/**
+ * Rebuild the messages for a stored assistant turn so follow-up turns see
+ * which tools were called and what they returned, not just the final answer.
+ * Tool outputs are condensed; `idPrefix` keeps native tool-call IDs unique
+ * across turns, since stored IDs restart with each page load.
+ */
+export function buildReplayedTurnMessages(
+  turn: ReplayableTurn,
+  toolCallMode: ToolCallMode,
+  idPrefix: string
+): Message[] {
+  const messages: Message[] = []
+
+  for (const step of splitTurnIntoSteps(turn)) {
+    if (step.toolCalls.length === 0) {
+      if (step.text.trim()) {
+        messages.push({ role: 'assistant', content: step.text })
+      }
+      continue
+    }
+
+    if (toolCallMode === 'native') {
+      const ids = step.toolCalls.map((_tc, i) => `${idPrefix}_${messages.length}_${i}`)
+      messages.push({
+        role: 'assistant',
+        content: step.text,
+        toolCalls: step.toolCalls.map((tc, i) => ({ id: ids[i], name: tc.name, input: tc.input })),
+      })
+      messages.push({
+        role: 'user',
+        content: [],
+        toolResults: step.toolCalls.map((tc, i) => ({
+          toolCallId: ids[i],
+          toolName: tc.name,
+          output: formatReplayedOutput(tc),
+          isError: tc.status !== 'completed' || !!tc.error,
+        })),
+      })
+      continue
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: buildAssistantResponse({ text: step.text, toolCalls: step.toolCalls }),
+    })
+    const inner = step.toolCalls
+      .map(tc => `<result>\n<name>${tc.name}</name>\n<output>${formatReplayedOutput(tc)}</output>\n</result>`)
+      .join('\n')
+    messages.push({ role: 'user', content: `<tool_results>\n${inner}\n</tool_results>` })
+  }
+
+  return messages
+}
@@ -0,0 +1,48 @@
+import { jsonSchema, tool, type JSONSchema7, type ToolSet } from 'ai'
+import type { ToolDefinition, ToolParameter } from '@tools/definitions'
+
+function parameterToJsonSchema(param: ToolParameter): JSONSchema7 {
+  const schema: JSONSchema7 = { type: param.type }
+  if (param.description) schema.description = param.description
+  if (param.enum) schema.enum = param.enum
+  if (param.default !== undefined) schema.default = param.default as JSONSchema7['default']
+  if (param.type === 'array') {
+    schema.items = param.items ? { type: param.items.type } : {}
+  }
+  return schema
+}
+
+/** Convert a tool definition's parameter list into a JSON Schema object for native tool calling. */
+export function toolDefinitionToJsonSchema(definition: ToolDefinition): JSONSchema7 {
+  const properties: Record<string, JSONSchema7> = {}
+  const required: string[] = []
+
+  for (const param of definition.parameters) {
+    properties[param.name] = parameterToJsonSchema(param)
+    if (param.required) required.push(param.name)
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  }
+}
+
+/**
+ * Build an AI SDK tool set from tool definitions. Tools have no `execute`,
+ * so the SDK stops after emitting tool calls and our ToolQueue runs them.
+ */
+export function buildNativeToolSet(definitions: ToolDefinition[]): ToolSet {
+  const tools: ToolSet = {}
+
+  for (const definition of definitions) {
+    if (!definition.enabled) continue
+    tools[definition.name] = tool({
+      description: definition.description,
+      inputSchema: jsonSchema<Record<string, unknown>>(toolDefinitionToJsonSchema(definition)),
+    })
+  }
+
+  return tools
+}
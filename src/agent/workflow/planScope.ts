@@ -0,0 +1,142 @@
+import type { AgentSession, PlanScope, ToolCallInfo } from './types'
+
+const log = (...args: unknown[]) => console.log('[Workflow:PlanScope]', ...args)
+
+type ToolRunner = (name: string, params: Record<string, unknown>) => Promise<unknown>
+
+/** Computer actions that click: they can follow a link off the page or press a submit button */
+export const CLICK_ACTIONS = new Set(['left_click', 'double_click', 'triple_click'])
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '')
+}
+
+/** Hostname of an http(s) URL or bare domain, without a leading "www." */
+export function getHost(url: string): string | null {
+  try {
+    const parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+    return normalizeHost(parsed.hostname)
+  } catch {
+    return null
+  }
+}
+
+/** A host matches a planned domain exactly or as a subdomain of it */
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`)
+}
+
+function getAllowedDomains(scope: PlanScope): string[] {
+  return [
+    ...(scope.startHost ? [scope.startHost] : []),
+    ...scope.domains,
+    ...scope.approvedDomains,
+  ]
+}
+
+async function getTargetUrl(toolCall: ToolCallInfo, session: AgentSession, runTool: ToolRunner): Promise<string | null> {
+  const { input } = toolCall
+
+  switch (toolCall.name) {
+    case 'navigate':
+    case 'create_tab':
+    case 'fetch_url': {
+      const url = input.url
+      if (typeof url !== 'string' || url === 'back' || url === 'forward') return null
+      return url
+    }
+    case 'computer': {
+      if (!CLICK_ACTIONS.has(input.action as string)) return null
+      if (!input.ref && !input.coordinate) return null
+      const result = await runTool('describe_element', {
+        tabId: input.tabId ?? session.config.tabId,
+        ref: input.ref,
+        coordinate: input.coordinate,
+      }) as { href?: string } | null
+      return result?.href ?? null
+    }
+  }
+
+  return null
+}
+
+/**
+ * In strict-plan mode, return the host a tool call would take the agent to
+ * when that host is outside the plan. Returns null for calls that stay in
+ * scope or don't leave the page.
+ */
+export async function getOffPlanHost(
+  toolCall: ToolCallInfo,
+  session: AgentSession,
+  runTool: ToolRunner
+): Promise<string | null> {
+  const scope = session.planScope
+  if (!scope) return null
+
+  const url = await getTargetUrl(toolCall, session, runTool)
+  const host = url ? getHost(url) : null
+  if (!host) return null
+
+  // The page the user started on is always in scope
+  if (scope.startHost === undefined) {
+    try {
+      const tab = await chrome.tabs.get(session.config.tabId)
+      scope.startHost = tab.url ? getHost(tab.url) : null
+    } catch (err) {
+      log('Could not read starting tab URL:', err)
+      scope.startHost = null
+    }
+  }
+
+  const allowed = getAllowedDomains(scope)
+  return allowed.some(domain => hostMatches(host, domain)) ? null : host
+}
+
+function getPlanDomains(toolCall: ToolCallInfo): string[] {
+  const raw = toolCall.input.domains
+  const domains = Array.isArray(raw) ? raw : typeof raw === 'string' ? [raw] : []
+  return domains
+    .map(d => (typeof d === 'string' ? getHost(d.replace(/^\*\./, '')) : null))
+    .filter((d): d is string => !!d)
+}
+
+/**
+ * Domains an update_plan call would add to a scope an earlier plan already
+ * set. The first plan sets the scope; after that the model can't widen it
+ * on its own (a page could have told it to), so these need the user's approval.
+ */
+export function getAddedPlanDomains(toolCall: ToolCallInfo, session: AgentSession): string[] {
+  const scope = session.planScope
+  if (!scope || toolCall.name !== 'update_plan' || scope.domains.length === 0) return []
+
+  const allowed = getAllowedDomains(scope)
+  return getPlanDomains(toolCall).filter(host => !allowed.some(domain => hostMatches(host, domain)))
+}
+
+/**
+ * Record the domains declared by a successful update_plan call. Later plans
+ * only add to the scope; anything new in them was approved on the way in.
+ */
+export function recordPlanDomains(session: AgentSession, toolCall: ToolCallInfo): void {
+  const scope = session.planScope
+  if (!scope || toolCall.name !== 'update_plan') return
+
+  const added = getPlanDomains(toolCall).filter(domain => !scope.domains.includes(domain))
+  scope.domains.push(...added)
+  log('Plan domains:', scope.domains)
+}
+
+/** Let the agent visit a host for the rest of the run (user approved it mid-run) */
+export function allowPlanDomain(session: AgentSession, host: string): void {
+  session.planScope?.approvedDomains.push(host)
+}
+
+export function formatPlanViolation(host: string, scope: PlanScope): string {
+  const allowed = getAllowedDomains(scope)
+  const planned = allowed.length > 0 ? allowed.join(', ') : 'none yet'
+  const hint = scope.domains.length === 0
+    ? 'Call update_plan with the domains this task needs before leaving the starting site.'
+    : 'Stay within the planned domains, or explain to the user why this domain is needed.'
+  return `Blocked by strict plan mode: ${host} is not in the plan (allowed: ${planned}). ${hint}`
+}
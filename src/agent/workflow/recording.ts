@@ -0,0 +1,333 @@
+import type {
+  AgentOptions,
+  AgentResult,
+  AgentSession,
+  FinishReason,
+  Message,
+  StepResult,
+  TokenUsage,
+  ToolExecutionResult,
+  ToolExecutor,
+} from './types'
+import type { TabInfo } from '@shared/types'
+import type { ToolCallMode } from '@shared/settings'
+import { ScriptedLanguageModel, type ScriptedFixture } from '../scripted'
+
+const log = (...args: unknown[]) => console.log('[Workflow:Recording]', ...args)
+
+export const REPLAY_BUNDLE_VERSION = 1
+
+/** Screenshots are stored once in the bundle and referenced by index */
+const SCREENSHOT_REF_PREFIX = 'screenshot:'
+
+export interface RecordedLLMCall {
+  step: number
+  /**
+   * Messages added since the previous call, as sent (tab context included).
+   * The first call starts from the newest initial message; after compaction
+   * this is the whole history.
+   */
+  input: Message[]
+  /** Set when compaction rewrote the history, so `input` is the full conversation */
+  compacted?: boolean
+  modelName?: string
+  provider?: string
+  /** Raw model output, `<invoke>` blocks included */
+  output: string
+  reasoning?: string
+  toolCalls: { id: string; name: string; input: Record<string, unknown> }[]
+  usage?: TokenUsage
+  durationMs: number
+}
+
+export interface RecordedToolCall {
+  step: number
+  id: string
+  name: string
+  input: Record<string, unknown>
+  result: unknown
+  error?: string
+  startedAt?: number
+  completedAt?: number
+}
+
+/** Everything needed to inspect or re-run an agent run, as one JSON file */
+export interface ReplayBundle {
+  version: number
+  createdAt: number
+  sessionId: string
+  modelName?: string
+  provider?: string
+  toolCallMode: ToolCallMode
+  systemPrompt: string
+  /** URL of the agent's tab when the run started */
+  startUrl?: string
+  /** The conversation the run started from */
+  initialMessages: Message[]
+  llmCalls: RecordedLLMCall[]
+  toolCalls: RecordedToolCall[]
+  /** Screenshot data URLs, referenced elsewhere in the bundle as `screenshot:<index>` */
+  screenshots: string[]
+  result?: {
+    finishReason: FinishReason
+    text: string
+    steps: number
+    error?: string
+    usage?: TokenUsage
+  }
+}
+
+/** How a replay differed from its recording */
+export interface ReplayComparison {
+  matches: boolean
+  finishReason: { recorded?: FinishReason; replayed: FinishReason }
+  steps: { recorded?: number; replayed: number }
+  /** One line per difference, in run order */
+  differences: string[]
+}
+
+export interface ReplayOptions {
+  bundle: ReplayBundle
+  /** 'stub' feeds back the recorded tool results; 'execute' runs the tools again on the live page */
+  tools: 'stub' | 'execute'
+}
+
+/** Deep-copy a JSON value with a function applied to every string */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') return fn(value)
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]))
+  }
+  return value
+}
+
+/** Put the screenshots referenced from a bundle value back in place */
+function restoreScreenshots<T>(value: T, screenshots: string[]): T {
+  return mapStrings(value, text => {
+    if (!text.startsWith(SCREENSHOT_REF_PREFIX)) return text
+    return screenshots[Number(text.slice(SCREENSHOT_REF_PREFIX.length))] ?? text
+  }) as T
+}
+
+/**
+ * Collects a replay bundle while a run executes. The runner reports each LLM
+ * call and each batch of tool results; `finish` seals the bundle.
+ */
+export class RunRecorder {
+  private readonly bundle: ReplayBundle
+  private readonly screenshotIndex = new Map<string, number>()
+  private sentMessages = 0
+
+  constructor(session: AgentSession, initialMessages: Message[]) {
+    this.bundle = {
+      version: REPLAY_BUNDLE_VERSION,
+      createdAt: Date.now(),
+      sessionId: session.id,
+      modelName: session.modelName,
+      provider: session.provider,
+      toolCallMode: session.toolCallMode,
+      systemPrompt: session.systemPrompt,
+      initialMessages: this.capture(initialMessages),
+      llmCalls: [],
+      toolCalls: [],
+      screenshots: [],
+    }
+    // The first step amends the newest message with tab context, so record it again
+    this.sentMessages = Math.max(initialMessages.length - 1, 0)
+  }
+
+  /** Remember where the run started, from the first tab context it sees */
+  recordTabs(tabs: TabInfo[], currentTabId: number): void {
+    if (this.bundle.startUrl) return
+    this.bundle.startUrl = tabs.find(t => t.id === currentTabId)?.url
+  }
+
+  recordLLMCall(step: number, session: AgentSession, stepResult: StepResult, durationMs: number): void {
+    // Compaction shrinks the history; record all of it when that happened
+    const compacted = session.messages.length < this.sentMessages
+    const input = compacted ? session.messages : session.messages.slice(this.sentMessages)
+    this.sentMessages = session.messages.length
+
+    this.bundle.llmCalls.push({
+      step,
+      input: this.capture(input),
+      ...(compacted && { compacted }),
+      modelName: session.modelName,
+      provider: session.provider,
+      output: stepResult.rawOutput ?? stepResult.text,
+      reasoning: stepResult.reasoning,
+      toolCalls: stepResult.toolCalls.map(tc => ({ id: tc.id, name: tc.name, input: tc.input })),
+      usage: stepResult.usage,
+      durationMs,
+    })
+  }
+
+  /** Call before the results are appended to the history, which strips their screenshots */
+  recordToolResults(step: number, toolResults: ToolExecutionResult[]): void {
+    for (const { toolCall, result } of toolResults) {
+      this.bundle.toolCalls.push({
+        step,
+        id: toolCall.id,
+        name: toolCall.name,
+        input: toolCall.input,
+        result: this.capture(result),
+        error: toolCall.error,
+        startedAt: toolCall.startedAt,
+        completedAt: toolCall.completedAt,
+      })
+    }
+  }
+
+  finish(result: Pick<AgentResult, 'finishReason' | 'text' | 'steps' | 'error' | 'usage'>): ReplayBundle {
+    this.bundle.result = {
+      finishReason: result.finishReason,
+      text: result.text,
+      steps: result.steps,
+      error: result.error,
+      usage: result.usage,
+    }
+    log('Recorded run:', {
+      llmCalls: this.bundle.llmCalls.length,
+      toolCalls: this.bundle.toolCalls.length,
+      screenshots: this.bundle.screenshots.length,
+    })
+    return this.bundle
+  }
+
+  /** Deep-copy a value, moving image data URLs into the bundle's screenshot list */
+  private capture<T>(value: T): T {
+    return mapStrings(value, text => {
+      if (!text.startsWith('data:image/')) return text
+      let index = this.screenshotIndex.get(text)
+      if (index === undefined) {
+        index = this.bundle.screenshots.push(text) - 1
+        this.screenshotIndex.set(text, index)
+      }
+      return `${SCREENSHOT_REF_PREFIX}${index}`
+    }) as T
+  }
+}
+
+/** Parse a downloaded bundle. Throws with a readable message on bad input. */
+export function parseReplayBundle(json: string): ReplayBundle {
+  let bundle: Partial<ReplayBundle>
+  try {
+    bundle = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Recording is not valid JSON: ${(error as Error).message}`)
+  }
+  if (!bundle || typeof bundle !== 'object' || !Array.isArray(bundle.llmCalls) || !Array.isArray(bundle.toolCalls)) {
+    throw new Error('Not a recorded run: expected llmCalls and toolCalls')
+  }
+  if (bundle.version !== REPLAY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported recording version: ${bundle.version}`)
+  }
+  return bundle as ReplayBundle
+}
+
+/** Model that answers each call with the recorded output, in order */
+export function createReplayModel(bundle: ReplayBundle): ScriptedLanguageModel {
+  return new ScriptedLanguageModel(bundleToFixture(bundle), 'replay')
+}
+
+/** Turn the recorded model output into a fixture for the scripted model */
+export function bundleToFixture(bundle: ReplayBundle): ScriptedFixture {
+  const isNative = bundle.toolCallMode === 'native'
+  return {
+    name: `replay ${bundle.sessionId}`,
+    turns: bundle.llmCalls.map(call => ({
+      text: call.output,
+      reasoning: call.reasoning,
+      ...(isNative && call.toolCalls.length > 0 && { toolCalls: call.toolCalls }),
+      usage: call.usage && { inputTokens: call.usage.inputTokens, outputTokens: call.usage.outputTokens },
+    })),
+  }
+}
+
+/**
+ * A tool executor that answers with the recorded results instead of touching
+ * the page. Calls are matched by tool name in recorded order; anything the
+ * recording doesn't have comes back as an error, which marks a divergence.
+ */
+export function createReplayToolExecutor(bundle: ReplayBundle): ToolExecutor {
+  const pending = [...bundle.toolCalls]
+  return async (name) => {
+    const index = pending.findIndex(call => call.name === name)
+    if (index === -1) {
+      log(`Replay diverged: no recorded result left for ${name}`)
+      return { error: `Replay: the recording has no result for ${name}` }
+    }
+    const [recorded] = pending.splice(index, 1)
+    return restoreScreenshots(recorded.result, bundle.screenshots)
+  }
+}
+
+/**
+ * Options for re-running a recorded run: the model answers from the
+ * recording, and tools are stubbed or re-executed. Stubbed tools touch no
+ * page, so approval rules and strict-plan checks are off; re-executed ones
+ * keep the caller's.
+ */
+export function applyReplay(options: Omit<AgentOptions, 'model'>, replay: ReplayOptions): AgentOptions {
+  const { bundle, tools } = replay
+  if (bundle.version !== REPLAY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported recording version: ${bundle.version}`)
+  }
+
+  return {
+    ...options,
+    model: createReplayModel(bundle),
+    // Not a real model name, so replays aren't priced
+    modelName: `replay:${bundle.modelName ?? 'unknown'}`,
+    provider: bundle.provider,
+    fallbackModels: [],
+    maxRetries: 0,
+    toolCallMode: bundle.toolCallMode,
+    messages: restoreScreenshots(bundle.initialMessages, bundle.screenshots),
+    maxSteps: Math.max(options.maxSteps ?? 0, bundle.llmCalls.length),
+    ...(tools === 'stub' && {
+      toolExecutor: createReplayToolExecutor(bundle),
+      postToolDelay: 0,
+      approvalRules: [],
+      strictPlan: false,
+    }),
+  }
+}
+
+/** Compare a replayed run with its recording, call by call */
+export function compareReplay(bundle: ReplayBundle, result: AgentResult): ReplayComparison {
+  const differences: string[] = []
+  const recorded = bundle.toolCalls
+  const replayed = result.toolCalls
+
+  for (let i = 0; i < Math.max(recorded.length, replayed.length); i++) {
+    const before = recorded[i]
+    const after = replayed[i]
+    if (!after) {
+      differences.push(`Tool call ${i + 1} (${before.name}) was never made`)
+    } else if (!before) {
+      differences.push(`Tool call ${i + 1} (${after.name}) is new`)
+    } else if (before.name !== after.name) {
+      differences.push(`Tool call ${i + 1} was ${before.name}, now ${after.name}`)
+    } else if (!before.error && after.error) {
+      differences.push(`Tool call ${i + 1} (${after.name}) now fails: ${after.error}`)
+    } else if (before.error && !after.error) {
+      differences.push(`Tool call ${i + 1} (${after.name}) now succeeds`)
+    }
+  }
+
+  if (bundle.result && bundle.result.finishReason !== result.finishReason) {
+    differences.push(`Run ended with ${result.finishReason}, recorded ${bundle.result.finishReason}`)
+  }
+  if (bundle.result && bundle.result.text.trim() !== result.text.trim()) {
+    differences.push('Final answer text differs')
+  }
+
+  return {
+    matches: differences.length === 0,
+    finishReason: { recorded: bundle.result?.finishReason, replayed: result.finishReason },
+    steps: { recorded: bundle.result?.steps, replayed: result.steps },
+    differences,
+  }
+}
@@ -0,0 +1,78 @@
+import { parseRetryAfter } from '../providers'
+
+export const DEFAULT_MAX_RETRIES = 3
+const INITIAL_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 30_000
+/** A retry-after longer than this isn't worth waiting for; move on to the next model */
+const MAX_RETRY_AFTER_MS = 120_000
+
+/** Rate limit, overload (Anthropic 529) and gateway errors */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529])
+const TRANSIENT_MESSAGE = /rate.?limit|too many requests|overloaded|failed to fetch|fetch failed|network ?error|load failed|econnreset|etimedout|socket hang up/i
+
+function getStatus(err: unknown): number | undefined {
+  if (typeof err !== 'object' || err === null) return undefined
+  const { status, statusCode } = err as { status?: unknown; statusCode?: unknown }
+  if (typeof status === 'number') return status
+  if (typeof statusCode === 'number') return statusCode
+  const match = err instanceof Error ? /^HTTP (\d{3})\b/.exec(err.message) : null
+  return match ? Number(match[1]) : undefined
+}
+
+function getErrorText(err: unknown): string {
+  if (err instanceof Error) return err.message
+  // Mid-stream provider errors arrive as plain objects, e.g. { type: 'overloaded_error' }
+  try {
+    return JSON.stringify(err) ?? String(err)
+  } catch {
+    return String(err)
+  }
+}
+
+/** Whether an LLM error is worth retrying: rate limits, overload and network failures */
+export function isTransientError(err: unknown): boolean {
+  const status = getStatus(err)
+  if (status !== undefined) return TRANSIENT_STATUSES.has(status)
+  return TRANSIENT_MESSAGE.test(getErrorText(err))
+}
+
+function getRetryAfterMs(err: unknown): number | undefined {
+  if (typeof err !== 'object' || err === null) return undefined
+  const { retryAfterMs, responseHeaders } = err as {
+    retryAfterMs?: unknown
+    responseHeaders?: Record<string, string | undefined>
+  }
+  if (typeof retryAfterMs === 'number') return retryAfterMs
+  return parseRetryAfter(responseHeaders)
+}
+
+/**
+ * Delay before retry number `attempt` (0-based). Honours the provider's
+ * retry-after hint, otherwise backs off exponentially with jitter.
+ * Returns null when the provider asks for a wait too long to sit through.
+ */
+export function getRetryDelay(err: unknown, attempt: number): number | null {
+  const retryAfter = getRetryAfterMs(err)
+  if (retryAfter !== undefined) {
+    return retryAfter > MAX_RETRY_AFTER_MS ? null : retryAfter
+  }
+  const backoff = Math.min(INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt), MAX_RETRY_DELAY_MS)
+  return Math.round(backoff * (0.8 + Math.random() * 0.4))
+}
+
+export function describeError(err: unknown): string {
+  return getErrorText(err).slice(0, 200)
+}
+
+/** Resolves after `ms`, or early when the run is aborted */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
@@ -1,15 +1,24 @@
 import type {
   AgentOptions,
+  ReplayAgentOptions,
   AgentResult,
   AgentSession,
   AgentCallbacks,
   ToolCallInfo,
   FinishReason,
+  TokenUsage,
 } from './types'
-import { createSession, isAborted } from './session'
+import { addTokenUsage } from './types'
+import { createSession, isAborted, appendAssistantMessage, appendUserMessage } from './session'
 import { streamLLMResponse, hasToolCalls } from './stream'
 import { ToolQueue, getToolCallsFromResults } from './tools'
 import { appendStepMessages, injectTabContext } from './messages'
+import { compactSession } from './compaction'
+import { LoopDetector, applyLoopRecovery } from './loopDetection'
+import { checkStructuredOutput, formatOutputRepairRequest, MAX_OUTPUT_REPAIRS } from './structuredOutput'
+import { RunRecorder, applyReplay } from './recording'
+import { updateSiteInstructions } from './siteInstructions'
+import { estimateCost } from '../config'
 import { clearOutputs } from '@shared/outputStore'
 import { getTracer, type SpanContext, type TracingConfig } from '../tracing'
 
@@ -26,6 +35,7 @@ function createResult(
   text: string,
   toolCalls: ToolCallInfo[],
   steps: number,
+  usage?: TokenUsage,
   error?: string
 ): AgentResult {
   return {
@@ -34,6 +44,7 @@ function createResult(
     steps,
     finishReason,
     error,
+    usage,
   }
 }
 
@@ -42,14 +53,15 @@ interface ExecuteStepOptions {
   stepNumber: number
   callbacks?: AgentCallbacks
   tracingContext?: TracingContext
-  modelName?: string
-  provider?: string
   reasoningEnabled?: boolean
   geminiThinkingLevel?: 'minimal' | 'low' | 'medium' | 'high'
+  recorder?: RunRecorder
 }
 
-async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinue: boolean; text: string; toolCalls: ToolCallInfo[]; reasoning?: string }> {
-  const { session, stepNumber, callbacks, tracingContext, modelName, provider, reasoningEnabled, geminiThinkingLevel } = options
+async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinue: boolean; text: string; toolCalls: ToolCallInfo[]; reasoning?: string; usage?: TokenUsage }> {
+  const { session, stepNumber, callbacks, tracingContext, reasoningEnabled, geminiThinkingLevel, recorder } = options
+  // Read per step: the session may have switched to a fallback model
+  const { modelName, provider } = session
 
   log(`=== Step ${stepNumber} ===`)
   callbacks?.onStepStart?.(stepNumber)
@@ -61,6 +73,7 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
   const toolQueue = new ToolQueue(session, {
     onToolStart: callbacks?.onToolStart,
     onToolDone: callbacks?.onToolDone,
+    onApprovalRequest: callbacks?.onApprovalRequest,
     tracing: tracingContext ? {
       config: tracingContext.config,
       parentContext: stepSpan.context,
@@ -72,12 +85,23 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
     try {
       const tabs = await session.config.getTabContext()
       injectTabContext(session.messages, tabs, session.config.tabId)
+      updateSiteInstructions(session, tabs, session.config.tabId)
+      recorder?.recordTabs(tabs, session.config.tabId)
     } catch (err) {
       log('Failed to get tab context:', err)
     }
   }
 
+  // Compact older steps if the prompt is approaching the model's context window
+  if (session.config.contextLength) {
+    const compaction = compactSession(session, session.config.contextLength)
+    if (compaction) {
+      log('Compacted history:', compaction)
+    }
+  }
+
   // Stream LLM response — tool calls are pushed into the queue as they're parsed
+  const streamStartedAt = Date.now()
   const stepResult = await streamLLMResponse(session, {
     onTextDelta: callbacks?.onTextDelta,
     onToolCallParsed: (toolCall) => {
@@ -85,6 +109,7 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
       toolQueue.push(toolCall)
     },
     onReasoningDelta: callbacks?.onReasoningDelta,
+    onModelSwitch: callbacks?.onModelSwitch,
     tracing: tracingContext ? {
       config: tracingContext.config,
       parentContext: stepSpan.context,
@@ -97,10 +122,17 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
     geminiThinkingLevel,
   })
 
+  // Priced with the model that actually answered (it may be a fallback)
+  if (stepResult.usage) {
+    stepResult.usage.cost = estimateCost(modelName, stepResult.usage)
+  }
+  recorder?.recordLLMCall(stepNumber, session, stepResult, Date.now() - streamStartedAt)
+
   log('Step streamed:', {
     textLength: stepResult.text.length,
     toolCalls: stepResult.toolCalls.length,
     hasReasoning: !!stepResult.reasoning,
+    usage: stepResult.usage,
   })
 
   if (stepResult.text.trim()) {
@@ -120,12 +152,14 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
       text: stepResult.text,
       toolCalls: [],
       reasoning: stepResult.reasoning,
+      usage: stepResult.usage,
     }
   }
 
   // Wait for any remaining tool calls still in the queue to finish
   const toolResults = await toolQueue.drain()
 
+  recorder?.recordToolResults(stepNumber, toolResults)
   appendStepMessages(session, stepResult, toolResults)
 
   const completedToolCalls = getToolCallsFromResults(toolResults)
@@ -137,18 +171,26 @@ async function executeStep(options: ExecuteStepOptions): Promise<{ shouldContinu
     text: stepResult.text,
     toolCalls: completedToolCalls,
     reasoning: stepResult.reasoning,
+    usage: toolResults.reduce((total, r) => addTokenUsage(total, r.usage), stepResult.usage),
   }
 }
 
-export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
-  const { callbacks, tracing, modelName, provider, reasoningEnabled, geminiThinkingLevel } = options
-  const session = createSession(options)
+export async function runWorkflow(options: AgentOptions | ReplayAgentOptions): Promise<AgentResult> {
+  const { callbacks, tracing, reasoningEnabled, geminiThinkingLevel } = options
+  const session = createSession('replay' in options ? applyReplay(options, options.replay) : options)
   clearOutputs()
 
+  const recorder = options.record ? new RunRecorder(session, session.messages) : undefined
+  const finish = (result: AgentResult): AgentResult => {
+    if (recorder) callbacks?.onRecording?.(recorder.finish(result))
+    return result
+  }
+
   log('Starting workflow', {
     sessionId: session.id,
     maxSteps: session.config.maxSteps,
     tools: session.toolDefinitions.map(t => t.name),
+    toolCallMode: session.toolCallMode,
     tracingEnabled: tracing?.enabled ?? false,
   })
 
@@ -170,6 +212,9 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
   let step = 0
   let finalText = ''
   const allToolCalls: ToolCallInfo[] = []
+  let totalUsage: TokenUsage | undefined
+  const loopDetector = new LoopDetector()
+  let outputRepairs = 0
 
   try {
     while (step < session.config.maxSteps) {
@@ -178,7 +223,7 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
         callbacks?.onStreamDone?.()
         tracingContext?.agentSpan.end({ output: finalText, error: 'Aborted by user' })
         await tracer.flush()
-        return createResult('aborted', finalText, allToolCalls, step)
+        return finish(createResult('aborted', finalText, allToolCalls, step, totalUsage))
       }
 
       const result = await executeStep({
@@ -186,20 +231,63 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
         stepNumber: step + 1,
         callbacks,
         tracingContext,
-        modelName,
-        provider,
         reasoningEnabled,
         geminiThinkingLevel,
+        recorder,
       })
 
       finalText += result.text
       allToolCalls.push(...result.toolCalls)
+      totalUsage = addTokenUsage(totalUsage, result.usage)
+
+      if (!result.shouldContinue && session.outputSchema) {
+        const output = checkStructuredOutput(result.text, session.outputSchema)
+        if (!output.ok && outputRepairs < MAX_OUTPUT_REPAIRS) {
+          // Hand the answer back with what's wrong and let the model try again
+          outputRepairs++
+          log(`Final answer doesn't match the output schema, asking for a repair (${outputRepairs}/${MAX_OUTPUT_REPAIRS})`)
+          appendAssistantMessage(session, result.text)
+          appendUserMessage(session, formatOutputRepairRequest(output.problem))
+          step++
+          continue
+        }
+
+        // Only the last answer counts; earlier text and rejected answers would break the JSON
+        callbacks?.onStreamDone?.()
+        tracingContext?.agentSpan.end({ output: result.text, ...(!output.ok && { error: output.problem }) })
+        await tracer.flush()
+        if (!output.ok) {
+          return finish(createResult('error', result.text, allToolCalls, step + 1, totalUsage, `Final answer did not match the output schema. ${output.problem}`))
+        }
+        return finish({ ...createResult('stop', result.text, allToolCalls, step + 1, totalUsage), data: output.data })
+      }
 
       if (!result.shouldContinue) {
         callbacks?.onStreamDone?.()
         tracingContext?.agentSpan.end({ output: finalText })
         await tracer.flush()
-        return createResult('stop', finalText, allToolCalls, step + 1)
+        return finish(createResult('stop', finalText, allToolCalls, step + 1, totalUsage))
+      }
+
+      // Going in circles: nudge the agent, then show it the page, then give up
+      const loop = loopDetector.record(result.toolCalls)
+      if (loop) {
+        const recovery = loopDetector.escalate(!!session.renderOptions.vision)
+        if (recovery === 'stop') {
+          log('Stuck, stopping:', loop.detail)
+          callbacks?.onStreamDone?.()
+          tracingContext?.agentSpan.end({ output: finalText, error: `Stuck: ${loop.detail}` })
+          await tracer.flush()
+          return finish(createResult(
+            'stuck',
+            finalText + `\n\n(Stopped: the agent kept repeating itself — ${loop.detail})`,
+            allToolCalls,
+            step + 1,
+            totalUsage,
+            loop.detail
+          ))
+        }
+        await applyLoopRecovery(session, loop, recovery)
       }
 
       // Check for queued user messages to inject before the next LLM call
@@ -211,6 +299,7 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
           }
           // Reset step counter — new user input gets a fresh budget
           step = 0
+          loopDetector.reset()
           continue
         }
       }
@@ -222,12 +311,13 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
     callbacks?.onStreamDone?.()
     tracingContext?.agentSpan.end({ output: finalText })
     await tracer.flush()
-    return createResult(
+    return finish(createResult(
       'max-steps',
       finalText + '\n\n(Reached maximum steps limit)',
       allToolCalls,
-      step
-    )
+      step,
+      totalUsage
+    ))
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error'
     const isAbortError = errorMessage === 'AbortError' || errorMessage.includes('aborted')
@@ -237,10 +327,11 @@ export async function runWorkflow(options: AgentOptions): Promise<AgentResult> {
       callbacks?.onStreamDone?.()
       tracingContext?.agentSpan.end({ output: finalText, error: 'Aborted' })
       await tracer.flush()
-      return createResult('aborted', finalText, allToolCalls, step)
+      return finish(createResult('aborted', finalText, allToolCalls, step, totalUsage))
     }
 
     logError('Workflow error:', err)
+    finish(createResult('error', finalText, allToolCalls, step, totalUsage, errorMessage))
     callbacks?.onStreamDone?.()
     tracingContext?.agentSpan.end({ error: errorMessage })
     await tracer.flush()
@@ -1,6 +1,7 @@
-import type { AgentSession, AgentOptions, Message, MessageContent } from './types'
-import { renderSystemPrompt } from '@prompts/render'
+import type { AgentSession, AgentOptions, Message, MessageContent, NativeToolCall, NativeToolResult } from './types'
+import { renderSystemPrompt, type RenderOptions } from '@prompts/render'
 import { getEnabledToolDefinitions } from '@tools/definitions'
+import { getSkillToolRules, getMissingSkillTools, formatMissingSkillTools, filterToolsForSkill } from './skillScope'
 
 let sessionCounter = 0
 
@@ -24,29 +25,67 @@ export function createSession(options: AgentOptions): AgentSession {
     vision,
     getTabContext,
     userPreference,
+    toolCallMode = 'xml',
+    contextLength,
+    approvalRules,
+    strictPlan,
+    modelName,
+    provider,
+    maxRetries,
+    fallbackModels,
+    outputSchema,
+    memories,
+    siteProfiles,
   } = options
 
   const hasSkills = (availableSkills && availableSkills.length > 0) || activeSkill
-  const toolDefinitions = getEnabledToolDefinitions().filter(
+  let toolDefinitions = getEnabledToolDefinitions().filter(
     t => hasSkills || t.category !== 'skills'
   )
+  let sessionMcpTools = mcpTools ?? []
+
+  // An active skill can only run with its required tools, and only sees its whitelist
+  const skillRules = activeSkill ? getSkillToolRules(activeSkill.skill) : undefined
+  if (activeSkill && skillRules) {
+    const missing = getMissingSkillTools(skillRules, [...toolDefinitions, ...sessionMcpTools])
+    if (missing.length > 0) {
+      throw new Error(formatMissingSkillTools(activeSkill.skill.name, missing))
+    }
+    toolDefinitions = filterToolsForSkill(toolDefinitions, skillRules.allowedTools)
+    sessionMcpTools = filterToolsForSkill(sessionMcpTools, skillRules.allowedTools)
+  }
 
   // Render system prompt with optional skills and MCP tools
-  const systemPrompt = renderSystemPrompt({
+  const renderOptions: RenderOptions = {
     tools: toolDefinitions,
     vision,
     userPreference,
     activeSkill,
     availableSkills: hasSkills ? availableSkills : undefined,
-    mcpTools,
-  })
+    mcpTools: sessionMcpTools,
+    toolCallMode,
+    strictPlan,
+    outputSchema,
+    memories,
+  }
+  const systemPrompt = renderSystemPrompt(renderOptions)
 
   return {
     id: generateSessionId(),
     model,
+    modelName,
+    provider,
+    fallbackModels: [...(fallbackModels ?? [])],
     messages: [...messages],
     systemPrompt,
+    renderOptions,
     toolDefinitions,
+    mcpTools: sessionMcpTools,
+    ...(skillRules?.allowedTools && { allowedTools: skillRules.allowedTools }),
+    toolCallMode,
+    ...(strictPlan && { planScope: { domains: [], approvedDomains: [] } }),
+    outputSchema,
+    siteProfiles: siteProfiles ?? [],
     config: {
       maxSteps,
       tabId,
@@ -54,22 +93,27 @@ export function createSession(options: AgentOptions): AgentSession {
       toolExecutor,
       postToolDelay,
       getTabContext,
+      contextLength,
+      approvalRules,
+      maxRetries,
     },
     abortSignal,
   }
 }
 
-export function appendAssistantMessage(session: AgentSession, content: string): void {
+export function appendAssistantMessage(session: AgentSession, content: string, toolCalls?: NativeToolCall[]): void {
   session.messages.push({
     role: 'assistant',
     content,
+    ...(toolCalls?.length && { toolCalls }),
   })
 }
 
-export function appendUserMessage(session: AgentSession, content: MessageContent): void {
+export function appendUserMessage(session: AgentSession, content: MessageContent, toolResults?: NativeToolResult[]): void {
   session.messages.push({
     role: 'user',
     content,
+    ...(toolResults?.length && { toolResults }),
   })
 }
 
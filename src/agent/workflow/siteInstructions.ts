@@ -0,0 +1,28 @@
+import type { AgentSession } from './types'
+import type { TabInfo } from '@shared/types'
+import { renderSystemPrompt } from '@prompts/render'
+import { findMatchingSiteProfiles } from '@sites/matcher'
+
+const log = (...args: unknown[]) => console.log('[Workflow:Sites]', ...args)
+
+/**
+ * Point the system prompt's `<site-instructions>` at the profiles matching the
+ * current tab. The prompt is only re-rendered when the set of matches
+ * changes, so staying on one site doesn't churn the prompt cache.
+ */
+export function updateSiteInstructions(session: AgentSession, tabs: TabInfo[], currentTabId: number): void {
+  if (session.siteProfiles.length === 0) return
+
+  const url = tabs.find(t => t.id === currentTabId)?.url
+  // Profiles that only pick an input backend have nothing to tell the model
+  const matches = url ? findMatchingSiteProfiles(session.siteProfiles, url).filter(p => p.instructions) : []
+
+  const current = session.renderOptions.siteInstructions ?? []
+  const unchanged = current.length === matches.length && current.every((p, i) => p.id === matches[i].id)
+  if (unchanged) return
+
+  session.renderOptions = { ...session.renderOptions, siteInstructions: matches }
+  session.systemPrompt = renderSystemPrompt(session.renderOptions)
+
+  log('Site instructions:', matches.length > 0 ? matches.map(p => p.name) : 'none', url)
+}
@@ -0,0 +1,63 @@
+import type { ToolDefinition } from '@tools/definitions'
+import type { Skill } from '@skills/types'
+import { renderSystemPrompt } from '@prompts/render'
+import type { AgentSession } from './types'
+
+const log = (...args: unknown[]) => console.log('[Workflow:SkillScope]', ...args)
+
+/** Tool restrictions declared in a skill's frontmatter */
+export interface SkillToolRules {
+  allowedTools?: string[]
+  requiredTools?: string[]
+}
+
+export function getSkillToolRules(skill: Skill): SkillToolRules {
+  const allowedTools = skill.allowedTools ?? skill.frontmatter.allowedTools
+  return {
+    allowedTools: allowedTools?.length ? allowedTools : undefined,
+    requiredTools: skill.frontmatter.requires?.tools,
+  }
+}
+
+/** Required tools that are disabled or not installed */
+export function getMissingSkillTools(rules: SkillToolRules, available: ToolDefinition[]): string[] {
+  const names = new Set(available.filter(t => t.enabled).map(t => t.name))
+  return (rules.requiredTools ?? []).filter(name => !names.has(name))
+}
+
+export function formatMissingSkillTools(skillName: string, missing: string[]): string {
+  return `Skill "${skillName}" requires tools that are disabled or unavailable: ${missing.join(', ')}. Enable them in settings or use a different skill.`
+}
+
+/** Keep only the tools in the skill's whitelist. No whitelist means no restriction. */
+export function filterToolsForSkill(tools: ToolDefinition[], allowedTools?: string[]): ToolDefinition[] {
+  if (!allowedTools) return tools
+  const allowed = new Set(allowedTools)
+  return tools.filter(t => allowed.has(t.name))
+}
+
+/**
+ * Narrow a running session to a skill's whitelist, e.g. after the agent calls
+ * invoke_skill. Restrictions only ever narrow: a skill can't re-enable tools
+ * an outer skill removed. The system prompt is re-rendered to match.
+ */
+export function restrictSessionToSkill(session: AgentSession, allowedTools?: string[]): void {
+  if (!allowedTools?.length) return
+
+  const allowed = session.allowedTools
+    ? allowedTools.filter(name => session.allowedTools!.includes(name))
+    : allowedTools
+
+  session.allowedTools = allowed
+  session.toolDefinitions = filterToolsForSkill(session.toolDefinitions, allowed)
+  session.mcpTools = filterToolsForSkill(session.mcpTools, allowed)
+  session.renderOptions = { ...session.renderOptions, tools: session.toolDefinitions, mcpTools: session.mcpTools }
+  session.systemPrompt = renderSystemPrompt(session.renderOptions)
+
+  log('Restricted session tools:', allowed)
+}
+
+/** Whether the active skill (if any) lets the agent call this tool */
+export function isToolAllowed(session: AgentSession, toolName: string): boolean {
+  return !session.allowedTools || session.allowedTools.includes(toolName)
+}
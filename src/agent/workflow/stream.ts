@@ -1,7 +1,9 @@
-import { streamText, type CoreMessage, type UserContent } from 'ai'
+import { streamText, type ModelMessage, type UserContent, type LanguageModelUsage } from 'ai'
 import { XMLStreamParser, STREAM_EVENT_TYPES, type ToolCallEvent } from '../streamParser'
-import type { AgentSession, StepResult, ToolCallInfo, Message, ContentPart } from './types'
+import type { AgentSession, StepResult, ToolCallInfo, Message, ContentPart, ModelSwitch, TokenUsage } from './types'
 import { getMessageText } from './types'
+import { buildNativeToolSet } from './nativeTools'
+import { DEFAULT_MAX_RETRIES, isTransientError, getRetryDelay, describeError, sleep } from './retry'
 import { getTracer, type SpanContext, type TracingConfig, type ChatMessage } from '../tracing'
 import {
   generateRequestId,
@@ -10,57 +12,111 @@ import {
   formatCapturedParams,
 } from '../debugMiddleware'
 
-// Convert our Message format to Vercel AI SDK CoreMessage format
-function convertToSDKMessages(messages: Message[]): CoreMessage[] {
-  return messages.map(msg => {
-    if (typeof msg.content === 'string') {
-      return {
-        role: msg.role,
-        content: msg.content,
-      } as CoreMessage
+/** How much of an unparsable tool input is quoted back to the model */
+const MAX_RAW_INPUT_CHARS = 500
+
+function convertMessage(msg: Message): ModelMessage {
+  // Native tool calls are sent as structured parts alongside the narration text
+  if (msg.role === 'assistant' && msg.toolCalls?.length) {
+    const text = getMessageText(msg)
+    return {
+      role: 'assistant',
+      content: [
+        ...(text ? [{ type: 'text' as const, text }] : []),
+        ...msg.toolCalls.map(tc => ({
+          type: 'tool-call' as const,
+          toolCallId: tc.id,
+          toolName: tc.name,
+          input: tc.input,
+        })),
+      ],
     }
+  }
 
-    // Multimodal content
-    if (msg.role === 'user') {
-      const userContent: UserContent = msg.content.map(part => {
-        switch (part.type) {
-          case 'text':
-            return { type: 'text' as const, text: part.text }
-          case 'image':
-            return {
-              type: 'image' as const,
-              image: part.image,
-              ...(part.mediaType && { mimeType: part.mediaType }),
-            }
-          case 'file':
-            return {
-              type: 'file' as const,
-              data: part.data,
-              mimeType: part.mediaType,
-              ...(part.filename && { name: part.filename }),
-            }
-        }
-      })
-      return {
-        role: 'user' as const,
-        content: userContent,
+  if (typeof msg.content === 'string') {
+    return {
+      role: msg.role,
+      content: msg.content,
+    } as ModelMessage
+  }
+
+  // Multimodal content
+  if (msg.role === 'user') {
+    const userContent: UserContent = msg.content.map(part => {
+      switch (part.type) {
+        case 'text':
+          return { type: 'text' as const, text: part.text }
+        case 'image':
+          return {
+            type: 'image' as const,
+            image: part.image,
+            ...(part.mediaType && { mimeType: part.mediaType }),
+          }
+        case 'file':
+          return {
+            type: 'file' as const,
+            data: part.data,
+            mimeType: part.mediaType,
+            ...(part.filename && { name: part.filename }),
+          }
       }
+    })
+    return {
+      role: 'user' as const,
+      content: userContent,
     }
+  }
 
-    // Assistant messages - extract just text for now
-    // (assistant multimodal responses would need separate handling)
-    const textContent = msg.content
-      .filter((part): part is ContentPart & { type: 'text' } => part.type === 'text')
-      .map(part => part.text)
-      .join('')
+  // Assistant messages - extract just text for now
+  // (assistant multimodal responses would need separate handling)
+  const textContent = msg.content
+    .filter((part): part is ContentPart & { type: 'text' } => part.type === 'text')
+    .map(part => part.text)
+    .join('')
 
-    return {
-      role: 'assistant' as const,
-      content: textContent,
+  return {
+    role: 'assistant' as const,
+    content: textContent,
+  }
+}
+
+// Convert our Message format to Vercel AI SDK ModelMessage format
+function convertToSDKMessages(messages: Message[]): ModelMessage[] {
+  return messages.flatMap((msg): ModelMessage[] => {
+    if (msg.role !== 'user' || !msg.toolResults?.length) {
+      return [convertMessage(msg)]
+    }
+
+    // Native tool results go in a tool message, followed by any user content
+    // (screenshots, tab context) that accompanied them
+    const toolMessage: ModelMessage = {
+      role: 'tool',
+      content: msg.toolResults.map(r => ({
+        type: 'tool-result' as const,
+        toolCallId: r.toolCallId,
+        toolName: r.toolName,
+        output: r.isError
+          ? { type: 'error-text' as const, value: r.output }
+          : { type: 'text' as const, value: r.output },
+      })),
     }
+
+    const hasContent = typeof msg.content === 'string'
+      ? msg.content.trim().length > 0
+      : msg.content.length > 0
+
+    return hasContent ? [toolMessage, convertMessage(msg)] : [toolMessage]
   })
 }
 
+/** Text used for tracing a message, including native tool results */
+function getTracedText(msg: Message): string {
+  const text = getMessageText(msg)
+  if (!msg.toolResults?.length) return text
+  const results = msg.toolResults.map(r => `[${r.toolName}] ${r.output}`)
+  return [...results, text].filter(Boolean).join('\n')
+}
+
 export interface StreamTracingOptions {
   config: TracingConfig
   parentContext: SpanContext
@@ -72,6 +128,7 @@ export interface StreamCallbacks {
   onTextDelta?: (text: string) => void
   onToolCallParsed?: (toolCall: ToolCallInfo) => void
   onReasoningDelta?: (text: string) => void
+  onModelSwitch?: (info: ModelSwitch) => void
   tracing?: StreamTracingOptions
   reasoningEnabled?: boolean
   provider?: string
@@ -175,20 +232,13 @@ function getProviderOptions(provider?: string, reasoningEnabled?: boolean, model
   return undefined
 }
 
-const MAX_RETRIES = 3
-const INITIAL_RETRY_DELAY_MS = 2000
-
-function isRateLimitError(err: unknown): boolean {
-  if (err instanceof Error) {
-    const msg = err.message.toLowerCase()
-    if (msg.includes('429') || msg.includes('rate limit') || msg.includes('too many requests')) return true
+export function toTokenUsage(usage: LanguageModelUsage): TokenUsage {
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    reasoningTokens: usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens ?? 0,
+    cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens ?? 0,
   }
-  if (typeof err === 'object' && err !== null && 'status' in err && (err as { status: number }).status === 429) return true
-  return false
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
 }
 
 export async function streamLLMResponse(
@@ -200,6 +250,7 @@ export async function streamLLMResponse(
   let text = ''
   let reasoning = ''
   let rawOutput = ''  // Original LLM output for Phoenix (no filtering)
+  let usage: TokenUsage | undefined
 
   // Generate a unique request ID for debug middleware correlation
   const requestId = generateRequestId()
@@ -218,7 +269,7 @@ export async function streamLLMResponse(
   }
   tracedInputMessages.push(...session.messages.map(m => ({
     role: m.role as ChatMessage['role'],
-    content: getMessageText(m),
+    content: getTracedText(m),
   })))
 
   const llmSpan = callbacks?.tracing ? tracer.startLLMSpan({
@@ -231,41 +282,58 @@ export async function streamLLMResponse(
   // Convert messages to SDK format (handles multimodal content)
   const sdkMessages = convertToSDKMessages(session.messages)
 
-  parser.on(STREAM_EVENT_TYPES.TEXT_DELTA, (event) => {
-    const delta = event.data as string
+  // Native mode passes tool schemas to the provider; XML mode parses <invoke> blocks from text
+  const isNative = session.toolCallMode === 'native'
+  const tools = isNative
+    ? buildNativeToolSet([...session.toolDefinitions, ...session.mcpTools])
+    : undefined
+
+  const emitTextDelta = (delta: string) => {
     text += delta
     callbacks?.onTextDelta?.(delta)
-  })
+  }
 
-  parser.on(STREAM_EVENT_TYPES.TOOL_CALL_DONE, (event) => {
-    const tc = event.data as ToolCallEvent
+  const emitToolCall = (tc: ToolCallEvent) => {
     const toolCallInfo: ToolCallInfo = {
       id: tc.id,
       name: tc.name,
       input: tc.params,
+      ...(tc.inputError && { inputError: tc.inputError }),
       status: 'pending',
     }
     toolCalls.push(toolCallInfo)
     callbacks?.onToolCallParsed?.(toolCallInfo)
+  }
+
+  parser.on(STREAM_EVENT_TYPES.TEXT_DELTA, (event) => {
+    emitTextDelta(event.data as string)
+  })
+
+  parser.on(STREAM_EVENT_TYPES.TOOL_CALL_DONE, (event) => {
+    emitToolCall(event.data as ToolCallEvent)
   })
 
   try {
     // Build provider options, including debug middleware request ID
-    const baseProviderOptions = getProviderOptions(callbacks?.provider, callbacks?.reasoningEnabled, callbacks?.modelId, callbacks?.geminiThinkingLevel) || {}
-    const providerOptions = {
-      ...baseProviderOptions,
+    const buildProviderOptions = (provider?: string, modelId?: string) => ({
+      ...getProviderOptions(provider, callbacks?.reasoningEnabled, modelId, callbacks?.geminiThinkingLevel),
       // Pass request ID to debug middleware for correlation
       debugMiddleware: { requestId },
-    }
+    })
+    let providerOptions = buildProviderOptions(callbacks?.provider, callbacks?.modelId)
+    const maxRetries = session.config.maxRetries ?? DEFAULT_MAX_RETRIES
 
-    // Retry loop for rate limit (429) errors
+    // Retry transient errors with backoff, then move through the fallback models
     for (let attempt = 0; ; attempt++) {
       try {
         const result = await streamText({
           model: session.model,
           system: session.systemPrompt,
           messages: sdkMessages,
+          ...(tools && { tools }),
           abortSignal: session.abortSignal,
+          // Retries are handled here so they can honour retry-after and fall back
+          maxRetries: 0,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           providerOptions: providerOptions as any,
         })
@@ -274,22 +342,63 @@ export async function streamLLMResponse(
         for await (const part of result.fullStream) {
           if (part.type === 'text-delta') {
             rawOutput += part.text
-            parser.processChunk(part.text)
+            if (isNative) {
+              emitTextDelta(part.text)
+            } else {
+              parser.processChunk(part.text)
+            }
+          } else if (part.type === 'tool-call' && isNative) {
+            // Unparsable inputs arrive as raw strings; the call is refused so the model can resend it
+            if (part.input && typeof part.input === 'object' && !Array.isArray(part.input)) {
+              emitToolCall({ id: part.toolCallId, name: part.toolName, params: part.input as Record<string, unknown> })
+            } else {
+              const raw = typeof part.input === 'string' ? part.input : JSON.stringify(part.input) ?? ''
+              emitToolCall({
+                id: part.toolCallId,
+                name: part.toolName,
+                params: {},
+                inputError: `The arguments for ${part.toolName} were not a valid JSON object, so the tool did not run. Call it again with valid JSON. Received: ${raw.length > MAX_RAW_INPUT_CHARS ? `${raw.slice(0, MAX_RAW_INPUT_CHARS)}…` : raw}`,
+              })
+            }
           } else if (part.type === 'reasoning-delta') {
             reasoning += part.text
             callbacks?.onReasoningDelta?.(part.text)
+          } else if (part.type === 'finish') {
+            usage = toTokenUsage(part.totalUsage)
+          } else if (part.type === 'error') {
+            throw part.error
           }
         }
 
         break // Success, exit retry loop
       } catch (err) {
-        if (attempt < MAX_RETRIES && isRateLimitError(err) && !session.abortSignal?.aborted) {
-          const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt)
-          console.log(`[Stream] Rate limited (429), retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`)
-          await sleep(delay)
+        // Output already shown to the user can't be taken back, so only clean failures are retried
+        const hasOutput = rawOutput.length > 0 || reasoning.length > 0 || toolCalls.length > 0
+        if (session.abortSignal?.aborted || hasOutput || !isTransientError(err)) {
+          throw err
+        }
+
+        const delay = attempt < maxRetries ? getRetryDelay(err, attempt) : null
+        if (delay !== null) {
+          console.log(`[Stream] Transient error, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries}):`, describeError(err))
+          await sleep(delay, session.abortSignal)
           continue
         }
-        throw err
+
+        const fallback = session.fallbackModels.shift()
+        if (!fallback) throw err
+
+        console.log(`[Stream] ${session.provider}/${session.modelName} keeps failing, falling back to ${fallback.provider}/${fallback.modelName}`)
+        session.model = fallback.model
+        session.modelName = fallback.modelName
+        session.provider = fallback.provider
+        providerOptions = buildProviderOptions(fallback.provider, fallback.modelName)
+        callbacks?.onModelSwitch?.({
+          modelName: fallback.modelName,
+          provider: fallback.provider,
+          reason: describeError(err),
+        })
+        attempt = -1
       }
     }
 
@@ -353,7 +462,7 @@ export async function streamLLMResponse(
     // Clean up captured params
     clearCapturedParams(requestId)
 
-    return { text, toolCalls, reasoning: reasoning || undefined }
+    return { text, toolCalls, reasoning: reasoning || undefined, usage, rawOutput }
   } catch (err) {
     // Clean up captured params on error
     clearCapturedParams(requestId)
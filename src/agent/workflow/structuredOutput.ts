@@ -0,0 +1,68 @@
+import { validateJsonSchema, formatSchemaIssues, type JsonSchema } from '@shared/jsonSchema'
+
+/** Times the model is asked to fix a final answer that doesn't fit the schema */
+export const MAX_OUTPUT_REPAIRS = 2
+
+export type StructuredOutputCheck =
+  | { ok: true; data: unknown }
+  | { ok: false; problem: string }
+
+function tryParse(text: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(text) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Pull a JSON value out of the model's final answer. Models wrap JSON in
+ * code fences or a sentence of prose often enough that a bare JSON.parse
+ * isn't good enough.
+ */
+export function extractJson(text: string): { value: unknown } | null {
+  const trimmed = text.trim()
+  const direct = tryParse(trimmed)
+  if (direct) return direct
+
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)\n?```/i.exec(trimmed)
+  if (fenced) {
+    const parsed = tryParse(fenced[1].trim())
+    if (parsed) return parsed
+  }
+
+  // Widest {...} or [...] span in the text
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = trimmed.indexOf(open)
+    const end = trimmed.lastIndexOf(close)
+    if (start !== -1 && end > start) {
+      const parsed = tryParse(trimmed.slice(start, end + 1))
+      if (parsed) return parsed
+    }
+  }
+
+  return null
+}
+
+/** Parse the final answer and check it against the run's output schema */
+export function checkStructuredOutput(text: string, schema: JsonSchema): StructuredOutputCheck {
+  const extracted = extractJson(text)
+  if (!extracted) {
+    return { ok: false, problem: 'The answer is not valid JSON.' }
+  }
+
+  const issues = validateJsonSchema(extracted.value, schema)
+  if (issues.length > 0) {
+    return { ok: false, problem: `The JSON does not match the schema:\n${formatSchemaIssues(issues)}` }
+  }
+
+  return { ok: true, data: extracted.value }
+}
+
+export function formatOutputRepairRequest(problem: string): string {
+  return `<system-note>
+Your final answer must be JSON matching the output schema from the system prompt. ${problem}
+
+Reply again with only the corrected JSON. Do not call any more tools unless you are missing data the schema requires.
+</system-note>`
+}
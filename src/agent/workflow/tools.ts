@@ -1,5 +1,9 @@
-import type { ToolCallInfo, ToolExecutionResult, AgentSession, ToolExecutor } from './types'
+import type { ToolCallInfo, ToolExecutionResult, AgentSession, ToolExecutor, ApprovalDecision } from './types'
 import { getTracer, type SpanContext, type TracingConfig } from '../tracing'
+import { getApprovalReason } from './approval'
+import { getOffPlanHost, getAddedPlanDomains, recordPlanDomains, allowPlanDomain, formatPlanViolation } from './planScope'
+import { completeExtraction } from './extraction'
+import { isToolAllowed, getMissingSkillTools, formatMissingSkillTools, restrictSessionToSkill } from './skillScope'
 
 const log = (...args: unknown[]) => console.log('[Workflow:Tools]', ...args)
 const logError = (...args: unknown[]) => console.error('[Workflow:Tools]', ...args)
@@ -11,6 +15,7 @@ const TOOLS_WITH_DELAY = new Set([
   'navigate',
   'computer',
   'form_input',
+  'upload_file',
   'run_javascript',
   'create_tab',
 ])
@@ -77,10 +82,33 @@ async function sendToolMessage(
   }
 }
 
+/** Run a tool outside the model's tool calls, e.g. a screenshot the runner wants to show it */
+export function runSessionTool(session: AgentSession, name: string, params: Record<string, unknown>): Promise<unknown> {
+  const { groupId, tabId, toolExecutor } = session.config
+  return sendToolMessage(name, params, groupId, tabId, toolExecutor)
+}
+
 function isErrorResult(result: unknown): boolean {
   return result !== null && typeof result === 'object' && 'error' in result
 }
 
+/** Build the result for a tool call that was refused without running */
+function refuseToolCall(toolCall: ToolCallInfo, error: string, extra?: Partial<ToolCallInfo>): ToolExecutionResult {
+  const result = { error, rejected: true }
+  return {
+    toolCall: {
+      ...toolCall,
+      ...extra,
+      status: 'error',
+      result,
+      error,
+      completedAt: Date.now(),
+    },
+    result,
+    hasError: true,
+  }
+}
+
 export async function executeTool(
   toolCall: ToolCallInfo,
   groupId?: number,
@@ -119,6 +147,7 @@ export interface ToolTracingOptions {
 export interface ToolQueueCallbacks {
   onToolStart?: (toolCall: ToolCallInfo) => void
   onToolDone?: (toolCall: ToolCallInfo) => void
+  onApprovalRequest?: (toolCall: ToolCallInfo) => Promise<ApprovalDecision>
   tracing?: ToolTracingOptions
 }
 
@@ -185,13 +214,39 @@ export class ToolQueue {
 
     this.callbacks?.onToolStart?.(toolCall)
 
+    let admission: { toolCall: ToolCallInfo; rejection?: ToolExecutionResult }
+    if (toolCall.inputError) {
+      admission = { toolCall, rejection: refuseToolCall(toolCall, toolCall.inputError) }
+    } else if (!isToolAllowed(this.session, toolCall.name)) {
+      admission = {
+        toolCall,
+        rejection: refuseToolCall(
+          toolCall,
+          `Tool "${toolCall.name}" is not available to the active skill. Allowed tools: ${this.session.allowedTools!.join(', ')}.`
+        ),
+      }
+    } else {
+      admission = await this._applyApproval(toolCall)
+    }
+    const { toolCall: approvedCall, rejection } = admission
+
     const toolSpan = this.callbacks?.tracing ? tracer.startToolSpan({
-      name: toolCall.name,
-      input: toolCall.input,
+      name: approvedCall.name,
+      input: approvedCall.input,
       parentContext: this.callbacks.tracing.parentContext,
     }) : null
 
-    const result = await executeTool(toolCall, this.session.config.groupId, this.session.config.tabId, this.session.config.toolExecutor)
+    let result = rejection
+      ?? await executeTool(approvedCall, this.session.config.groupId, this.session.config.tabId, this.session.config.toolExecutor)
+
+    if (!result.hasError) {
+      recordPlanDomains(this.session, result.toolCall)
+      if (result.toolCall.name === 'invoke_skill') {
+        result = this._activateInvokedSkill(result)
+      } else if (result.toolCall.name === 'extract') {
+        result = await completeExtraction(this.session, result)
+      }
+    }
     this.results.push(result)
 
     toolSpan?.end({
@@ -202,7 +257,7 @@ export class ToolQueue {
     this.callbacks?.onToolDone?.(result.toolCall)
 
     // Delay after tools that cause page changes to let the DOM settle
-    if (!result.hasError && needsPostDelay(toolCall.name, toolCall.input)) {
+    if (!result.hasError && needsPostDelay(approvedCall.name, approvedCall.input)) {
       const delay = this.session.config.postToolDelay ?? DEFAULT_POST_TOOL_DELAY
       if (delay > 0) {
         await sleep(delay)
@@ -221,6 +276,76 @@ export class ToolQueue {
     // Process next (without awaiting to avoid deep stack, use microtask)
     void this._processNext()
   }
+
+  /**
+   * Run strict-plan checks and the approval policy for a tool call. Returns
+   * the call to execute (with the user's edits applied), or a rejection
+   * result to send back to the model in place of running the tool.
+   */
+  private async _applyApproval(toolCall: ToolCallInfo): Promise<{ toolCall: ToolCallInfo; rejection?: ToolExecutionResult }> {
+    const runTool = (name: string, params: Record<string, unknown>) =>
+      runSessionTool(this.session, name, params)
+
+    const offPlanHost = await getOffPlanHost(toolCall, this.session, runTool)
+    const addedDomains = getAddedPlanDomains(toolCall, this.session)
+    const reason = offPlanHost
+      ? `Leaves the plan: ${offPlanHost} is not one of the planned domains`
+      : addedDomains.length > 0
+        ? `Widens the plan to ${addedDomains.join(', ')}`
+        : await getApprovalReason(toolCall, this.session, runTool)
+    if (!reason) {
+      return { toolCall }
+    }
+
+    log(`Awaiting approval: ${toolCall.name}`, reason)
+    const decision: ApprovalDecision = this.callbacks?.onApprovalRequest
+      ? await this.callbacks.onApprovalRequest({ ...toolCall, status: 'awaiting_approval', approval: { reason } })
+      : { action: 'reject' }
+    log(`Approval decision: ${toolCall.name}`, decision.action)
+
+    if (decision.action === 'approve') {
+      if (offPlanHost) allowPlanDomain(this.session, offPlanHost)
+      return { toolCall: { ...toolCall, approval: { reason, decision: 'approved' } } }
+    }
+
+    if (decision.action === 'edit') {
+      return { toolCall: { ...toolCall, input: decision.input, approval: { reason, decision: 'edited' } } }
+    }
+
+    const userReason = decision.reason ? ` The user said: ${decision.reason}` : ''
+    const error = offPlanHost
+      ? formatPlanViolation(offPlanHost, this.session.planScope!) + userReason
+      : this.callbacks?.onApprovalRequest
+        ? `The user rejected this action (${reason}).${userReason} Do not retry it. Ask the user how to proceed or take a different approach.`
+        : `This action needs user approval (${reason}), but no one is available to approve it. Take a different approach or stop and explain.`
+    return {
+      toolCall,
+      rejection: refuseToolCall(toolCall, error, { approval: { reason, decision: 'rejected' } }),
+    }
+  }
+
+  /**
+   * Apply the tool restrictions of a skill the agent just invoked. A skill
+   * whose required tools are unavailable is refused instead of activated.
+   */
+  private _activateInvokedSkill(result: ToolExecutionResult): ToolExecutionResult {
+    const { skill_name, allowed_tools, required_tools } = result.result as {
+      skill_name?: string
+      allowed_tools?: string[]
+      required_tools?: string[]
+    }
+
+    const missing = getMissingSkillTools(
+      { requiredTools: required_tools },
+      [...this.session.toolDefinitions, ...this.session.mcpTools]
+    )
+    if (missing.length > 0) {
+      return refuseToolCall(result.toolCall, formatMissingSkillTools(skill_name ?? 'unknown', missing))
+    }
+
+    restrictSessionToSkill(this.session, allowed_tools)
+    return result
+  }
 }
 
 export function getToolCallsFromResults(results: ToolExecutionResult[]): ToolCallInfo[] {
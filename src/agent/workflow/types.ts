@@ -3,6 +3,11 @@ import type { ToolDefinition } from '@tools/definitions'
 import type { TracingConfig } from '../tracing'
 import type { Skill } from '@skills/types'
 import type { TabInfo } from '@shared/types'
+import type { ToolCallMode, ApprovalRule } from '@shared/settings'
+import type { RenderOptions } from '@prompts/render'
+import type { JsonSchema } from '@shared/jsonSchema'
+import type { ReplayBundle, ReplayOptions } from './recording'
+import type { SiteProfile } from '@sites/types'
 
 // Content part types for multimodal messages
 export interface TextPart {
@@ -27,9 +32,28 @@ export type ContentPart = TextPart | ImagePart | FilePart
 
 export type MessageContent = string | ContentPart[]
 
+/** A tool call made through provider-native tool calling */
+export interface NativeToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+/** Result of a native tool call, sent back as a tool message */
+export interface NativeToolResult {
+  toolCallId: string
+  toolName: string
+  output: string
+  isError: boolean
+}
+
 export interface Message {
   role: 'user' | 'assistant'
   content: MessageContent
+  /** Native mode only: tool calls issued by this assistant message */
+  toolCalls?: NativeToolCall[]
+  /** Native mode only: tool results carried by this user message (sent before its content) */
+  toolResults?: NativeToolResult[]
 }
 
 // Helper to extract text content from a message
@@ -61,11 +85,53 @@ export function getAttachments(message: Message): (ImagePart | FilePart)[] {
   )
 }
 
+/** Token counts for one or more LLM calls */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  /** Already counted in outputTokens; reported separately for display */
+  reasoningTokens: number
+  /** Part of inputTokens served from the provider's prompt cache */
+  cachedInputTokens: number
+  /** Estimated USD from the price table. Undefined when no step had a known price. */
+  cost?: number
+}
+
+/** Sum two usage records. Cost is summed over the records that have one. */
+export function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b && { ...b }
+  if (!b) return { ...a }
+  const cost = a.cost === undefined && b.cost === undefined
+    ? undefined
+    : (a.cost ?? 0) + (b.cost ?? 0)
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    ...(cost !== undefined && { cost }),
+  }
+}
+
+/** Approval state of a tool call gated by the approval policy */
+export interface ToolApproval {
+  reason: string
+  decision?: 'approved' | 'edited' | 'rejected'
+}
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; input: Record<string, unknown> }
+  | { action: 'reject'; reason?: string }
+
 export interface ToolCallInfo {
   id: string
   name: string
   input: Record<string, unknown>
-  status: 'pending' | 'running' | 'completed' | 'error'
+  /** Why the model's arguments could not be used; the call is refused with this instead of running */
+  inputError?: string
+  status: 'pending' | 'awaiting_approval' | 'running' | 'completed' | 'error'
+  approval?: ToolApproval
   result?: unknown
   error?: string
   startedAt?: number
@@ -98,14 +164,62 @@ export interface AgentConfig {
   postToolDelay?: number
   /** Returns the current list of tabs in the agent's group. Called before each LLM call to inject fresh tab context. */
   getTabContext?: () => Promise<TabInfo[]>
+  /** Model context window in tokens. When set, old steps are compacted as the prompt nears it. */
+  contextLength?: number
+  /** Actions that wait for user approval before running */
+  approvalRules?: ApprovalRule[]
+  /** Retries per model for transient LLM errors (429, 529, network) before falling back */
+  maxRetries?: number
+}
+
+/** A backup model tried, in order, when the current one keeps failing with transient errors */
+export interface ModelFallback {
+  model: LanguageModel
+  modelName: string
+  provider: string
+}
+
+/** The run moved to a fallback model */
+export interface ModelSwitch {
+  modelName: string
+  provider: string
+  /** Error that exhausted the previous model's retries */
+  reason: string
+}
+
+/** Domains the agent may visit in strict-plan mode */
+export interface PlanScope {
+  /** Declared by update_plan */
+  domains: string[]
+  /** Approved by the user mid-run */
+  approvedDomains: string[]
+  /** Host of the starting tab, always allowed. Resolved on first check. */
+  startHost?: string | null
 }
 
 export interface AgentSession {
   id: string
   model: LanguageModel
+  /** Name and provider of `model`, updated when the run switches to a fallback */
+  modelName?: string
+  provider?: string
+  /** Remaining fallbacks; the head is taken when `model` keeps failing */
+  fallbackModels: ModelFallback[]
   messages: Message[]
   systemPrompt: string
+  /** Options the system prompt was rendered with, kept so it can be re-rendered mid-run */
+  renderOptions: RenderOptions
   toolDefinitions: ToolDefinition[]
+  mcpTools: ToolDefinition[]
+  /** Whitelist from the active skill. Calls to other tools are refused. */
+  allowedTools?: string[]
+  toolCallMode: ToolCallMode
+  /** Set in strict-plan mode: navigation outside these domains is blocked */
+  planScope?: PlanScope
+  /** The final answer must be JSON matching this schema */
+  outputSchema?: JsonSchema
+  /** Candidates for `<site-instructions>`; the ones matching the current tab are rendered */
+  siteProfiles: SiteProfile[]
   config: AgentConfig
   abortSignal?: AbortSignal
 }
@@ -114,15 +228,21 @@ export interface StepResult {
   text: string
   toolCalls: ToolCallInfo[]
   reasoning?: string
+  /** Reported by the provider when the stream finishes */
+  usage?: TokenUsage
+  /** The model's output as streamed, `<invoke>` blocks included */
+  rawOutput?: string
 }
 
 export interface ToolExecutionResult {
   toolCall: ToolCallInfo
   result: unknown
   hasError: boolean
+  /** Model calls the workflow made to finish the result (the `extract` pass), counted with the step */
+  usage?: TokenUsage
 }
 
-export type FinishReason = 'stop' | 'aborted' | 'max-steps' | 'error'
+export type FinishReason = 'stop' | 'aborted' | 'max-steps' | 'stuck' | 'error'
 
 export interface AgentResult {
   text: string
@@ -130,6 +250,10 @@ export interface AgentResult {
   steps: number
   finishReason: FinishReason
   error?: string
+  /** Total across all steps of the run */
+  usage?: TokenUsage
+  /** The parsed final answer, set when the run had an `outputSchema` and the answer matched it */
+  data?: unknown
 }
 
 export interface AgentCallbacks {
@@ -141,10 +265,16 @@ export interface AgentCallbacks {
   onTextDone?: (fullText: string) => void
   onToolStart?: (toolCall: ToolCallInfo) => void
   onToolDone?: (toolCall: ToolCallInfo) => void
+  /** Called when a tool call needs user approval. Resolve with the user's decision; without this callback gated calls are rejected. */
+  onApprovalRequest?: (toolCall: ToolCallInfo) => Promise<ApprovalDecision>
   onReasoningDelta?: (text: string) => void
   onReasoningDone?: (fullText: string) => void
+  /** Called when the primary model keeps failing and the run continues on a fallback */
+  onModelSwitch?: (info: ModelSwitch) => void
   /** Called between steps (after tool results appended, before next LLM call). Return user messages to inject into the session. */
   onBeforeNextStep?: () => Promise<{ userMessages: MessageContent[] } | null>
+  /** Called once the run ends with its replay bundle, when `record` is set */
+  onRecording?: (bundle: ReplayBundle) => void
 }
 
 export interface AgentOptions {
@@ -177,6 +307,38 @@ export interface AgentOptions {
   // MCP
   mcpTools?: ToolDefinition[]  // Tool definitions from MCP servers
 
+  /** Tool-calling protocol: XML `<invoke>` blocks (default) or provider-native tools */
+  toolCallMode?: ToolCallMode
+
   /** Delay in seconds after tools that cause page changes (default: 0.5) */
   postToolDelay?: number
+
+  /** Model context window in tokens, used to compact history before it overflows */
+  contextLength?: number
+
+  /** Actions that pause for user approval (see `onApprovalRequest`) */
+  approvalRules?: ApprovalRule[]
+
+  /** Only allow navigation to the domains declared with update_plan (plus ones the user approves) */
+  strictPlan?: boolean
+
+  /** Retries per model for rate limits, overload and network errors (default: 3) */
+  maxRetries?: number
+  /** Models to move through when `model` keeps failing. They share the session's prompt and tool-call mode. */
+  fallbackModels?: ModelFallback[]
+
+  /** JSON Schema the final answer must match. The answer is validated, repaired if needed, and returned as `data`. */
+  outputSchema?: JsonSchema
+
+  /** Site profiles to check the current tab against before each LLM call */
+  siteProfiles?: SiteProfile[]
+
+  /** Saved memories to show the model, picked by the caller for this request (see `findRelevantMemories`) */
+  memories?: RenderOptions['memories']
+
+  /** Record every model call and tool result into a replay bundle (see `onRecording`) */
+  record?: boolean
 }
+
+/** Re-run a recorded bundle: the model answers from the recording instead of the network */
+export type ReplayAgentOptions = Omit<AgentOptions, 'model'> & { replay: ReplayOptions }
@@ -1,15 +1,20 @@
 import { isLargeOutput, storeOutput, formatStoredPreview } from '@shared/outputStore'
 
-export function formatToolResults(results: { name: string; result: unknown }[]): string {
-  const inner = results.map(r => {
-    const output = typeof r.result === 'string' ? r.result : JSON.stringify(r.result)
+/** Serialize a tool result, storing large outputs and returning a preview in their place. */
+export function formatToolOutput(name: string, result: unknown): string {
+  const output = typeof result === 'string' ? result : JSON.stringify(result)
+
+  if (isLargeOutput(output)) {
+    const id = storeOutput(name, output)
+    return formatStoredPreview(id, name, output)
+  }
 
-    if (isLargeOutput(output)) {
-      const id = storeOutput(r.name, output)
-      const preview = formatStoredPreview(id, r.name, output)
-      return `<result>\n<name>${r.name}</name>\n<output>${preview}</output>\n</result>`
-    }
+  return output
+}
 
+export function formatToolResults(results: { name: string; result: unknown }[]): string {
+  const inner = results.map(r => {
+    const output = formatToolOutput(r.name, r.result)
     return `<result>\n<name>${r.name}</name>\n<output>${output}</output>\n</result>`
   }).join('\n')
 
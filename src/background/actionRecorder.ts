@@ -0,0 +1,87 @@
+import { MessageTypes, type RecordedActionMessage } from '@shared/messages'
+import { TOP_FRAME_ID } from '@shared/frames'
+
+const log = (...args: unknown[]) => console.log('[Bouno:Recorder]', ...args)
+
+// Kept in session storage so recording survives a service worker restart
+const STORAGE_KEY = 'recordingTabIds'
+
+/** Navigations the page started itself, as a result of a recorded click or submit */
+const PAGE_TRANSITIONS = ['link', 'form_submit']
+
+async function getRecordingTabIds(): Promise<number[]> {
+  const stored = await chrome.storage.session.get(STORAGE_KEY)
+  return (stored[STORAGE_KEY] as number[] | undefined) ?? []
+}
+
+async function setRecordingTabIds(tabIds: number[]): Promise<void> {
+  await chrome.storage.session.set({ [STORAGE_KEY]: tabIds })
+}
+
+export async function isRecording(tabId: number): Promise<boolean> {
+  return (await getRecordingTabIds()).includes(tabId)
+}
+
+async function sendToTab(tabId: number, type: string): Promise<void> {
+  try {
+    await chrome.tabs.sendMessage(tabId, { type }, { frameId: TOP_FRAME_ID })
+  } catch {
+    // Tabs opened before the extension was installed have no content script yet
+    await chrome.scripting.executeScript({ target: { tabId, allFrames: true }, files: ['content.js'] })
+    await new Promise(resolve => setTimeout(resolve, 150))
+    await chrome.tabs.sendMessage(tabId, { type }, { frameId: TOP_FRAME_ID })
+  }
+}
+
+/** Start recording the user's actions in a tab. Returns the page it starts on. */
+export async function startRecording(tabId: number): Promise<{ url: string }> {
+  const tab = await chrome.tabs.get(tabId)
+  const tabIds = await getRecordingTabIds()
+  if (!tabIds.includes(tabId)) {
+    await setRecordingTabIds([...tabIds, tabId])
+  }
+
+  try {
+    await sendToTab(tabId, MessageTypes.RECORDER_START)
+  } catch (err) {
+    await setRecordingTabIds(tabIds.filter(id => id !== tabId))
+    throw new Error(`Cannot record on this page: ${(err as Error).message}`)
+  }
+
+  log('Recording tab', tabId)
+  return { url: tab.url ?? '' }
+}
+
+export async function stopRecording(tabId: number): Promise<void> {
+  const tabIds = await getRecordingTabIds()
+  await setRecordingTabIds(tabIds.filter(id => id !== tabId))
+  await chrome.tabs.sendMessage(tabId, { type: MessageTypes.RECORDER_STOP }, { frameId: TOP_FRAME_ID }).catch(() => {})
+  log('Stopped recording tab', tabId)
+}
+
+chrome.webNavigation.onCommitted.addListener((details) => {
+  if (details.frameId !== 0) return
+
+  isRecording(details.tabId).then((recording) => {
+    if (!recording) return
+    const message: RecordedActionMessage = {
+      type: MessageTypes.RECORDED_ACTION,
+      tabId: details.tabId,
+      action: {
+        kind: 'navigate',
+        url: details.url,
+        fromPage: PAGE_TRANSITIONS.includes(details.transitionType) ||
+          details.transitionQualifiers.some(q => q.endsWith('_redirect')),
+        timestamp: details.timeStamp,
+      },
+    }
+    // The side panel listens for these; nobody may be listening if it was closed
+    chrome.runtime.sendMessage(message).catch(() => {})
+  }).catch(() => {})
+})
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  getRecordingTabIds()
+    .then((tabIds) => tabIds.includes(tabId) ? setRecordingTabIds(tabIds.filter(id => id !== tabId)) : undefined)
+    .catch(() => {})
+})
@@ -0,0 +1,181 @@
+import { loadSettings } from '@shared/settings'
+import { createProviderChain } from '@agent/providers'
+import { getModelConfig, resolveToolCallMode, getContextLength } from '@agent/config'
+import { runWorkflow } from '@agent/workflow/runner'
+import { compareReplay, type ReplayBundle, type ReplayComparison, type ReplayOptions } from '@agent/workflow/recording'
+import { executeTool as registryExecuteTool } from '@tools/registry'
+import { findRelevantMemories } from '@storage/memoryStorage'
+import { getEnabledSiteProfiles } from '@sites/storage'
+import type { AgentResult, Message } from '@agent/workflow/types'
+import type { ProviderSettings, ProviderType } from '@shared/settings'
+import type { JsonSchema } from '@shared/jsonSchema'
+
+const log = (...args: unknown[]) => console.log('[Bouno:AgentRunner]', ...args)
+
+export interface BackgroundAgentRequest {
+  /** Used in logs, e.g. the shortcut name */
+  label: string
+  prompt: string
+  startUrl: string
+  /** Run in this tab as it is instead of opening a new one at `startUrl` */
+  tabId?: number
+  /** Override provider — falls back to user's current setting if undefined */
+  provider?: ProviderType
+  /** Override model — falls back to user's current setting if undefined */
+  model?: string
+  /** The final answer must be JSON matching this schema; it comes back as `result.data` */
+  outputSchema?: JsonSchema
+}
+
+/** Wait for a tab to finish loading */
+export function waitForTabLoad(tabId: number, timeoutMs = 30_000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(listener)
+      reject(new Error('Tab load timed out'))
+    }, timeoutMs)
+
+    const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        clearTimeout(timeout)
+        chrome.tabs.onUpdated.removeListener(listener)
+        resolve()
+      }
+    }
+
+    chrome.tabs.onUpdated.addListener(listener)
+
+    // Check if already loaded
+    chrome.tabs.get(tabId).then((tab) => {
+      if (tab.status === 'complete') {
+        clearTimeout(timeout)
+        chrome.tabs.onUpdated.removeListener(listener)
+        resolve()
+      }
+    }).catch(() => {
+      clearTimeout(timeout)
+      chrome.tabs.onUpdated.removeListener(listener)
+      reject(new Error('Tab not found'))
+    })
+  })
+}
+
+/**
+ * Direct tool executor for background runs.
+ * Calls the tool registry directly instead of going through chrome.runtime.sendMessage.
+ */
+async function directToolExecutor(name: string, params: Record<string, unknown>): Promise<unknown> {
+  const result = await registryExecuteTool(name, params)
+  if (result.success) {
+    return result.result ?? { success: true }
+  }
+  return { error: result.error ?? 'Tool execution failed' }
+}
+
+/** Open an inactive tab at the URL and wait for it to load */
+export async function openAgentTab(url: string): Promise<number> {
+  const tab = await chrome.tabs.create({ url, active: false })
+  const tabId = tab.id!
+  log(`Created tab ${tabId}, navigating to ${url}`)
+
+  await waitForTabLoad(tabId)
+  log(`Tab ${tabId} loaded`)
+  return tabId
+}
+
+function singleTabContext(tabId: number) {
+  return async () => {
+    const tab = await chrome.tabs.get(tabId)
+    return [{ id: tab.id!, title: tab.title || '', url: tab.url || '' }]
+  }
+}
+
+/**
+ * Run the agent unattended in a new background tab opened at the start URL.
+ * Used by scheduled shortcuts, relay requests and macro fallbacks; there is
+ * no one to approve actions, so anything that needs approval is refused.
+ */
+export async function runBackgroundAgent(request: BackgroundAgentRequest): Promise<AgentResult> {
+  // Load user settings for API keys and fallback model/provider
+  const settings = await loadSettings()
+
+  // Build effective provider settings
+  const effectiveSettings: ProviderSettings = {
+    ...settings,
+    provider: request.provider ?? settings.provider,
+    model: request.model ?? settings.model,
+  }
+
+  const tabId = request.tabId ?? await openAgentTab(request.startUrl)
+
+  const messages: Message[] = [
+    { role: 'user', content: request.prompt },
+  ]
+
+  const [primary, ...fallbacks] = createProviderChain(effectiveSettings)
+  const modelConfig = getModelConfig(effectiveSettings.provider, effectiveSettings.model)
+
+  return runWorkflow({
+    model: primary.languageModel,
+    fallbackModels: fallbacks.map((c) => ({ model: c.languageModel, modelName: c.model, provider: c.provider })),
+    maxRetries: settings.maxRetries,
+    messages,
+    tabId,
+    maxSteps: settings.maxSteps ?? 15,
+    vision: modelConfig?.vision ?? false,
+    toolExecutor: directToolExecutor,
+    modelName: effectiveSettings.model,
+    provider: effectiveSettings.provider,
+    userPreference: settings.userPreference,
+    memories: await findRelevantMemories(request.prompt),
+    siteProfiles: await getEnabledSiteProfiles(),
+    toolCallMode: resolveToolCallMode(
+      effectiveSettings.provider,
+      effectiveSettings.model,
+      settings.toolCallModes?.[effectiveSettings.provider]
+    ),
+    contextLength: getContextLength(effectiveSettings.provider, effectiveSettings.model),
+    strictPlan: settings.strictPlan,
+    // No onApprovalRequest here, so every call these rules gate is refused
+    approvalRules: settings.approvalRules,
+    outputSchema: request.outputSchema,
+    callbacks: {
+      onModelSwitch: ({ modelName, provider, reason }) => {
+        log(`"${request.label}" switched to ${provider}/${modelName}:`, reason)
+      },
+    },
+    getTabContext: singleTabContext(tabId),
+  })
+}
+
+export interface ReplayRunResult {
+  result: AgentResult
+  comparison: ReplayComparison
+}
+
+/**
+ * Re-run a recorded run in a new background tab opened where the recording
+ * started. The model's answers come from the bundle; with `tools: 'execute'`
+ * the recorded tool calls run again against the live page, under the user's
+ * approval rules and strict-plan setting like any other background run.
+ */
+export async function runReplay(bundle: ReplayBundle, tools: ReplayOptions['tools']): Promise<ReplayRunResult> {
+  const settings = await loadSettings()
+  const tabId = await openAgentTab(bundle.startUrl ?? 'about:blank')
+
+  const result = await runWorkflow({
+    messages: bundle.initialMessages,
+    tabId,
+    replay: { bundle, tools },
+    toolExecutor: directToolExecutor,
+    postToolDelay: settings.postToolDelay,
+    strictPlan: settings.strictPlan,
+    // No onApprovalRequest here, so every call these rules gate is refused
+    approvalRules: settings.approvalRules,
+    getTabContext: singleTabContext(tabId),
+  })
+
+  const comparison = compareReplay(bundle, result)
+  log(`Replay of ${bundle.sessionId} finished:`, comparison)
+  return { result, comparison }
+}
@@ -63,6 +63,15 @@ function buildGifFrameMetadata(tool: string, params: Record<string, unknown>): G
     }
   }
 
+  if (tool === 'upload_file') {
+    return {
+      tool,
+      actionType: 'upload_file',
+      coordinate: asNumberPair(params.coordinate),
+      ref: asString(params.ref),
+    }
+  }
+
   return {
     tool,
     actionType: tool,
@@ -1,4 +1,5 @@
 import { MessageTypes } from '@shared/messages'
+import { TOP_FRAME_ID } from '@shared/frames'
 
 const MIN_GLOW_VISIBLE_MS = 3000
 
@@ -30,7 +31,7 @@ function showGlowOnTab(tabId: number): void {
   }
 
   // Always re-send to survive same-tab navigations/content-script reloads.
-  chrome.tabs.sendMessage(tabId, { type: MessageTypes.SET_SCREEN_GLOW, active: true }).catch(() => {})
+  chrome.tabs.sendMessage(tabId, { type: MessageTypes.SET_SCREEN_GLOW, active: true }, { frameId: TOP_FRAME_ID }).catch(() => {})
 }
 
 function hideGlowOnTabWithMinimum(tabId: number): void {
@@ -49,7 +50,7 @@ function hideGlowOnTabWithMinimum(tabId: number): void {
       delete current.hideTimerId
     }
 
-    chrome.tabs.sendMessage(tabId, { type: MessageTypes.SET_SCREEN_GLOW, active: false }).catch(() => {})
+    chrome.tabs.sendMessage(tabId, { type: MessageTypes.SET_SCREEN_GLOW, active: false }, { frameId: TOP_FRAME_ID }).catch(() => {})
     glowStates.delete(tabId)
 
     if (glowTabId === tabId) {
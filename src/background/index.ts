@@ -8,9 +8,15 @@ import {
 } from '@tools/index'
 import { MessageTypes } from '@shared/messages'
 import { captureTabScreenshot } from '@shared/screenshot'
+import { TOP_FRAME_ID } from '@shared/frames'
+import { getStoredOutput } from '@shared/outputStore'
 import { tabGroups } from './tabGroups'
 import { syncAlarms, shortcutIdFromAlarm } from './scheduler'
 import { runShortcut } from './shortcutRunner'
+import { runReplay } from './agentRunner'
+import { getReplay } from '@storage/replayStorage'
+import { startRecording, stopRecording, isRecording } from './actionRecorder'
+import { runStoredMacro } from './macroPlayer'
 import { switchGlowToTab, hideAllGlowsWithMinimum, cleanupGlowForTab } from './glow'
 import { autoCaptureGifFrame } from './gifCapture'
 import { startCodexOAuth, logoutCodex, cancelCodexOAuth } from './codexOAuth'
@@ -195,7 +201,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (type === MessageTypes.EXECUTE_SCRIPT) {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       if (tabs[0]?.id) {
-        chrome.tabs.sendMessage(tabs[0].id, message, sendResponse)
+        chrome.tabs.sendMessage(tabs[0].id, message, { frameId: TOP_FRAME_ID }, sendResponse)
       } else {
         sendResponse({ error: 'No active tab found' })
       }
@@ -203,6 +209,14 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  // Stored outputs live in this worker; the side panel reads them whole (e.g. a table's CSV)
+  if (type === MessageTypes.GET_STORED_OUTPUT) {
+    const { resultId } = message as { resultId: string }
+    const output = getStoredOutput(resultId)
+    sendResponse(output === undefined ? { success: false, error: 'Output expired' } : { success: true, output })
+    return true
+  }
+
   if (type === MessageTypes.TAKE_SCREENSHOT) {
     const { tabId } = message as { tabId: number }
     console.log('[Bouno:background] TAKE_SCREENSHOT received, tabId:', tabId)
@@ -294,6 +308,64 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (type === MessageTypes.REPLAY_RUN) {
+    const { replayId, tools } = message as { replayId: string; tools: 'stub' | 'execute' }
+    getReplay(replayId)
+      .then((stored) => {
+        if (!stored) throw new Error('Recording not found')
+        // A file from someone else must not drive real tools with this browser's sessions
+        if (stored.imported && tools !== 'stub') {
+          throw new Error('Imported recordings can only be replayed with recorded tool results')
+        }
+        return runReplay(stored.bundle, tools)
+      })
+      .then(({ comparison }) => sendResponse({ success: true, comparison }))
+      .catch((err) => sendResponse({ success: false, error: (err as Error).message }))
+    return true
+  }
+
+  if (type === MessageTypes.RUN_MACRO) {
+    const { macroId, label } = message as { macroId: string; label: string }
+    runStoredMacro(macroId, { fallback: { label } })
+      .then((result) => sendResponse({
+        success: result.success,
+        error: result.error,
+        steps: result.steps.length,
+        fallback: !!result.fallback,
+        usage: result.fallback?.usage,
+      }))
+      .catch((err) => sendResponse({ success: false, error: (err as Error).message }))
+    return true
+  }
+
+  if (type === MessageTypes.RECORDER_START) {
+    const { tabId } = message as { tabId: number }
+    startRecording(tabId)
+      .then(({ url }) => sendResponse({ success: true, url }))
+      .catch((err) => sendResponse({ success: false, error: (err as Error).message }))
+    return true
+  }
+
+  if (type === MessageTypes.RECORDER_STOP) {
+    const { tabId } = message as { tabId: number }
+    stopRecording(tabId)
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: (err as Error).message }))
+    return true
+  }
+
+  if (type === MessageTypes.RECORDER_STATUS) {
+    const tabId = sender.tab?.id
+    if (!tabId) {
+      sendResponse({ recording: false })
+      return true
+    }
+    isRecording(tabId)
+      .then((recording) => sendResponse({ recording }))
+      .catch(() => sendResponse({ recording: false }))
+    return true
+  }
+
   if (type === MessageTypes.EXECUTE_TOOL) {
     const { tool, params } = message as { tool: string; params: Record<string, unknown> }
     console.log(`[Bouno:background] EXECUTE_TOOL received: tool=${tool}, params=`, params)
@@ -0,0 +1,181 @@
+import { executeTool } from '@tools/registry'
+import { getMacro, markMacroRun } from '@storage/macroStorage'
+import { describeMacroStep, DEFAULT_LOCATOR_TIMEOUT_MS, type Macro, type MacroStep } from '@shared/macro'
+import { describeLocator, type ElementLocator } from '@shared/actionRecording'
+import type { AgentResult } from '@agent/workflow/types'
+import { runBackgroundAgent, openAgentTab, waitForTabLoad, type BackgroundAgentRequest } from './agentRunner'
+
+const log = (...args: unknown[]) => console.log('[Bouno:MacroPlayer]', ...args)
+
+const LOCATOR_POLL_MS = 250
+/** Give the page a moment to react before the next step looks for its element */
+const STEP_SETTLE_MS = 300
+
+export interface MacroStepResult {
+  /** 1-based */
+  step: number
+  description: string
+  success: boolean
+  error?: string
+  result?: unknown
+}
+
+export interface MacroRunResult {
+  success: boolean
+  /** Steps that ran, in order, up to the first failure */
+  steps: MacroStepResult[]
+  /** Results of steps with `saveAs`, by key */
+  outputs: Record<string, unknown>
+  /** The agent's run, when a step failed and the agent took over */
+  fallback?: AgentResult
+  error?: string
+}
+
+/** Agent settings for finishing a macro whose step failed */
+export type MacroFallback = Pick<BackgroundAgentRequest, 'label' | 'provider' | 'model' | 'outputSchema'> & {
+  /** What the macro is for, in the user's words; helps the agent when the page has changed */
+  goal?: string
+}
+
+export interface PlayMacroOptions {
+  tabId: number
+  /** Without this, a failed step ends the run */
+  fallback?: MacroFallback
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** Drop the content-script debug logs that page tools attach to their results */
+function cleanResult(result: unknown): unknown {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) return result
+  // extract leaves item text for the agent's model pass, which macros don't run
+  const { _debugLogs: _, _extraction: _pending, ...rest } = result as Record<string, unknown>
+  return rest
+}
+
+/** Find the locator's element, retrying while the page loads or renders */
+async function resolveLocator(tabId: number, locator: ElementLocator, timeoutMs: number): Promise<string> {
+  const deadline = Date.now() + timeoutMs
+  let lastError = `Could not find ${describeLocator(locator)}`
+
+  while (true) {
+    const response = await executeTool('resolve_locator', { tabId, locator })
+    const ref = (response.result as { ref?: string } | undefined)?.ref
+    if (response.success && ref) return ref
+    lastError = response.error ?? lastError
+
+    if (Date.now() >= deadline) break
+    await sleep(LOCATOR_POLL_MS)
+  }
+
+  throw new Error(`${lastError} (waited ${Math.round(timeoutMs / 1000)}s)`)
+}
+
+async function runStep(tabId: number, step: MacroStep): Promise<unknown> {
+  // A click on the previous step may have started a navigation
+  await waitForTabLoad(tabId)
+
+  const params: Record<string, unknown> = { ...step.params, tabId }
+  if (step.locator) {
+    params.ref = await resolveLocator(tabId, step.locator, step.timeout ?? DEFAULT_LOCATOR_TIMEOUT_MS)
+  }
+
+  const response = await executeTool(step.tool, params)
+  if (!response.success) {
+    throw new Error(response.error ?? `${step.tool} failed`)
+  }
+  return cleanResult(response.result)
+}
+
+function fallbackPrompt(macro: Macro, failedIndex: number, error: string, goal?: string): string {
+  const lines = [
+    `I was replaying the recorded macro "${macro.name}" and step ${failedIndex + 1} failed: ${error}`,
+    '',
+  ]
+  if (goal) {
+    lines.push(`Goal: ${goal}`, '')
+  }
+  if (failedIndex > 0) {
+    lines.push('Steps already done:')
+    macro.steps.slice(0, failedIndex).forEach((step, i) => lines.push(`${i + 1}. ${describeMacroStep(step)}`))
+    lines.push('')
+  }
+  lines.push('Remaining steps, starting with the one that failed:')
+  macro.steps.slice(failedIndex).forEach((step, i) => lines.push(`${failedIndex + i + 1}. ${describeMacroStep(step)}`))
+  lines.push('', 'Finish the job from the current page. The steps are a guide; the page may have changed since they were recorded.')
+  return lines.join('\n')
+}
+
+/**
+ * Play a macro in a tab. Steps run in order through the tool registry with
+ * no model involved; if one fails and a fallback is given, the agent gets
+ * the remaining steps and finishes from where the macro stopped.
+ */
+export async function playMacro(macro: Macro, options: PlayMacroOptions): Promise<MacroRunResult> {
+  const { tabId, fallback } = options
+  const steps: MacroStepResult[] = []
+  const outputs: Record<string, unknown> = {}
+
+  for (let i = 0; i < macro.steps.length; i++) {
+    const step = macro.steps[i]
+    const description = describeMacroStep(step)
+
+    try {
+      const result = await runStep(tabId, step)
+      steps.push({ step: i + 1, description, success: true, result })
+      if (step.saveAs) outputs[step.saveAs] = result
+      await sleep(STEP_SETTLE_MS)
+    } catch (err) {
+      const error = (err as Error).message
+      steps.push({ step: i + 1, description, success: false, error })
+      log(`"${macro.name}" step ${i + 1} failed:`, error)
+
+      if (!fallback) {
+        return { success: false, steps, outputs, error: `Step ${i + 1} (${description}) failed: ${error}` }
+      }
+
+      log(`Handing "${macro.name}" over to the agent from step ${i + 1}`)
+      const result = await runBackgroundAgent({
+        ...fallback,
+        prompt: fallbackPrompt(macro, i, error, fallback.goal),
+        startUrl: '',
+        tabId,
+      })
+      const failed = result.finishReason === 'stuck' || result.finishReason === 'error'
+      return {
+        success: !failed,
+        steps,
+        outputs,
+        fallback: result,
+        ...(failed && { error: `Step ${i + 1} failed and the agent could not finish: ${result.error ?? result.finishReason}` }),
+      }
+    }
+  }
+
+  log(`"${macro.name}" finished all ${macro.steps.length} steps`)
+  return { success: true, steps, outputs }
+}
+
+/**
+ * Play a saved macro in a new background tab opened at its start URL (or
+ * `startUrl` when the macro has none), and record how the run went.
+ */
+export async function runStoredMacro(
+  macroId: string,
+  options: { startUrl?: string; fallback?: MacroFallback } = {}
+): Promise<MacroRunResult> {
+  const macro = await getMacro(macroId)
+  if (!macro) {
+    throw new Error('Macro not found')
+  }
+
+  const tabId = await openAgentTab(macro.startUrl ?? options.startUrl ?? 'about:blank')
+  const result = await playMacro(macro, { tabId, fallback: options.fallback })
+
+  await markMacroRun(
+    macro.id,
+    !result.success ? 'error' : result.fallback ? 'fallback' : 'success',
+    result.error
+  )
+  return result
+}
@@ -1,5 +1,10 @@
 import { executeTool, getRegisteredTools } from '@tools/index'
 import { getAllToolDefinitions } from '@tools/index'
+import { isJsonSchema } from '@shared/jsonSchema'
+import { isStorageEdit } from '@shared/macro'
+import type { ProviderType } from '@shared/settings'
+import { PROVIDER_CONFIGS } from '@agent/config'
+import { runBackgroundAgent } from './agentRunner'
 
 interface RelayRequest {
   id: string
@@ -154,14 +159,60 @@ async function handleRequest(request: RelayRequest): Promise<void> {
 
       case 'execute_tool': {
         const { tool, params } = request.payload as { tool: string; params: Record<string, unknown> }
+        if (isStorageEdit(tool, params)) {
+          response = { id: request.id, success: false, error: 'read_storage set and remove need the user\'s approval and can\'t be called over the relay' }
+          break
+        }
         const result = await executeTool(tool, params)
         response = { id: request.id, success: result.success, data: result.result, error: result.error }
         break
       }
 
       case 'agent': {
-        // Placeholder — will be implemented when agent endpoint is added
-        response = { id: request.id, success: false, error: 'Agent endpoint not yet implemented' }
+        const { prompt, startUrl, provider, model, outputSchema } = request.payload as {
+          prompt?: unknown
+          startUrl?: unknown
+          provider?: unknown
+          model?: unknown
+          outputSchema?: unknown
+        }
+        if (typeof prompt !== 'string' || !prompt.trim() || typeof startUrl !== 'string' || !startUrl.trim()) {
+          response = { id: request.id, success: false, error: 'agent requests need a prompt and a startUrl' }
+          break
+        }
+        if (provider !== undefined && (typeof provider !== 'string' || !Object.keys(PROVIDER_CONFIGS).includes(provider))) {
+          response = { id: request.id, success: false, error: `Unknown provider: ${String(provider)}. Use one of ${Object.keys(PROVIDER_CONFIGS).join(', ')}.` }
+          break
+        }
+        if (model !== undefined && typeof model !== 'string') {
+          response = { id: request.id, success: false, error: 'model must be a string' }
+          break
+        }
+        if (outputSchema !== undefined && !isJsonSchema(outputSchema)) {
+          response = { id: request.id, success: false, error: 'outputSchema must be a JSON Schema object' }
+          break
+        }
+
+        const result = await runBackgroundAgent({
+          label: `relay ${request.id}`,
+          prompt,
+          startUrl,
+          provider: provider as ProviderType | undefined,
+          model,
+          outputSchema,
+        })
+        response = {
+          id: request.id,
+          success: result.finishReason === 'stop',
+          data: {
+            text: result.text,
+            data: result.data,
+            finishReason: result.finishReason,
+            steps: result.steps,
+            usage: result.usage,
+          },
+          error: result.error,
+        }
         break
       }
 
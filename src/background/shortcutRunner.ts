@@ -1,11 +1,9 @@
 import { getShortcut, markShortcutRun, updateShortcut } from '@storage/shortcutStorage'
-import { loadSettings } from '@shared/settings'
-import { createProvider } from '@agent/providers'
-import { getModelConfig } from '@agent/config'
-import { runWorkflow } from '@agent/workflow/runner'
-import { executeTool as registryExecuteTool } from '@tools/registry'
-import type { Message } from '@agent/workflow/types'
-import type { ProviderSettings } from '@shared/settings'
+import { runBackgroundAgent } from './agentRunner'
+import { runStoredMacro } from './macroPlayer'
+import type { TokenUsage } from '@agent/workflow/types'
+import { validateJsonSchema, formatSchemaIssues } from '@shared/jsonSchema'
+import type { ScheduledShortcut } from '@storage/types'
 
 const log = (...args: unknown[]) => console.log('[Bouno:ShortcutRunner]', ...args)
 const logError = (...args: unknown[]) => console.error('[Bouno:ShortcutRunner]', ...args)
@@ -16,51 +14,6 @@ export interface ShortcutRunResult {
   error?: string
 }
 
-/** Wait for a tab to finish loading */
-function waitForTabLoad(tabId: number, timeoutMs = 30_000): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      chrome.tabs.onUpdated.removeListener(listener)
-      reject(new Error('Tab load timed out'))
-    }, timeoutMs)
-
-    const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-      if (updatedTabId === tabId && changeInfo.status === 'complete') {
-        clearTimeout(timeout)
-        chrome.tabs.onUpdated.removeListener(listener)
-        resolve()
-      }
-    }
-
-    chrome.tabs.onUpdated.addListener(listener)
-
-    // Check if already loaded
-    chrome.tabs.get(tabId).then((tab) => {
-      if (tab.status === 'complete') {
-        clearTimeout(timeout)
-        chrome.tabs.onUpdated.removeListener(listener)
-        resolve()
-      }
-    }).catch(() => {
-      clearTimeout(timeout)
-      chrome.tabs.onUpdated.removeListener(listener)
-      reject(new Error('Tab not found'))
-    })
-  })
-}
-
-/**
- * Direct tool executor for background runs.
- * Calls the tool registry directly instead of going through chrome.runtime.sendMessage.
- */
-async function directToolExecutor(name: string, params: Record<string, unknown>): Promise<unknown> {
-  const result = await registryExecuteTool(name, params)
-  if (result.success) {
-    return result.result ?? { success: true }
-  }
-  return { error: result.error ?? 'Tool execution failed' }
-}
-
 export async function runShortcut(shortcutId: string): Promise<ShortcutRunResult> {
   log(`Running shortcut: ${shortcutId}`)
 
@@ -72,7 +25,6 @@ export async function runShortcut(shortcutId: string): Promise<ShortcutRunResult
   runningShortcutIds.add(shortcutId)
 
   let shortcut: Awaited<ReturnType<typeof getShortcut>>
-  let tabId: number | undefined
 
   try {
     shortcut = await getShortcut(shortcutId)
@@ -86,55 +38,16 @@ export async function runShortcut(shortcutId: string): Promise<ShortcutRunResult
       return { success: false, error: 'Shortcut is disabled' }
     }
 
-    // Load user settings for API keys and fallback model/provider
-    const settings = await loadSettings()
+    const outcome = shortcut.macroId
+      ? await playShortcutMacro(shortcut)
+      : await runShortcutAgent(shortcut)
 
-    // Build effective provider settings
-    const effectiveSettings: ProviderSettings = {
-      ...settings,
-      provider: shortcut.provider ?? settings.provider,
-      model: shortcut.model ?? settings.model,
+    if (outcome.error) {
+      await markShortcutRun(shortcutId, 'error', outcome.error, outcome.usage)
+      return { success: false, error: outcome.error }
     }
 
-    // Create a new tab and navigate to the start URL
-    const tab = await chrome.tabs.create({ url: shortcut.startUrl, active: false })
-    tabId = tab.id!
-    log(`Created tab ${tabId}, navigating to ${shortcut.startUrl}`)
-
-    await waitForTabLoad(tabId)
-    log(`Tab ${tabId} loaded`)
-
-    // Build the message
-    const messages: Message[] = [
-      { role: 'user', content: shortcut.prompt },
-    ]
-
-    // Create provider and run workflow
-    const model = createProvider(effectiveSettings)
-    const shortcutModelConfig = getModelConfig(effectiveSettings.provider, effectiveSettings.model)
-
-    const result = await runWorkflow({
-      model,
-      messages,
-      tabId,
-      maxSteps: settings.maxSteps ?? 15,
-      vision: shortcutModelConfig?.vision ?? false,
-      toolExecutor: directToolExecutor,
-      modelName: effectiveSettings.model,
-      provider: effectiveSettings.provider,
-      userPreference: settings.userPreference,
-      getTabContext: async () => {
-        const tab = await chrome.tabs.get(tabId)
-        return [{ id: tab.id!, title: tab.title || '', url: tab.url || '' }]
-      },
-    })
-
-    log(`Shortcut "${shortcut.name}" completed:`, {
-      steps: result.steps,
-      finishReason: result.finishReason,
-    })
-
-    await markShortcutRun(shortcutId, 'success')
+    await markShortcutRun(shortcutId, 'success', undefined, outcome.usage, outcome.data)
 
     // Disable one-shot shortcuts after execution
     if (shortcut.schedule.type === 'once') {
@@ -154,3 +67,78 @@ export async function runShortcut(shortcutId: string): Promise<ShortcutRunResult
     runningShortcutIds.delete(shortcutId)
   }
 }
+
+interface ShortcutOutcome {
+  error?: string
+  usage?: TokenUsage
+  data?: unknown
+}
+
+async function runShortcutAgent(shortcut: ScheduledShortcut): Promise<ShortcutOutcome> {
+  const result = await runBackgroundAgent({
+    label: shortcut.name,
+    prompt: shortcut.prompt,
+    startUrl: shortcut.startUrl,
+    provider: shortcut.provider,
+    model: shortcut.model,
+    outputSchema: shortcut.outputSchema,
+  })
+
+  log(`Shortcut "${shortcut.name}" completed:`, {
+    steps: result.steps,
+    finishReason: result.finishReason,
+    usage: result.usage,
+  })
+
+  if (result.finishReason === 'stuck' || result.finishReason === 'error') {
+    const error = result.finishReason === 'stuck'
+      ? `Stopped: the agent kept repeating itself — ${result.error}`
+      : result.error ?? 'Agent run failed'
+    return { error, usage: result.usage }
+  }
+
+  return { usage: result.usage, data: result.data }
+}
+
+/**
+ * Play the shortcut's macro. The agent only runs, and only costs tokens,
+ * if a step fails; the shortcut's prompt tells it what the macro was for.
+ * The steps' saved outputs are held to the output schema just like the
+ * agent's answer would be.
+ */
+async function playShortcutMacro(shortcut: ScheduledShortcut): Promise<ShortcutOutcome> {
+  const result = await runStoredMacro(shortcut.macroId!, {
+    startUrl: shortcut.startUrl,
+    fallback: {
+      label: shortcut.name,
+      goal: shortcut.prompt || undefined,
+      provider: shortcut.provider,
+      model: shortcut.model,
+      outputSchema: shortcut.outputSchema,
+    },
+  })
+
+  log(`Shortcut "${shortcut.name}" macro finished:`, {
+    steps: result.steps.length,
+    fallback: !!result.fallback,
+    usage: result.fallback?.usage,
+  })
+
+  const usage = result.fallback?.usage
+  if (!result.success) {
+    return { error: result.error ?? 'Macro run failed', usage }
+  }
+
+  if (result.fallback) {
+    return { usage, data: result.fallback.data }
+  }
+
+  const data = Object.keys(result.outputs).length > 0 ? result.outputs : undefined
+  if (shortcut.outputSchema) {
+    const issues = validateJsonSchema(data, shortcut.outputSchema)
+    if (issues.length > 0) {
+      return { error: `Macro outputs did not match the output schema:\n${formatSchemaIssues(issues)}` }
+    }
+  }
+  return { data }
+}
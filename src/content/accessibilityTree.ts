@@ -1,4 +1,7 @@
 import { DEFAULT_TREE_DEPTH, MAX_OUTPUT_CHARS } from '@shared/constants'
+import { refPrefix } from '@shared/frames'
+import { getCurrentFrameId, getChildFrameId, isFrameElement } from './frames'
+import { getComposedChildren } from './shadowDom'
 
 interface ElementMap {
   [key: string]: WeakRef<Element>
@@ -68,7 +71,9 @@ const ROLE_MAP: Record<string, string | ((el: Element) => string)> = {
   ul: 'list',
   ol: 'list',
   li: 'listitem',
-  label: 'label'
+  label: 'label',
+  iframe: 'iframe',
+  frame: 'iframe'
 }
 
 export function getRole(element: Element): string {
@@ -113,7 +118,9 @@ export function getAccessibleName(element: Element): string {
   if (alt?.trim()) return alt.trim()
 
   if (element.id) {
-    const label = document.querySelector(`label[for="${element.id}"]`)
+    // Inside a shadow root the label lives in the same root, not the document
+    const root = element.getRootNode() as Document | ShadowRoot
+    const label = root.querySelector(`label[for="${element.id}"]`)
     if (label?.textContent?.trim()) {
       return label.textContent.trim()
     }
@@ -216,7 +223,8 @@ function shouldInclude(element: Element, options: ProcessOptions): boolean {
   if (options.filter !== 'all' && element.getAttribute('aria-hidden') === 'true') return false
   if (options.filter !== 'all' && !isVisible(element)) return false
   if (options.filter !== 'all' && !options.refId && !isInViewport(element)) return false
-  if (options.filter === 'interactive') return isInteractive(element)
+  // Frames stay in the tree so the background can nest their contents under them
+  if (options.filter === 'interactive') return isInteractive(element) || isFrameElement(element)
 
   if (isInteractive(element)) return true
   if (isLandmark(element)) return true
@@ -234,7 +242,7 @@ export function assignRef(element: Element): string {
     }
   }
 
-  const refId = 'ref_' + (++window.__bounoRefCounter)
+  const refId = refPrefix(getCurrentFrameId()) + (++window.__bounoRefCounter)
   window.__bounoElementMap[refId] = new WeakRef(element)
   return refId
 }
@@ -275,20 +283,33 @@ function processElement(
     if (placeholder) {
       line += ` placeholder="${placeholder}"`
     }
+    if (isFrameElement(element)) {
+      const frameId = getChildFrameId(element)
+      if (frameId >= 0) {
+        line += ` frame="${frameId}"`
+      }
+    }
 
     output.push(line)
   }
 
   if (element.children && currentDepth < maxDepth) {
-    for (const child of element.children) {
+    const childDepth = include ? currentDepth + 1 : currentDepth
+    // A shadow host's contents go under a #shadow-root line, if any of them are included
+    const childOutput: string[] = []
+    for (const child of getComposedChildren(element)) {
       processElement(
         child,
-        include ? currentDepth + 1 : currentDepth,
+        element.shadowRoot ? childDepth + 1 : childDepth,
         maxDepth,
         options,
-        output
+        childOutput
       )
     }
+    if (element.shadowRoot && childOutput.length > 0) {
+      output.push(' '.repeat(childDepth) + '#shadow-root')
+    }
+    output.push(...childOutput)
   }
 }
 
@@ -0,0 +1,142 @@
+import { MessageTypes } from '@shared/messages'
+import type { RecordedAction, RecordedActionEntry } from '@shared/actionRecording'
+import { isInteractive } from './accessibilityTree'
+import { getElementLocator, isTextEntry } from './elementLocator'
+import { eventOrigin } from './shadowDom'
+
+const RECORDED_KEYS = ['Enter', 'Escape']
+
+let recording = false
+let pendingInput: Element | null = null
+
+function isToggle(element: Element): boolean {
+  const type = (element as HTMLInputElement).type
+  return element.tagName.toLowerCase() === 'input' && (type === 'checkbox' || type === 'radio')
+}
+
+/** The element a click was meant for: the nearest interactive ancestor of the target */
+function clickTarget(target: Element): Element {
+  let el: Element | null = target
+  while (el && el !== document.body) {
+    if (isInteractive(el)) return el
+    el = el.parentElement
+  }
+  return target
+}
+
+function emit(action: RecordedAction): void {
+  const entry: RecordedActionEntry = { ...action, url: window.location.href, timestamp: Date.now() }
+  chrome.runtime.sendMessage({ type: MessageTypes.RECORDED_ACTION, action: entry }).catch(() => {})
+}
+
+function inputValue(element: Element): string {
+  if ((element as HTMLElement).isContentEditable) {
+    return (element as HTMLElement).innerText
+  }
+  return (element as HTMLInputElement).value
+}
+
+/** Typing is reported once per field, when the user moves on */
+function flushInput(): void {
+  const element = pendingInput
+  if (!element) return
+  pendingInput = null
+
+  const sensitive = (element as HTMLInputElement).type === 'password'
+  emit({
+    kind: 'type',
+    locator: getElementLocator(element),
+    value: sensitive ? '' : inputValue(element),
+    ...(sensitive && { sensitive }),
+  })
+}
+
+function handleClick(event: MouseEvent): void {
+  const origin = eventOrigin(event)
+  if (!event.isTrusted || !origin) return
+  const target = clickTarget(origin)
+
+  // Focusing a field is implied by typing into it, and toggles are recorded on change
+  if (isTextEntry(target) || isToggle(target) || target.tagName.toLowerCase() === 'select') {
+    if (target !== pendingInput) flushInput()
+    return
+  }
+
+  flushInput()
+  emit({ kind: 'click', locator: getElementLocator(target) })
+}
+
+function handleInput(event: Event): void {
+  const target = eventOrigin(event)
+  if (!event.isTrusted || !target || !isTextEntry(target)) return
+  if (pendingInput && pendingInput !== target) flushInput()
+  pendingInput = target
+}
+
+function handleChange(event: Event): void {
+  const target = eventOrigin(event)
+  if (!event.isTrusted || !target) return
+
+  if (isTextEntry(target)) {
+    if (pendingInput === target) flushInput()
+    return
+  }
+
+  flushInput()
+  if (target.tagName.toLowerCase() === 'select') {
+    const select = target as HTMLSelectElement
+    const option = select.options[select.selectedIndex]
+    emit({ kind: 'select', locator: getElementLocator(target), value: option?.text.trim() || select.value })
+  } else if (isToggle(target)) {
+    emit({ kind: 'check', locator: getElementLocator(target), checked: (target as HTMLInputElement).checked })
+  }
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!event.isTrusted || !RECORDED_KEYS.includes(event.key)) return
+  // Enter in a textarea is a newline, not a submit
+  const target = eventOrigin(event)
+  if (event.key === 'Enter' && target instanceof HTMLTextAreaElement) return
+
+  flushInput()
+  emit({
+    kind: 'key',
+    key: event.key,
+    ...(target && target !== document.body && { locator: getElementLocator(target) }),
+  })
+}
+
+function handleFocusOut(event: FocusEvent): void {
+  if (eventOrigin(event) === pendingInput) flushInput()
+}
+
+function handlePageHide(): void {
+  flushInput()
+}
+
+export function startActionRecorder(): { recording: boolean } {
+  if (!recording) {
+    recording = true
+    document.addEventListener('click', handleClick, true)
+    document.addEventListener('input', handleInput, true)
+    document.addEventListener('change', handleChange, true)
+    document.addEventListener('keydown', handleKeyDown, true)
+    document.addEventListener('focusout', handleFocusOut, true)
+    window.addEventListener('pagehide', handlePageHide)
+  }
+  return { recording }
+}
+
+export function stopActionRecorder(): { recording: boolean } {
+  if (recording) {
+    flushInput()
+    recording = false
+    document.removeEventListener('click', handleClick, true)
+    document.removeEventListener('input', handleInput, true)
+    document.removeEventListener('change', handleChange, true)
+    document.removeEventListener('keydown', handleKeyDown, true)
+    document.removeEventListener('focusout', handleFocusOut, true)
+    window.removeEventListener('pagehide', handlePageHide)
+  }
+  return { recording }
+}
@@ -0,0 +1,329 @@
+/**
+ * Record extraction
+ *
+ * The page side of the `extract` tool. Repeated items (search results,
+ * product cards, table rows) are found the same way `extract_table` finds
+ * them, and each field is filled in where the markup gives it away:
+ * matching columns, itemprop, "Label: value" pairs, links, images, prices
+ * and dates. Every item also comes back as compact text so the model can
+ * read the fields the heuristics missed.
+ */
+
+import type { ExtractField } from '@shared/extraction'
+import { assignRef, getElementByRef } from './elementRefs'
+import { querySelectorAllDeep } from './shadowDom'
+import { findTableLike } from './tableExtractor'
+
+export interface ExtractDataResult {
+  ref?: string
+  records?: Array<Record<string, string>>
+  /** Each record's item as compact text, in the same order; may stop short of records */
+  items?: string[]
+  /** max_items was reached, so the page may hold more */
+  limitReached?: boolean
+  error?: string
+}
+
+const DEFAULT_MAX_ITEMS = 100
+const MAX_ITEM_CHARS = 1500
+/** Total text handed to the model, across all items */
+const MAX_TEXT_CHARS = 40000
+const MAX_LABEL_CHARS = 40
+const MAX_VALUE_CHARS = 500
+
+const SKIP_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'CANVAS']
+const BLOCK_TAGS = [
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+  'TABLE', 'TD', 'TH', 'TR', 'UL',
+]
+
+type FieldKind = 'image' | 'url' | 'price' | 'date' | 'rating' | 'title'
+
+/** Words that mark a field as one of the kinds with a DOM fallback, checked in this order */
+const KIND_WORDS: Array<[FieldKind, string[]]> = [
+  ['image', ['image', 'img', 'photo', 'picture', 'thumbnail', 'logo']],
+  ['url', ['url', 'link', 'href', 'website']],
+  ['price', ['price', 'cost', 'amount']],
+  ['date', ['date', 'time', 'published', 'posted', 'updated']],
+  ['rating', ['rating', 'stars', 'score']],
+  ['title', ['title', 'name', 'heading', 'headline']],
+]
+
+const PRICE = /(?:[$€£¥₹]\s?\d[\d,.]*|\d[\d,.]*\s?(?:[€£]|USD|EUR|GBP))/
+const RATING = /(\d+(?:\.\d+)?)\s*(?:out of|\/|of)\s*\d+|(\d+(?:\.\d+)?)\s*stars?/i
+
+function normalizeText(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return normalized.length > MAX_VALUE_CHARS ? normalized.slice(0, MAX_VALUE_CHARS) : normalized
+}
+
+function textOf(element: Element): string {
+  return normalizeText((element as HTMLElement).innerText ?? element.textContent ?? '')
+}
+
+function ownText(element: Element): string {
+  return normalizeText(Array.from(element.childNodes)
+    .filter(node => node.nodeType === Node.TEXT_NODE)
+    .map(node => node.textContent)
+    .join(' '))
+}
+
+/** "productName", "product_name" and "Product name:" all become ['product', 'name'] */
+function words(text: string): string[] {
+  return text.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+}
+
+function fieldKind(field: ExtractField): FieldKind | null {
+  const fieldWords = words(field.name)
+  for (const [kind, kindWords] of KIND_WORDS) {
+    // "author_name" is not the item's title
+    if (kind === 'title' && fieldWords.length > 1) continue
+    if (fieldWords.some(word => kindWords.includes(word))) return kind
+  }
+  return null
+}
+
+/** How well a column name fits a field; 0 means not at all */
+function columnScore(field: ExtractField, column: string): number {
+  const fieldWords = words(field.name)
+  const columnWords = words(column)
+  if (fieldWords.join(' ') === columnWords.join(' ')) return 3
+  if (fieldWords.every(word => columnWords.includes(word))) return 2
+
+  const aliases = KIND_WORDS
+    .filter(([, kindWords]) => fieldWords.some(word => kindWords.includes(word)))
+    .flatMap(([, kindWords]) => kindWords)
+  return columnWords.some(word => aliases.includes(word)) ? 1 : 0
+}
+
+function bestColumn(field: ExtractField, columns: string[]): number {
+  let best = -1
+  let bestScore = 0
+  columns.forEach((column, i) => {
+    const score = columnScore(field, column)
+    if (score > bestScore) {
+      best = i
+      bestScore = score
+    }
+  })
+  return best
+}
+
+function itempropValue(scope: Element, field: ExtractField): string | undefined {
+  const wanted = words(field.name).join(' ')
+  const match = querySelectorAllDeep('[itemprop]', scope)
+    .find(element => (element.getAttribute('itemprop') ?? '').split(/\s+/).some(prop => words(prop).join(' ') === wanted))
+  if (!match) return undefined
+  return match.getAttribute('content') ||
+    match.getAttribute('datetime') ||
+    (match as HTMLAnchorElement).href ||
+    (match as HTMLImageElement).currentSrc ||
+    textOf(match) ||
+    undefined
+}
+
+/** Open Graph and product meta tags, for fields of a whole page */
+function metaValue(field: ExtractField): string | undefined {
+  const wanted = words(field.name).join(' ')
+  for (const meta of document.querySelectorAll('meta[property], meta[name]')) {
+    const key = meta.getAttribute('property') || meta.getAttribute('name') || ''
+    const name = words(key.replace(/^(og|product|article|twitter):/, '')).join(' ')
+    if (name === wanted || name === `${wanted} amount`) {
+      const content = meta.getAttribute('content')
+      if (content) return normalizeText(content)
+    }
+  }
+  return undefined
+}
+
+/** The value next to a label naming the field, like `<dt>Price</dt><dd>$12</dd>` or "SKU: 123" */
+function labeledValue(scope: Element, field: ExtractField): string | undefined {
+  const wanted = words(field.name).join(' ')
+  for (const label of querySelectorAllDeep('dt, th, label, strong, b, span, div, td', scope)) {
+    const text = ownText(label)
+    if (!text || text.length > MAX_LABEL_CHARS || words(text).join(' ') !== wanted) continue
+
+    const next = label.nextElementSibling
+    const value = next
+      ? textOf(next)
+      : normalizeText((label.parentElement?.textContent ?? '').replace(label.textContent ?? '', '').replace(/^\s*:/, ''))
+    if (value) return value
+  }
+  return undefined
+}
+
+function kindValue(scope: Element, kind: FieldKind): string | undefined {
+  switch (kind) {
+    case 'image': {
+      const image = querySelectorAllDeep('img', scope)[0] as HTMLImageElement | undefined
+      const src = image?.currentSrc || image?.src
+      return src && !src.startsWith('data:') ? src : undefined
+    }
+    case 'url': {
+      const link = scope.matches('a[href]') ? scope : querySelectorAllDeep('a[href]', scope)[0]
+      return (link as HTMLAnchorElement | undefined)?.href || undefined
+    }
+    case 'price':
+      return PRICE.exec(textOf(scope))?.[0]
+    case 'date': {
+      const time = querySelectorAllDeep('time', scope)[0]
+      return time ? time.getAttribute('datetime') || textOf(time) || undefined : undefined
+    }
+    case 'rating': {
+      for (const element of [scope, ...querySelectorAllDeep('[aria-label], [title]', scope)]) {
+        const label = element.getAttribute('aria-label') || element.getAttribute('title') || ''
+        const match = RATING.exec(label)
+        if (match) return match[1] ?? match[2]
+      }
+      const match = RATING.exec(textOf(scope))
+      return match ? match[1] ?? match[2] : undefined
+    }
+    case 'title': {
+      const heading = querySelectorAllDeep('h1, h2, h3, h4, h5, h6, [role="heading"]', scope)[0]
+      const link = querySelectorAllDeep('a[href]', scope)[0]
+      const text = heading ? textOf(heading) : link ? textOf(link) : ''
+      return text || undefined
+    }
+  }
+}
+
+/** Read one field from an item (or a whole page), most explicit markup first */
+function fieldValue(scope: Element, field: ExtractField, isPage: boolean): string | undefined {
+  const kind = fieldKind(field)
+  return itempropValue(scope, field) ??
+    (isPage ? metaValue(field) : undefined) ??
+    labeledValue(scope, field) ??
+    (kind ? kindValue(scope, kind) : undefined)
+}
+
+function composedChildNodes(element: Element): Node[] {
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.childNodes)
+  }
+  if (element.tagName.toLowerCase() === 'slot') {
+    const assigned = (element as HTMLSlotElement).assignedNodes({ flatten: true })
+    if (assigned.length > 0) return assigned
+  }
+  return Array.from(element.childNodes)
+}
+
+/**
+ * An element as compact text for the model: visible text with block
+ * breaks, links as [text](href) and images as ![alt](src). Markup, scripts
+ * and hidden content are left out.
+ */
+function renderCompact(element: Element, budget: number): string {
+  let output = ''
+
+  const visit = (node: Node) => {
+    if (output.length >= budget) return
+    if (node.nodeType === Node.TEXT_NODE) {
+      output += (node.textContent ?? '').replace(/\s+/g, ' ')
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const child = node as Element
+    const tag = child.tagName.toUpperCase()
+    if (SKIP_TAGS.includes(tag) || (child as HTMLElement).hidden) return
+    const style = window.getComputedStyle(child)
+    if (style.display === 'none' || style.visibility === 'hidden') return
+
+    if (tag === 'IMG') {
+      const image = child as HTMLImageElement
+      const src = image.currentSrc || image.src
+      if (src && !src.startsWith('data:')) output += ` ![${normalizeText(image.alt)}](${src}) `
+      return
+    }
+
+    const block = BLOCK_TAGS.includes(tag)
+    const href = tag === 'A' ? (child as HTMLAnchorElement).href : ''
+    if (block) output += '\n'
+    if (href) output += ' ['
+    for (const grandchild of composedChildNodes(child)) visit(grandchild)
+    if (href) output += `](${href}) `
+    if (block) output += '\n'
+  }
+
+  visit(element)
+  return output
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n\s*/g, '\n')
+    .trim()
+    .slice(0, budget)
+}
+
+function extractMany(root: Element | null, fields: ExtractField[], maxItems: number): ExtractDataResult {
+  const table = findTableLike(root, maxItems)
+  if (!table || table.rows.length === 0) {
+    return {
+      error: root
+        ? 'No repeated items found at that ref. Pass the ref of the element that holds the items, or set multiple to false.'
+        : 'No repeated items found on the page. Pass the ref of the element that holds them, or set multiple to false.',
+    }
+  }
+
+  const columns = fields.map(field => bestColumn(field, table.columns))
+  const records = table.rows.map((row, i) => {
+    const record: Record<string, string> = {}
+    fields.forEach((field, f) => {
+      const value = (columns[f] >= 0 ? row[columns[f]] : '') ||
+        (table.items?.[i] ? fieldValue(table.items[i], field, false) : undefined)
+      if (value) record[field.name] = value
+    })
+    return record
+  })
+
+  const items: string[] = []
+  let budget = MAX_TEXT_CHARS
+  for (let i = 0; i < table.rows.length && budget > 0; i++) {
+    const text = table.items?.[i]
+      ? renderCompact(table.items[i], Math.min(MAX_ITEM_CHARS, budget))
+      : table.columns.map((column, c) => table.rows[i][c] ? `${column}: ${table.rows[i][c]}` : '').filter(Boolean).join('\n')
+    items.push(text)
+    budget -= text.length
+  }
+
+  return {
+    ref: assignRef(table.element),
+    records,
+    items,
+    ...(table.rows.length >= maxItems && { limitReached: true }),
+  }
+}
+
+function extractOne(root: Element | null, fields: ExtractField[]): ExtractDataResult {
+  const scope = root ?? document.body
+  const record: Record<string, string> = {}
+  for (const field of fields) {
+    const value = fieldValue(scope, field, !root)
+    if (value) record[field.name] = value
+  }
+
+  return {
+    ...(root && { ref: assignRef(root) }),
+    records: [record],
+    items: [renderCompact(scope, MAX_TEXT_CHARS)],
+  }
+}
+
+export function handleExtractData(params: {
+  fields: ExtractField[]
+  multiple: boolean
+  ref?: string
+  max_items?: number
+}): ExtractDataResult {
+  const { fields, multiple, ref } = params
+  const maxItems = Math.max(params.max_items ?? DEFAULT_MAX_ITEMS, 1)
+
+  let root: Element | null = null
+  if (ref) {
+    root = getElementByRef(ref)
+    if (!root) {
+      return { error: `Element not found: ${ref}` }
+    }
+  }
+
+  return multiple ? extractMany(root, fields, maxItems) : extractOne(root, fields)
+}
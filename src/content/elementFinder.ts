@@ -1,5 +1,6 @@
 import { assignRef } from './elementRefs'
 import { getRole, getAccessibleName, isVisible, isInteractive } from './accessibilityTree'
+import { querySelectorAllDeep } from './shadowDom'
 
 interface SearchResult {
   element: Element
@@ -34,11 +35,8 @@ export function handleFindElements(params: { query: string }): {
 
   const searchStrategies: Array<() => SearchResult[]> = [
     () => {
-      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT)
       const matches: SearchResult[] = []
-      let node: Node | null
-      while ((node = walker.nextNode())) {
-        const el = node as Element
+      for (const el of querySelectorAllDeep('*', document.body)) {
         const text = (el.textContent || '').toLowerCase()
         if (text.includes(queryLower) && !seen.has(el)) {
           matches.push({ element: el, score: 3 })
@@ -49,7 +47,7 @@ export function handleFindElements(params: { query: string }): {
     },
 
     () => {
-      return Array.from(document.querySelectorAll('[aria-label]'))
+      return querySelectorAllDeep('[aria-label]')
         .filter(el => {
           const label = el.getAttribute('aria-label')
           return label && label.toLowerCase().includes(queryLower) && !seen.has(el)
@@ -61,7 +59,7 @@ export function handleFindElements(params: { query: string }): {
     },
 
     () => {
-      return Array.from(document.querySelectorAll('[placeholder]'))
+      return querySelectorAllDeep('[placeholder]')
         .filter(el => {
           const placeholder = (el as HTMLInputElement).placeholder
           return placeholder && placeholder.toLowerCase().includes(queryLower) && !seen.has(el)
@@ -73,7 +71,7 @@ export function handleFindElements(params: { query: string }): {
     },
 
     () => {
-      return Array.from(document.querySelectorAll('[title]'))
+      return querySelectorAllDeep('[title]')
         .filter(el => {
           const title = el.getAttribute('title')
           return title && title.toLowerCase().includes(queryLower) && !seen.has(el)
@@ -88,7 +86,7 @@ export function handleFindElements(params: { query: string }): {
       const roleKeywords = ['button', 'link', 'input', 'search', 'menu', 'dialog', 'tab', 'checkbox', 'radio']
       const matchedRole = roleKeywords.find(r => queryLower.includes(r))
       if (matchedRole) {
-        return Array.from(document.querySelectorAll(`[role="${matchedRole}"], ${matchedRole}`))
+        return querySelectorAllDeep(`[role="${matchedRole}"], ${matchedRole}`)
           .filter(el => !seen.has(el))
           .map(el => {
             seen.add(el)
@@ -0,0 +1,117 @@
+import type { ElementLocator } from '@shared/actionRecording'
+import { assignRef } from './elementRefs'
+import { getRole, getAccessibleName, isVisible } from './accessibilityTree'
+import { querySelectorAllDeep } from './shadowDom'
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'number', 'password', 'date', 'time', 'datetime-local', 'month', 'week']
+const MAX_TEXT_LENGTH = 80
+
+export function isTextEntry(element: Element): boolean {
+  const tagName = element.tagName.toLowerCase()
+  if (tagName === 'textarea') return true
+  if (tagName === 'input') {
+    return TEXT_INPUT_TYPES.includes((element as HTMLInputElement).type || 'text')
+  }
+  return (element as HTMLElement).isContentEditable
+}
+
+/**
+ * The label of a form field. getAccessibleName falls back to the current
+ * value for inputs and the selected option for selects, which would make
+ * the locator change with what the user typed or picked.
+ */
+function fieldLabel(element: Element): string {
+  const field = element as HTMLInputElement
+  const label = element.getAttribute('aria-label') ||
+    field.labels?.[0]?.textContent ||
+    element.getAttribute('placeholder') ||
+    element.getAttribute('title') ||
+    element.getAttribute('name') ||
+    ''
+  return label.trim()
+}
+
+export function getElementLocator(element: Element): ElementLocator {
+  const isField = isTextEntry(element) || element.tagName.toLowerCase() === 'select'
+  const name = (isField ? fieldLabel(element) : getAccessibleName(element)).replace(/\s+/g, ' ')
+  const locator: ElementLocator = { role: getRole(element), tag: element.tagName.toLowerCase() }
+  if (name) locator.name = name
+
+  if (!isField) {
+    const text = ((element as HTMLElement).innerText || element.textContent || '').replace(/\s+/g, ' ').trim()
+    if (text && text !== name) {
+      locator.text = text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text
+    }
+  }
+  return locator
+}
+
+function normalize(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/** How well a candidate's locator matches the wanted one; 0 means not at all */
+function matchScore(wanted: ElementLocator, found: ElementLocator): number {
+  const wantedName = normalize(wanted.name)
+  const wantedText = normalize(wanted.text)
+  const foundName = normalize(found.name)
+  const foundText = normalize(found.text)
+  let score = 0
+
+  if (wantedName) {
+    if (foundName === wantedName) score += 10
+    else if (foundText === wantedName) score += 6
+    else if (foundName && (foundName.includes(wantedName) || wantedName.includes(foundName))) score += 4
+  }
+  if (wantedText) {
+    if (foundText === wantedText) score += 6
+    else if (foundText && (foundText.includes(wantedText) || wantedText.includes(foundText))) score += 3
+  }
+  if ((wantedName || wantedText) && score === 0) return 0
+
+  return score + (found.tag === wanted.tag ? 1 : 0) + 1
+}
+
+export interface ResolveLocatorResult {
+  ref?: string
+  /** Other elements that matched equally well; the first in page order was picked */
+  ambiguous?: number
+  error?: string
+}
+
+/**
+ * Find the element a locator describes on the current page and give it a
+ * ref. Role must match exactly, name and text may match loosely, and
+ * hidden elements are skipped.
+ */
+export function handleResolveLocator(params: { locator: ElementLocator }): ResolveLocatorResult {
+  const { locator } = params
+  if (!locator?.role) {
+    return { error: 'locator.role is required' }
+  }
+
+  let best = null as Element | null
+  let bestScore = 0
+  let ties = 0
+
+  for (const element of querySelectorAllDeep('*', document.body)) {
+    if (getRole(element) !== locator.role) continue
+    const score = matchScore(locator, getElementLocator(element))
+    if (score === 0 || !isVisible(element)) continue
+    // Wrappers share their child's text; the innermost element is the one that was clicked
+    if (score > bestScore || (score === bestScore && best?.contains(element))) {
+      best = element
+      bestScore = score
+      ties = 0
+    } else if (score === bestScore) {
+      ties++
+    }
+  }
+
+  if (!best) {
+    const label = locator.name || locator.text
+    return { error: `No visible ${locator.role}${label ? ` matching "${label}"` : ''} on the page` }
+  }
+
+  return { ref: assignRef(best), ...(ties > 0 && { ambiguous: ties }) }
+}
@@ -1,4 +1,5 @@
 import { getElementByRef, assignRef } from './elementRefs'
+import { deepElementFromPoint, deepActiveElement } from './shadowDom'
 
 interface ModifierKeys {
   ctrl: boolean
@@ -30,9 +31,24 @@ interface ActionResult {
   ref?: string
   start?: [number, number]
   end?: [number, number]
+  /** Nothing on the page reacted, e.g. because the site ignores untrusted events */
+  noEffect?: boolean
   error?: string
 }
 
+/** How long to watch for a reaction to a synthetic event */
+const EFFECT_WINDOW_MS = 300
+
+/** Actions whose effect is checked; other actions change the page (or not) by themselves */
+const EFFECT_CHECKED_ACTIONS = ['left_click', 'right_click', 'double_click', 'triple_click', 'hover', 'left_click_drag', 'key']
+const CLICK_ACTIONS = ['left_click', 'right_click', 'double_click', 'triple_click']
+/**
+ * Clicks on these can work without any visible change (a checkbox only
+ * flips `checked`, a Save button waits on a slow request), so a trusted
+ * retry could undo or repeat them.
+ */
+const DEFAULT_ACTION_SELECTOR = 'a[href], button, input, select, textarea, label, summary, option, [contenteditable="true"], [onclick], [role="button"], [role="checkbox"], [role="radio"], [role="switch"], [role="menuitem"], [role="tab"], [role="link"]'
+
 function parseModifiers(modifiers?: string): ModifierKeys {
   const result: ModifierKeys = {
     ctrl: false,
@@ -72,7 +88,7 @@ function getTarget(params: ComputerActionParams): {
 
   if (params.coordinate && params.coordinate.length === 2) {
     const [x, y] = params.coordinate
-    const element = document.elementFromPoint(x, y)
+    const element = deepElementFromPoint(x, y)
     return { element, x, y }
   }
 
@@ -89,9 +105,11 @@ function handleClick(
   const button = action === 'right_click' ? 2 : 0
   const clickCount = action === 'double_click' ? 2 : action === 'triple_click' ? 3 : 1
 
+  // composed, like real input, so listeners outside a shadow root still see the event
   const eventInit: MouseEventInit = {
     bubbles: true,
     cancelable: true,
+    composed: true,
     view: window,
     clientX: x,
     clientY: y,
@@ -123,7 +141,7 @@ function handleClick(
 }
 
 function handleType(text: string, target: Element | null): ActionResult {
-  const typeTarget = target || document.activeElement
+  const typeTarget = target || deepActiveElement()
 
   if (!typeTarget) {
     return { error: 'No target element for type action' }
@@ -132,7 +150,7 @@ function handleType(text: string, target: Element | null): ActionResult {
   if ('value' in typeTarget) {
     const inputEl = typeTarget as HTMLInputElement
     inputEl.value += text
-    inputEl.dispatchEvent(new Event('input', { bubbles: true }))
+    inputEl.dispatchEvent(new Event('input', { bubbles: true, composed: true }))
   } else if ((typeTarget as HTMLElement).contentEditable === 'true') {
     const selection = window.getSelection()
     if (selection && selection.rangeCount > 0) {
@@ -140,6 +158,9 @@ function handleType(text: string, target: Element | null): ActionResult {
       range.insertNode(document.createTextNode(text))
       range.collapse(false)
     }
+  } else {
+    // Canvas apps and custom editors take keyboard input, not a value
+    return { success: true, action: 'type', text, noEffect: true }
   }
 
   return { success: true, action: 'type', text }
@@ -152,7 +173,7 @@ function handleKey(
   modifierKeys: ModifierKeys
 ): ActionResult {
   const keys = text.split(' ')
-  const keyTarget = target || document.activeElement || document.body
+  const keyTarget = target || deepActiveElement() || document.body
 
   for (let i = 0; i < repeat; i++) {
     for (const keySpec of keys) {
@@ -170,6 +191,7 @@ function handleKey(
         code: key,
         bubbles: true,
         cancelable: true,
+        composed: true,
         ...keyModifiers
       }))
 
@@ -178,6 +200,7 @@ function handleKey(
         code: key,
         bubbles: true,
         cancelable: true,
+        composed: true,
         ...keyModifiers
       }))
     }
@@ -229,6 +252,7 @@ function handleHover(target: Element, x: number, y: number): ActionResult {
   target.dispatchEvent(new MouseEvent('mouseover', {
     bubbles: true,
     cancelable: true,
+    composed: true,
     view: window,
     clientX: x,
     clientY: y
@@ -249,12 +273,13 @@ function handleDrag(
   startCoord: [number, number],
   endCoord: [number, number]
 ): ActionResult {
-  const startElement = document.elementFromPoint(startCoord[0], startCoord[1])
-  const endElement = document.elementFromPoint(endCoord[0], endCoord[1])
+  const startElement = deepElementFromPoint(startCoord[0], startCoord[1])
+  const endElement = deepElementFromPoint(endCoord[0], endCoord[1])
 
   if (startElement) {
     startElement.dispatchEvent(new MouseEvent('mousedown', {
       bubbles: true,
+      composed: true,
       clientX: startCoord[0],
       clientY: startCoord[1],
       button: 0
@@ -269,6 +294,7 @@ function handleDrag(
     const upTarget = endElement || document
     upTarget.dispatchEvent(new MouseEvent('mouseup', {
       bubbles: true,
+      composed: true,
       clientX: endCoord[0],
       clientY: endCoord[1],
       button: 0
@@ -353,3 +379,81 @@ export function handleComputerAction(params: ComputerActionParams): ActionResult
     return { error: (err as Error).message }
   }
 }
+
+/**
+ * Start watching for any sign that an action did something: DOM changes,
+ * scrolling, requests, navigation, and (for keys) focus moving.
+ * Resolves to whether anything happened.
+ */
+function watchForEffect(trackFocus: boolean): () => Promise<boolean> {
+  let changed = false
+  const onChange = () => { changed = true }
+
+  const mutations = new MutationObserver(onChange)
+  mutations.observe(document, { subtree: true, childList: true, attributes: true, characterData: true })
+  const requests = new PerformanceObserver(onChange)
+  requests.observe({ type: 'resource' })
+  window.addEventListener('scroll', onChange, true)
+  window.addEventListener('beforeunload', onChange)
+
+  const focus = deepActiveElement()
+  const url = window.location.href
+
+  return async () => {
+    await new Promise(resolve => setTimeout(resolve, EFFECT_WINDOW_MS))
+    mutations.disconnect()
+    requests.disconnect()
+    window.removeEventListener('scroll', onChange, true)
+    window.removeEventListener('beforeunload', onChange)
+    return changed ||
+      window.location.href !== url ||
+      (trackFocus && deepActiveElement() !== focus)
+  }
+}
+
+/**
+ * Run an action and mark the result `noEffect` when nothing on the page
+ * reacted, so the background can retry it with trusted input. Clicks on
+ * controls with a default action are never marked: no visible change
+ * doesn't prove they did nothing.
+ */
+export async function handleComputerActionChecked(params: ComputerActionParams): Promise<ActionResult> {
+  if (!EFFECT_CHECKED_ACTIONS.includes(params.action)) {
+    return handleComputerAction(params)
+  }
+
+  if (CLICK_ACTIONS.includes(params.action) && getTarget(params).element?.closest(DEFAULT_ACTION_SELECTOR)) {
+    return handleComputerAction(params)
+  }
+
+  const finish = watchForEffect(params.action === 'key')
+  const result = handleComputerAction(params)
+  const changed = await finish()
+  return result.error || changed ? result : { ...result, noEffect: true }
+}
+
+/**
+ * Where trusted input for a ref should land: the element's center in this
+ * frame's viewport, scrolled into view first. With `focus`, the element is
+ * focused so typed text goes to it.
+ */
+export function handleActionPoint(params: { ref: string; focus?: boolean }): { x?: number; y?: number; error?: string } {
+  const element = getElementByRef(params.ref)
+  if (!element) {
+    return { error: `Element not found: ${params.ref}` }
+  }
+
+  let rect = element.getBoundingClientRect()
+  if (rect.bottom < 0 || rect.top > window.innerHeight || rect.right < 0 || rect.left > window.innerWidth) {
+    element.scrollIntoView({ block: 'center', inline: 'center' })
+    rect = element.getBoundingClientRect()
+  }
+  if (params.focus && 'focus' in element && typeof element.focus === 'function') {
+    (element as HTMLElement).focus()
+  }
+
+  return {
+    x: Math.round(rect.x + rect.width / 2),
+    y: Math.round(rect.y + rect.height / 2)
+  }
+}
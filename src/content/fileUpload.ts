@@ -0,0 +1,174 @@
+import { getElementByRef } from './elementRefs'
+import { deepElementFromPoint, querySelectorAllDeep } from './shadowDom'
+
+interface UploadResult {
+  success?: boolean
+  method?: 'file_input' | 'drag_drop'
+  filename?: string
+  filenames?: string[]
+  /** Something the page may object to, such as a type outside the input's accept list */
+  warning?: string
+  error?: string
+}
+
+export interface UploadFileData {
+  dataUrl: string
+  filename: string
+  mediaType?: string
+}
+
+function dataUrlToFile(dataUrl: string, filename: string, mediaType?: string): File {
+  const [header, base64] = dataUrl.split(',')
+  const mimeMatch = header.match(/:(.*?);/)
+  const mime = mediaType || (mimeMatch ? mimeMatch[1] : 'image/png')
+  const binary = atob(base64)
+  const array = new Uint8Array(binary.length)
+
+  for (let i = 0; i < binary.length; i++) {
+    array[i] = binary.charCodeAt(i)
+  }
+
+  const blob = new Blob([array], { type: mime })
+  return new File([blob], filename, { type: mime })
+}
+
+function isFileInput(element: Element): element is HTMLInputElement {
+  return element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'file'
+}
+
+/**
+ * The file input behind a target. Upload buttons are often a label or a
+ * styled wrapper around a hidden input, so look through the label and
+ * inside the target before falling back to a drop.
+ */
+function findFileInput(target: Element): HTMLInputElement | null {
+  if (isFileInput(target)) return target
+
+  const label = target.closest('label')
+  if (label?.control && isFileInput(label.control)) return label.control
+
+  const [inner] = querySelectorAllDeep('input[type="file"]', target)
+  return (inner as HTMLInputElement | undefined) ?? null
+}
+
+function findTarget(ref?: string, coordinate?: [number, number]): Element | null {
+  if (ref) return getElementByRef(ref)
+  if (coordinate && coordinate.length === 2) return deepElementFromPoint(coordinate[0], coordinate[1])
+  return null
+}
+
+/** Whether a file fits an input's accept list (".pdf", "image/*", "application/pdf") */
+function isAccepted(file: File, accept: string): boolean {
+  const rules = accept.split(',').map(rule => rule.trim().toLowerCase()).filter(Boolean)
+  if (rules.length === 0) return true
+
+  const name = file.name.toLowerCase()
+  const type = file.type.toLowerCase()
+  return rules.some(rule => {
+    if (rule.startsWith('.')) return name.endsWith(rule)
+    if (rule.endsWith('/*')) return type.startsWith(rule.slice(0, -1))
+    return type === rule
+  })
+}
+
+function setInputFiles(input: HTMLInputElement, files: File[]): UploadResult {
+  const rejected = input.accept ? files.filter(file => !isAccepted(file, input.accept)) : []
+  const dataTransfer = new DataTransfer()
+  for (const file of input.multiple ? files : files.slice(0, 1)) {
+    dataTransfer.items.add(file)
+  }
+
+  input.files = dataTransfer.files
+  input.dispatchEvent(new Event('input', { bubbles: true, composed: true }))
+  input.dispatchEvent(new Event('change', { bubbles: true }))
+
+  const warnings = [
+    ...(rejected.length > 0 ? [`the input accepts "${input.accept}", which may not include ${rejected.map(file => file.name).join(', ')}`] : []),
+    ...(!input.multiple && files.length > 1 ? [`the input takes one file; only ${files[0].name} was set`] : []),
+  ]
+  return {
+    success: true,
+    method: 'file_input',
+    filenames: Array.from(dataTransfer.files).map(file => file.name),
+    ...(warnings.length > 0 && { warning: warnings.join('; ') }),
+  }
+}
+
+/** Drag-and-drop zones check dataTransfer on dragenter/dragover too, so every event carries the files */
+function dropFiles(target: Element, files: File[]): UploadResult {
+  const rect = target.getBoundingClientRect()
+  const point = { clientX: rect.x + rect.width / 2, clientY: rect.y + rect.height / 2 }
+  const dataTransfer = new DataTransfer()
+  for (const file of files) {
+    dataTransfer.items.add(file)
+  }
+
+  for (const type of ['dragenter', 'dragover', 'drop']) {
+    target.dispatchEvent(new DragEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      dataTransfer,
+      ...point
+    }))
+  }
+
+  return { success: true, method: 'drag_drop', filenames: files.map(file => file.name) }
+}
+
+export function handleUploadImage(params: {
+  dataUrl: string
+  ref?: string
+  coordinate?: [number, number]
+  filename?: string
+}): UploadResult {
+  const { dataUrl, ref, coordinate, filename = 'image.png' } = params
+
+  try {
+    const file = dataUrlToFile(dataUrl, filename)
+    const targetElement = findTarget(ref, coordinate)
+
+    if (!targetElement) {
+      return { error: 'Target element not found' }
+    }
+
+    const result = isFileInput(targetElement)
+      ? setInputFiles(targetElement, [file])
+      : dropFiles(targetElement, [file])
+    return { success: result.success, method: result.method, filename }
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
+
+/**
+ * Put files on a file input or drop them on a drop zone. A target that
+ * wraps or labels a file input gets its files set directly.
+ */
+export function handleUploadFile(params: {
+  files: UploadFileData[]
+  ref?: string
+  coordinate?: [number, number]
+}): UploadResult {
+  const { files, ref, coordinate } = params
+
+  try {
+    if (!files?.length) {
+      return { error: 'No files to upload' }
+    }
+
+    const targetElement = findTarget(ref, coordinate)
+    if (!targetElement) {
+      return { error: 'Target element not found' }
+    }
+
+    const fileObjects = files.map(file => dataUrlToFile(file.dataUrl, file.filename, file.mediaType))
+    const input = findFileInput(targetElement)
+    if (input?.disabled) {
+      return { error: 'The file input is disabled' }
+    }
+    return input ? setInputFiles(input, fileObjects) : dropFiles(targetElement, fileObjects)
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
@@ -1,4 +1,5 @@
 import { getElementByRef } from './elementRefs'
+import { deepElementFromPoint } from './shadowDom'
 
 interface FormInputResult {
   success?: boolean
@@ -35,19 +36,22 @@ export function handleFormInput(params: {
       selectEl.dispatchEvent(new Event('change', { bubbles: true }))
     } else if (inputType === 'checkbox' || inputType === 'radio') {
       const inputEl = element as HTMLInputElement
-      inputEl.checked = Boolean(value)
+      // Values arrive as strings after tool param validation, so "false" must not count as checked
+      inputEl.checked = typeof value === 'string'
+        ? !['false', '0', 'off', 'no', ''].includes(value.trim().toLowerCase())
+        : Boolean(value)
       inputEl.dispatchEvent(new Event('change', { bubbles: true }))
     } else if (tagName === 'input' || tagName === 'textarea') {
       const inputEl = element as HTMLInputElement | HTMLTextAreaElement
       inputEl.focus()
       inputEl.value = String(value)
-      inputEl.dispatchEvent(new Event('input', { bubbles: true }))
+      inputEl.dispatchEvent(new Event('input', { bubbles: true, composed: true }))
       inputEl.dispatchEvent(new Event('change', { bubbles: true }))
     } else if ((element as HTMLElement).contentEditable === 'true') {
       const editableEl = element as HTMLElement
       editableEl.focus()
       editableEl.textContent = String(value)
-      editableEl.dispatchEvent(new Event('input', { bubbles: true }))
+      editableEl.dispatchEvent(new Event('input', { bubbles: true, composed: true }))
     } else {
       return { error: `Element is not a form input: ${tagName}` }
     }
@@ -57,3 +61,51 @@ export function handleFormInput(params: {
     return { error: (err as Error).message }
   }
 }
+
+interface DescribeElementResult {
+  found: boolean
+  tagName?: string
+  type?: string
+  isSubmit?: boolean
+  href?: string
+  text?: string
+}
+
+/** Whether activating this element submits a form (submit buttons and image inputs) */
+function isSubmitControl(element: Element): boolean {
+  const control = element.closest('button, input[type="submit"], input[type="image"]')
+  if (!control) return false
+  if (control.tagName.toLowerCase() === 'input') return true
+
+  const button = control as HTMLButtonElement
+  return button.type === 'submit' && !!button.form
+}
+
+export function handleDescribeElement(params: {
+  ref?: string
+  coordinate?: [number, number]
+}): DescribeElementResult {
+  const { ref, coordinate } = params
+
+  const element = ref
+    ? getElementByRef(ref)
+    : coordinate
+      ? deepElementFromPoint(coordinate[0], coordinate[1])
+      : null
+
+  if (!element) {
+    return { found: false }
+  }
+
+  const text = (element as HTMLInputElement).value || element.textContent || ''
+  const link = element.closest('a[href]') as HTMLAnchorElement | null
+
+  return {
+    found: true,
+    tagName: element.tagName.toLowerCase(),
+    type: (element as HTMLInputElement).type?.toLowerCase(),
+    isSubmit: isSubmitControl(element),
+    href: link?.href || undefined,
+    text: text.trim().slice(0, 100),
+  }
+}
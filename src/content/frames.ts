@@ -0,0 +1,76 @@
+import { TOP_FRAME_ID } from '@shared/frames'
+import { deepElementFromPoint, deepActiveElement, querySelectorAllDeep } from './shadowDom'
+
+// chrome.runtime.getFrameId (Chrome 106+) is not in @types/chrome yet
+const runtime = chrome.runtime as typeof chrome.runtime & {
+  getFrameId(target: Element | Window): number
+}
+
+let currentFrameId = TOP_FRAME_ID
+
+/** Every message the background routes to a frame carries that frame's ID */
+export function setCurrentFrameId(frameId: number): void {
+  currentFrameId = frameId
+}
+
+export function getCurrentFrameId(): number {
+  return currentFrameId
+}
+
+export function isFrameElement(element: Element): boolean {
+  const tagName = element.tagName.toLowerCase()
+  return tagName === 'iframe' || tagName === 'frame'
+}
+
+/** The frame ID of the document inside an iframe, or -1 if it has none the extension can reach */
+export function getChildFrameId(element: Element): number {
+  try {
+    return runtime.getFrameId(element)
+  } catch {
+    return -1
+  }
+}
+
+/** Where an iframe's viewport starts, in this frame's viewport */
+function contentOffset(frame: Element): { x: number; y: number } {
+  const rect = frame.getBoundingClientRect()
+  const style = window.getComputedStyle(frame)
+  return {
+    x: Math.round(rect.left + frame.clientLeft + parseFloat(style.paddingLeft || '0')),
+    y: Math.round(rect.top + frame.clientTop + parseFloat(style.paddingTop || '0')),
+  }
+}
+
+export interface FrameTargetResult {
+  frameId?: number
+  coordinate?: [number, number]
+}
+
+/**
+ * Whether an action lands inside a child frame: at `coordinate` if given,
+ * otherwise at the focused element. Returns the child's ID and the point in
+ * the child's own viewport, or nothing when the target is in this frame.
+ */
+export function handleFrameTarget(params: { coordinate?: [number, number] }): FrameTargetResult {
+  const { coordinate } = params
+  const element = coordinate
+    ? deepElementFromPoint(coordinate[0], coordinate[1])
+    : deepActiveElement()
+  if (!element || !isFrameElement(element)) return {}
+
+  const frameId = getChildFrameId(element)
+  if (frameId < 0) return {}
+  if (!coordinate) return { frameId }
+
+  const offset = contentOffset(element)
+  return { frameId, coordinate: [coordinate[0] - offset.x, coordinate[1] - offset.y] }
+}
+
+export function handleFrameOffset(params: { childFrameId: number }): { x?: number; y?: number; error?: string } {
+  for (const element of querySelectorAllDeep('iframe, frame')) {
+    if (getChildFrameId(element) === params.childFrameId) {
+      return contentOffset(element)
+    }
+  }
+  return { error: `Frame ${params.childFrameId} is not embedded in this page` }
+}
@@ -1,13 +1,19 @@
 console.log('[Bouno:content] Content script file executing...')
 
 import { MessageTypes } from '@shared/messages'
+import type { ElementLocator } from '@shared/actionRecording'
 import { handleReadPage, handleGetPageText } from './accessibilityTree'
 import { handleFindElements } from './elementFinder'
-import { handleFormInput } from './formHandler'
-import { handleComputerAction } from './eventSimulator'
+import { handleResolveLocator } from './elementLocator'
+import { handleExtractTable } from './tableExtractor'
+import { handleExtractData } from './dataExtractor'
+import { handleFormInput, handleDescribeElement } from './formHandler'
+import { handleComputerAction, handleComputerActionChecked, handleActionPoint } from './eventSimulator'
 import { setupConsoleCapture, getConsoleMessages, clearConsoleMessages } from './consoleCapture'
-import { handleUploadImage } from './imageUpload'
+import { handleUploadImage, handleUploadFile } from './fileUpload'
 import { setScreenGlow } from './screenGlow'
+import { startActionRecorder, stopActionRecorder } from './actionRecorder'
+import { setCurrentFrameId, handleFrameTarget, handleFrameOffset } from './frames'
 
 console.log('[Bouno:content] All imports successful')
 
@@ -39,19 +45,59 @@ const handlers: Record<string, MessageHandler> = {
     return handleFindElements({ query })
   },
 
+  [MessageTypes.RESOLVE_LOCATOR]: (message) => {
+    const { locator } = message as { locator: ElementLocator }
+    return handleResolveLocator({ locator })
+  },
+
+  [MessageTypes.EXTRACT_TABLE]: (message) => {
+    const { ref, index, max_rows } = message as { ref?: string; index?: number; max_rows?: number }
+    return handleExtractTable({ ref, index, max_rows })
+  },
+
+  [MessageTypes.EXTRACT_DATA]: (message) => {
+    const { fields, multiple, ref, max_items } = message as Parameters<typeof handleExtractData>[0]
+    return handleExtractData({ fields, multiple, ref, max_items })
+  },
+
+  [MessageTypes.FRAME_TARGET]: (message) => {
+    const { coordinate } = message as { coordinate?: [number, number] }
+    return handleFrameTarget({ coordinate })
+  },
+
+  [MessageTypes.FRAME_OFFSET]: (message) => {
+    const { childFrameId } = message as { childFrameId: number }
+    return handleFrameOffset({ childFrameId })
+  },
+
   [MessageTypes.FORM_INPUT]: (message) => {
     const { ref, value } = message as { ref: string; value: string | boolean | number }
     return handleFormInput({ ref, value })
   },
 
+  [MessageTypes.DESCRIBE_ELEMENT]: (message) => {
+    const { ref, coordinate } = message as { ref?: string; coordinate?: [number, number] }
+    return handleDescribeElement({ ref, coordinate })
+  },
+
   [MessageTypes.COMPUTER_ACTION]: (message) => {
-    return handleComputerAction(message as Parameters<typeof handleComputerAction>[0])
+    const params = message as Parameters<typeof handleComputerAction>[0] & { checkEffect?: boolean }
+    return params.checkEffect ? handleComputerActionChecked(params) : handleComputerAction(params)
+  },
+
+  [MessageTypes.ACTION_POINT]: (message) => {
+    const { ref, focus } = message as { ref: string; focus?: boolean }
+    return handleActionPoint({ ref, focus })
   },
 
   [MessageTypes.UPLOAD_IMAGE]: (message) => {
     return handleUploadImage(message as Parameters<typeof handleUploadImage>[0])
   },
 
+  [MessageTypes.UPLOAD_FILE]: (message) => {
+    return handleUploadFile(message as Parameters<typeof handleUploadFile>[0])
+  },
+
   [MessageTypes.GET_CONSOLE_MESSAGES]: () => {
     return { messages: getConsoleMessages() }
   },
@@ -102,22 +148,38 @@ const handlers: Record<string, MessageHandler> = {
     const { active } = message as { active: boolean }
     setScreenGlow(active)
     return { success: true }
+  },
+
+  [MessageTypes.RECORDER_START]: () => {
+    return startActionRecorder()
+  },
+
+  [MessageTypes.RECORDER_STOP]: () => {
+    return stopActionRecorder()
   }
 }
 
 console.log('[Bouno:content] Setting up message listener...')
 try {
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-    const { type } = message as { type: string }
+    const { type, frameId } = message as { type: string; frameId?: number }
     console.log('[Bouno:content] Message received:', type)
 
+    if (typeof frameId === 'number') {
+      setCurrentFrameId(frameId)
+    }
+
     const handler = handlers[type]
     if (handler) {
       try {
         console.log('[Bouno:content] Executing handler for:', type)
         const result = handler(message)
         console.log('[Bouno:content] Handler result:', typeof result)
-        sendResponse(result)
+        if (result instanceof Promise) {
+          result.then(sendResponse, (err) => sendResponse({ error: (err as Error).message }))
+        } else {
+          sendResponse(result)
+        }
       } catch (err) {
         console.error('[Bouno:content] Handler error:', err)
         sendResponse({ error: (err as Error).message })
@@ -144,4 +206,14 @@ chrome.runtime.sendMessage({
   console.log('[Bouno:content] Ready notification failed (normal if background not ready):', err?.message)
 })
 
+// Keep recording across page loads while Record mode is on for this tab.
+// Only the top frame records.
+if (window === window.top) {
+  chrome.runtime.sendMessage({ type: MessageTypes.RECORDER_STATUS }).then((response) => {
+    if ((response as { recording?: boolean } | undefined)?.recording) {
+      startActionRecorder()
+    }
+  }).catch(() => {})
+}
+
 console.log('[Bouno:content] Content script initialization complete')
@@ -0,0 +1,61 @@
+/**
+ * Open shadow roots
+ *
+ * Web components keep their controls inside shadow roots, which
+ * document-level queries, `children` and `elementFromPoint` don't enter.
+ * These helpers do. Closed shadow roots stay out of reach.
+ */
+
+/**
+ * The children an element renders: a shadow host's shadow root, a slot's
+ * assigned elements (or its fallback content), otherwise its own children.
+ */
+export function getComposedChildren(element: Element): Element[] {
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.children)
+  }
+  if (element.tagName.toLowerCase() === 'slot') {
+    const assigned = (element as HTMLSlotElement).assignedElements({ flatten: true })
+    if (assigned.length > 0) return assigned
+  }
+  return Array.from(element.children)
+}
+
+/** querySelectorAll that also searches open shadow roots, in document order */
+export function querySelectorAllDeep(selector: string, root: ParentNode = document): Element[] {
+  const results: Element[] = []
+  const visit = (node: ParentNode) => {
+    for (const element of node.querySelectorAll('*')) {
+      if (element.matches(selector)) results.push(element)
+      if (element.shadowRoot) visit(element.shadowRoot)
+    }
+  }
+  visit(root)
+  return results
+}
+
+/** elementFromPoint that descends into shadow roots instead of stopping at the host */
+export function deepElementFromPoint(x: number, y: number): Element | null {
+  let element = document.elementFromPoint(x, y)
+  while (element?.shadowRoot) {
+    const inner = element.shadowRoot.elementFromPoint(x, y)
+    if (!inner || inner === element) break
+    element = inner
+  }
+  return element
+}
+
+/** The focused element, inside shadow roots rather than their host */
+export function deepActiveElement(): Element | null {
+  let element = document.activeElement
+  while (element?.shadowRoot?.activeElement) {
+    element = element.shadowRoot.activeElement
+  }
+  return element
+}
+
+/** The element an event started on; `event.target` is retargeted to the host outside a shadow root */
+export function eventOrigin(event: Event): Element | null {
+  const origin = event.composedPath()[0]
+  return origin instanceof Element ? origin : null
+}
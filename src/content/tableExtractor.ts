@@ -0,0 +1,468 @@
+/**
+ * Table extraction
+ *
+ * Turns `<table>`s, ARIA grids and repeated card/list layouts into rows and
+ * columns. Without a ref, the page's largest table-like structure is
+ * picked and the others are listed so the model can ask for one by index.
+ */
+
+import { assignRef, getElementByRef } from './elementRefs'
+import { getAccessibleName, isVisible } from './accessibilityTree'
+import { querySelectorAllDeep, getComposedChildren } from './shadowDom'
+
+export type TableKind = 'table' | 'grid' | 'list'
+
+export interface ExtractedTable {
+  kind: TableKind
+  element: Element
+  caption?: string
+  columns: string[]
+  rows: string[][]
+  headerDetected: boolean
+  /** Rows the page says exist, for grids that only render what is on screen */
+  totalRows?: number
+}
+
+interface PaginationHints {
+  next?: { ref: string; text: string }
+  loadMore?: { ref: string; text: string }
+  currentPage?: string
+  note?: string
+}
+
+interface Candidate {
+  kind: TableKind
+  element: Element
+  /** Rough size, used to pick the main table */
+  cells: number
+}
+
+export interface ExtractTableResult {
+  kind?: TableKind
+  ref?: string
+  caption?: string
+  columns?: string[]
+  rows?: string[][]
+  rowCount?: number
+  truncated?: boolean
+  headerDetected?: boolean
+  pagination?: PaginationHints
+  /** Other tables on the page, pickable with `index` */
+  others?: Array<{ index: number; kind: TableKind; ref: string; rows: number; columns: number; caption?: string }>
+  error?: string
+}
+
+const DEFAULT_MAX_ROWS = 1000
+const MAX_CELL_CHARS = 500
+const MIN_LIST_ITEMS = 3
+/** A list field must appear in this share of items to become a column */
+const MIN_FIELD_SHARE = 0.4
+const GRID_SELECTOR = '[role="grid"], [role="treegrid"], [role="table"]'
+const CELL_ROLES = ['cell', 'gridcell', 'columnheader', 'rowheader']
+const NEXT_TEXT = /^(next|next page|older|›|»|>|→)$/i
+const LOAD_MORE_TEXT = /^(load|show|view|see) more( results| items)?$/i
+
+function normalizeText(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return normalized.length > MAX_CELL_CHARS ? normalized.slice(0, MAX_CELL_CHARS) : normalized
+}
+
+function cellText(cell: Element): string {
+  const text = normalizeText((cell as HTMLElement).innerText ?? cell.textContent ?? '')
+  if (text) return text
+
+  const control = cell.querySelector('input, select, textarea') as HTMLInputElement | null
+  if (control) {
+    return control.type === 'checkbox' || control.type === 'radio' ? String(control.checked) : normalizeText(control.value)
+  }
+  const image = cell.querySelector('img[alt]')
+  return image ? normalizeText(image.getAttribute('alt') || '') : ''
+}
+
+function isHiddenRow(row: Element): boolean {
+  return (row as HTMLElement).hidden || window.getComputedStyle(row).display === 'none'
+}
+
+const NUMERIC = /^[-+]?[$€£¥]?\s?[\d.,]+\s?%?$/
+
+/**
+ * Whether a table's first row is a header that wasn't marked up as one:
+ * every cell is filled in, none is a number, and the rows below have numbers
+ * in at least one of those columns.
+ */
+function looksLikeHeader(first: string[], rest: string[][]): boolean {
+  if (rest.length === 0 || first.some(cell => !cell || NUMERIC.test(cell))) return false
+  return first.some((_, column) => rest.slice(0, 5).some(row => NUMERIC.test(row[column] ?? '')))
+}
+
+function columnNames(headerRows: string[][], width: number): string[] {
+  const names: string[] = []
+  for (let column = 0; column < width; column++) {
+    const parts = headerRows.map(row => row[column]).filter(Boolean)
+    const distinct = parts.filter((part, i) => parts.indexOf(part) === i)
+    names.push(distinct.join(' / ') || `Column ${column + 1}`)
+  }
+  return names
+}
+
+/** Lay out a table's cells on a grid, repeating spanned cells so every row has every column */
+function extractHtmlTable(table: HTMLTableElement, maxRows: number): ExtractedTable {
+  const grid: string[][] = []
+  const isHeaderRow: boolean[] = []
+  const pending: Array<{ text: string; rowsLeft: number } | undefined> = []
+
+  for (const row of Array.from(table.rows)) {
+    if (row.closest('table') !== table || isHiddenRow(row)) continue
+    if (grid.length > maxRows + 5) break
+
+    const values: string[] = []
+    let column = 0
+    const fillSpanned = () => {
+      while (pending[column]?.rowsLeft) {
+        values[column] = pending[column]!.text
+        pending[column]!.rowsLeft--
+        column++
+      }
+    }
+
+    for (const cell of Array.from(row.cells)) {
+      fillSpanned()
+      const text = cellText(cell)
+      const colSpan = Math.min(Math.max(cell.colSpan, 1), 100)
+      const rowSpan = Math.min(cell.rowSpan || 1, 1000)
+      for (let i = 0; i < colSpan; i++) {
+        values[column] = text
+        pending[column] = rowSpan > 1 ? { text, rowsLeft: rowSpan - 1 } : undefined
+        column++
+      }
+    }
+    fillSpanned()
+
+    grid.push(Array.from(values, value => value ?? ''))
+    isHeaderRow.push(row.parentElement?.tagName === 'THEAD' ||
+      (row.cells.length > 0 && Array.from(row.cells).every(cell => cell.tagName === 'TH')))
+  }
+
+  const width = Math.max(0, ...grid.map(row => row.length))
+  let headerCount = 0
+  while (headerCount < grid.length - 1 && isHeaderRow[headerCount]) headerCount++
+  if (headerCount === 0 && looksLikeHeader(grid[0] ?? [], grid.slice(1))) headerCount = 1
+
+  const caption = table.caption ? cellText(table.caption) : getAccessibleName(table)
+  return {
+    kind: 'table',
+    element: table,
+    ...(caption && { caption }),
+    columns: columnNames(grid.slice(0, headerCount), width),
+    rows: grid.slice(headerCount).map(row => [...row, ...Array(width - row.length).fill('')]),
+    headerDetected: headerCount > 0,
+  }
+}
+
+function extractAriaGrid(grid: Element, maxRows: number): ExtractedTable {
+  const rows = querySelectorAllDeep('[role="row"]', grid)
+    .filter(row => row.closest(GRID_SELECTOR) === grid)
+    .slice(0, maxRows + 5)
+
+  const headerRows: string[][] = []
+  const bodyRows: string[][] = []
+  for (const row of rows) {
+    const cells = querySelectorAllDeep(CELL_ROLES.map(role => `[role="${role}"]`).join(', '), row)
+      .filter(cell => cell.closest('[role="row"]') === row)
+    if (cells.length === 0) continue
+
+    const values: string[] = []
+    cells.forEach((cell, i) => {
+      // Virtualized grids skip columns; aria-colindex says where a cell belongs
+      const index = Number(cell.getAttribute('aria-colindex')) - 1
+      values[index >= 0 ? index : i] = cellText(cell)
+    })
+    const filled = Array.from(values, value => value ?? '')
+    const isHeader = cells.every(cell => cell.getAttribute('role') === 'columnheader')
+    if (isHeader && bodyRows.length === 0) headerRows.push(filled)
+    else bodyRows.push(filled)
+  }
+
+  const width = Math.max(0, ...headerRows.map(row => row.length), ...bodyRows.map(row => row.length))
+  const totalRows = Number(grid.getAttribute('aria-rowcount'))
+  const caption = getAccessibleName(grid)
+  return {
+    kind: 'grid',
+    element: grid,
+    ...(caption && { caption }),
+    columns: columnNames(headerRows, width),
+    rows: bodyRows.map(row => [...row, ...Array(width - row.length).fill('')]),
+    headerDetected: headerRows.length > 0,
+    ...(totalRows > 0 && { totalRows: totalRows - headerRows.length }),
+  }
+}
+
+/** Tag plus classes: repeated cards share it */
+function signature(element: Element): string {
+  const classes = Array.from(element.classList).filter(name => !/\d/.test(name)).sort().slice(0, 3)
+  return [element.tagName.toLowerCase(), ...classes].join('.')
+}
+
+/** The largest group of a container's visible children that look alike */
+function repeatedChildren(container: Element): Element[] {
+  const groups = new Map<string, Element[]>()
+  for (const child of getComposedChildren(container)) {
+    if (['SCRIPT', 'STYLE', 'TEMPLATE'].includes(child.tagName)) continue
+    const key = signature(child)
+    groups.set(key, [...(groups.get(key) ?? []), child])
+  }
+
+  let best: Element[] = []
+  for (const group of groups.values()) {
+    if (group.length > best.length) best = group
+  }
+  const visible = best.filter(item => isVisible(item) && cellText(item))
+  return visible.length >= MIN_LIST_ITEMS ? visible : []
+}
+
+/** A name for a list field, from what the markup says it is */
+function fieldName(element: Element, fallback: string): string {
+  const hint = element.getAttribute('itemprop') ||
+    element.getAttribute('data-field') ||
+    element.getAttribute('data-testid') ||
+    element.getAttribute('aria-label') ||
+    Array.from(element.classList).find(name => /[a-z]{3,}/i.test(name) && !/\d/.test(name))
+  return hint ? normalizeText(hint).slice(0, 40) : fallback
+}
+
+/**
+ * Turn repeated cards into rows. Each text-bearing element inside an item
+ * is keyed by its path from the item, so the same slot in every card lands
+ * in the same column. Slots missing from most items are dropped.
+ */
+function extractList(container: Element, items: Element[], maxRows: number): ExtractedTable {
+  const order: string[] = []
+  const names = new Map<string, string>()
+  const records: Array<Map<string, string>> = []
+
+  for (const item of items.slice(0, maxRows + 5)) {
+    const record = new Map<string, string>()
+    const visit = (element: Element, path: string) => {
+      const ownText = normalizeText(Array.from(element.childNodes)
+        .filter(node => node.nodeType === Node.TEXT_NODE)
+        .map(node => node.textContent)
+        .join(' '))
+      if (ownText && !record.has(path)) {
+        record.set(path, ownText)
+        if (!names.has(path)) {
+          order.push(path)
+          names.set(path, fieldName(element, `field_${order.length}`))
+        }
+      }
+      const counts = new Map<string, number>()
+      for (const child of getComposedChildren(element)) {
+        if (['SCRIPT', 'STYLE', 'SVG'].includes(child.tagName.toUpperCase())) continue
+        const key = signature(child)
+        const n = (counts.get(key) ?? 0) + 1
+        counts.set(key, n)
+        visit(child, `${path}>${key}:${n}`)
+      }
+    }
+    visit(item, '')
+
+    const link = item.matches('a[href]') ? item : item.querySelector('a[href]')
+    if (link) {
+      record.set('@link', (link as HTMLAnchorElement).href)
+      if (!names.has('@link')) {
+        order.push('@link')
+        names.set('@link', 'link')
+      }
+    }
+    records.push(record)
+  }
+
+  const threshold = Math.max(2, Math.ceil(records.length * MIN_FIELD_SHARE))
+  const kept = order.filter(path => records.filter(record => record.has(path)).length >= threshold)
+
+  // Keep names unique so columns stay addressable
+  const seen = new Map<string, number>()
+  const columns = kept.map(path => {
+    const name = names.get(path)!
+    const count = (seen.get(name) ?? 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name}_${count}` : name
+  })
+
+  const caption = getAccessibleName(container)
+  return {
+    kind: 'list',
+    element: container,
+    ...(caption && { caption }),
+    columns,
+    rows: records.map(record => kept.map(path => record.get(path) ?? '')),
+    headerDetected: false,
+  }
+}
+
+/** Every table-like structure on the page, biggest first */
+function findCandidates(root: Element): Candidate[] {
+  const candidates: Candidate[] = []
+
+  for (const table of querySelectorAllDeep('table', root) as HTMLTableElement[]) {
+    if (!isVisible(table) || table.getAttribute('role') === 'presentation') continue
+    const rows = table.rows.length
+    const columns = Math.max(0, ...Array.from(table.rows).slice(0, 5).map(row => row.cells.length))
+    // Layout tables have one column or one row
+    if (rows >= 2 && columns >= 2) candidates.push({ kind: 'table', element: table, cells: rows * columns })
+  }
+
+  for (const grid of querySelectorAllDeep(GRID_SELECTOR, root)) {
+    if (grid.tagName === 'TABLE' || !isVisible(grid)) continue
+    const rows = querySelectorAllDeep('[role="row"]', grid).length
+    if (rows >= 2) candidates.push({ kind: 'grid', element: grid, cells: rows * 2 })
+  }
+
+  const tables = [...candidates]
+  const inTable = (element: Element) => tables.some(candidate => candidate.element.contains(element))
+  // The body's own children are page sections, not a list
+  const containers = root === document.body ? querySelectorAllDeep('*', root) : [root, ...querySelectorAllDeep('*', root)]
+  for (const container of containers) {
+    if (container.childElementCount < MIN_LIST_ITEMS && !container.shadowRoot) continue
+    if (['TABLE', 'TBODY', 'THEAD', 'TR', 'SELECT', 'HEAD'].includes(container.tagName) || inTable(container)) continue
+    const items = repeatedChildren(container)
+    if (items.length === 0) continue
+    const fields = Math.min(10, new Set(querySelectorAllDeep('*', items[0]).map(signature)).size)
+    // A nav bar is repeated too, but its items have one field each
+    if (fields >= 2) candidates.push({ kind: 'list', element: container, cells: items.length * fields })
+  }
+
+  // A list nested inside another list candidate is usually one of its cards
+  const filtered = candidates.filter(candidate => candidate.kind !== 'list' ||
+    !candidates.some(other => other !== candidate && other.kind === 'list' && other.element.contains(candidate.element) && other.cells >= candidate.cells))
+
+  return filtered.sort((a, b) => b.cells - a.cells)
+}
+
+function extract(candidate: Candidate, maxRows: number): ExtractedTable {
+  switch (candidate.kind) {
+    case 'table':
+      return extractHtmlTable(candidate.element as HTMLTableElement, maxRows)
+    case 'grid':
+      return extractAriaGrid(candidate.element, maxRows)
+    case 'list':
+      return extractList(candidate.element, repeatedChildren(candidate.element), maxRows)
+  }
+}
+
+/** The structure a ref points at: the table or grid it is in, or the list it holds */
+function candidateForElement(element: Element): Candidate | null {
+  const table = element.closest('table')
+  if (table) return { kind: 'table', element: table, cells: 0 }
+  const grid = element.closest(GRID_SELECTOR)
+  if (grid) return { kind: 'grid', element: grid, cells: 0 }
+  if (repeatedChildren(element).length > 0) return { kind: 'list', element, cells: 0 }
+  return findCandidates(element)[0] ?? null
+}
+
+/**
+ * The main table-like structure at an element, or on the whole page
+ * without one. Lists come with their card elements so callers can read
+ * more than the extracted columns.
+ */
+export function findTableLike(element: Element | null, maxRows: number): (ExtractedTable & { items?: Element[] }) | null {
+  const candidate = element ? candidateForElement(element) : findCandidates(document.body)[0]
+  if (!candidate) return null
+
+  const table = extract(candidate, maxRows)
+  const rows = table.rows.slice(0, maxRows)
+  return candidate.kind === 'list'
+    ? { ...table, rows, items: repeatedChildren(candidate.element).slice(0, rows.length) }
+    : { ...table, rows }
+}
+
+function controlText(element: Element): string {
+  return normalizeText(element.getAttribute('aria-label') || (element as HTMLElement).innerText || element.textContent || '')
+}
+
+/** Next-page links, load-more buttons and the current page, so the model can fetch the rest */
+function findPagination(table: ExtractedTable): PaginationHints | undefined {
+  const hints: PaginationHints = {}
+  // Controls inside a row belong to that row, not to the table
+  const controls = querySelectorAllDeep('a, button, [role="button"], [role="link"]')
+    .filter(control => !control.closest('tr, [role="row"]') && isVisible(control))
+
+  const next = querySelectorAllDeep('a[rel~="next"]').find(isVisible) ||
+    controls.find(control => NEXT_TEXT.test(controlText(control)) || /\bnext\b/i.test(control.getAttribute('aria-label') || ''))
+  if (next && !next.matches('[disabled], [aria-disabled="true"]')) {
+    hints.next = { ref: assignRef(next), text: controlText(next) || 'next' }
+  }
+
+  const loadMore = controls.find(control => LOAD_MORE_TEXT.test(controlText(control)))
+  if (loadMore) {
+    hints.loadMore = { ref: assignRef(loadMore), text: controlText(loadMore) }
+  }
+
+  const current = querySelectorAllDeep('[aria-current="page"]').find(element => element.closest('nav, [class*="paginat"]'))
+  if (current) {
+    hints.currentPage = controlText(current)
+  }
+
+  if (table.totalRows && table.totalRows > table.rows.length) {
+    hints.note = `The grid reports ${table.totalRows} rows but only ${table.rows.length} are rendered; scroll it to load the rest`
+  }
+
+  return Object.keys(hints).length > 0 ? hints : undefined
+}
+
+export function handleExtractTable(params: { ref?: string; index?: number; max_rows?: number }): ExtractTableResult {
+  const { ref, index = 0 } = params
+  const maxRows = Math.max(params.max_rows ?? DEFAULT_MAX_ROWS, 1)
+
+  let candidate: Candidate | null
+  let others: Array<{ candidate: Candidate; index: number }> = []
+  if (ref) {
+    const element = getElementByRef(ref)
+    if (!element) {
+      return { error: `Element not found: ${ref}` }
+    }
+    candidate = candidateForElement(element)
+    if (!candidate) {
+      return { error: `No table, grid or repeated list found at ${ref}` }
+    }
+  } else {
+    const candidates = findCandidates(document.body)
+    if (candidates.length === 0) {
+      return { error: 'No tables, grids or repeated lists found on the page. Try get_page_text.' }
+    }
+    if (index >= candidates.length) {
+      return { error: `index ${index} is out of range; the page has ${candidates.length} table-like structures` }
+    }
+    candidate = candidates[index]
+    others = candidates
+      .map((other, i) => ({ candidate: other, index: i }))
+      .filter(other => other.index !== index)
+  }
+
+  const table = extract(candidate, maxRows)
+  const pagination = findPagination(table)
+
+  return {
+    kind: table.kind,
+    ref: assignRef(table.element),
+    ...(table.caption && { caption: table.caption }),
+    columns: table.columns,
+    rows: table.rows.slice(0, maxRows),
+    rowCount: Math.min(table.rows.length, maxRows),
+    ...(table.rows.length > maxRows && { truncated: true }),
+    headerDetected: table.headerDetected,
+    ...(pagination && { pagination }),
+    ...(others.length > 0 && {
+      others: others.slice(0, 10).map(other => {
+        const summary = extract(other.candidate, 50)
+        return {
+          index: other.index,
+          kind: other.candidate.kind,
+          ref: assignRef(other.candidate.element),
+          rows: summary.rows.length,
+          columns: summary.columns.length,
+          ...(summary.caption && { caption: summary.caption }),
+        }
+      }),
+    }),
+  }
+}
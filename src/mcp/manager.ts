@@ -6,6 +6,7 @@
 import type { ToolDefinition, ToolParameter, ToolParameterType } from '@tools/definitions'
 import type { McpServerConfig, McpCachedTool } from './storage'
 import { mcpInitialize, mcpListTools, mcpCallTool, type McpToolInfo } from './client'
+import { validateToolParams, formatValidationError } from '@tools/validation'
 
 const MCP_PREFIX = 'mcp__'
 const log = (...args: unknown[]) => console.log('[MCP:Manager]', ...args)
@@ -105,6 +106,15 @@ export class McpManager {
     const server = this.servers.find((s) => s.config.name === parsed.serverName)
     if (!server) return { success: false, error: `MCP server not found: ${parsed.serverName}` }
 
+    const definition = this.getToolDefinitions().find((d) => d.name === name)
+    if (definition) {
+      const validation = validateToolParams(definition, args)
+      if (validation.issues.length > 0) {
+        return { success: false, error: formatValidationError(name, validation.issues) }
+      }
+      args = validation.params
+    }
+
     try {
       const result = await mcpCallTool(
         server.config.url,
@@ -0,0 +1,38 @@
+/**
+ * Recorded user actions
+ *
+ * While Record mode is on, the content script reports the user's own clicks,
+ * typing and selects, and the background reports navigations. Elements are
+ * described by role and accessible name rather than refs or coordinates, so
+ * a recording still makes sense after the page reloads.
+ */
+
+/** Describes an element the way read_page and find show it */
+export interface ElementLocator {
+  role: string
+  /** Accessible name, as in the read_page tree */
+  name?: string
+  /** Visible text, when it differs from the name */
+  text?: string
+  tag: string
+}
+
+export type RecordedAction =
+  | { kind: 'navigate'; url: string; /** Followed a link or form rather than a typed URL */ fromPage: boolean }
+  | { kind: 'click'; locator: ElementLocator }
+  | { kind: 'type'; locator: ElementLocator; value: string; /** Password fields; the value is not recorded */ sensitive?: boolean }
+  | { kind: 'select'; locator: ElementLocator; value: string }
+  | { kind: 'check'; locator: ElementLocator; checked: boolean }
+  | { kind: 'key'; key: string; locator?: ElementLocator }
+
+export type RecordedActionEntry = RecordedAction & {
+  url: string
+  timestamp: number
+}
+
+/** How a locator reads in prose: the "Email" textbox */
+export function describeLocator(locator: ElementLocator): string {
+  const label = locator.name || locator.text
+  const kind = locator.role === 'generic' ? 'element' : locator.role
+  return label ? `the "${label}" ${kind}` : `the ${kind} (${locator.tag})`
+}
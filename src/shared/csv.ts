@@ -0,0 +1,9 @@
+/** Quote a CSV field when it holds a delimiter, quote or line break */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** Rows and a header line as RFC 4180 CSV */
+export function toCsv(columns: string[], rows: string[][]): string {
+  return [columns, ...rows].map(row => row.map(csvField).join(',')).join('\r\n')
+}
@@ -0,0 +1,37 @@
+/**
+ * DevTools Protocol sessions
+ *
+ * Attaches the debugger to a tab for one operation and detaches afterwards.
+ * run_javascript, trusted input and tab screenshots all go through here.
+ */
+
+const PROTOCOL_VERSION = '1.3'
+
+export type SendCommand = <T = unknown>(method: string, params?: object) => Promise<T>
+
+/** Attach to the tab, hand `run` a way to send commands, and always detach */
+export async function withDebugger<T>(tabId: number, run: (send: SendCommand) => Promise<T>): Promise<T> {
+  const target: chrome.debugger.Debuggee = { tabId }
+
+  const send: SendCommand = (method, params) => new Promise((resolve, reject) => {
+    chrome.debugger.sendCommand(target, method, params, (result) => {
+      if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message))
+      else resolve(result as never)
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    chrome.debugger.attach(target, PROTOCOL_VERSION, () => {
+      if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message))
+      else resolve()
+    })
+  })
+
+  try {
+    return await run(send)
+  } finally {
+    await new Promise<void>((resolve) => {
+      chrome.debugger.detach(target, () => resolve())
+    })
+  }
+}
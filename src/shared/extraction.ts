@@ -0,0 +1,178 @@
+/**
+ * Record extraction
+ *
+ * Schema handling for the `extract` tool. The background handler uses it on
+ * what the DOM heuristics found, and the agent workflow uses it again on
+ * records the model filled in, so both report the same way.
+ */
+
+import { validateJsonSchema, formatSchemaIssues, isJsonSchema, type JsonSchema, type JsonSchemaType } from './jsonSchema'
+
+export interface ExtractField {
+  name: string
+  type: JsonSchemaType
+  description?: string
+}
+
+export interface ExtractionPlan {
+  /** Schema of one record */
+  itemSchema: JsonSchema
+  fields: ExtractField[]
+  /** Many records (search results, product grids) or one (a detail page) */
+  multiple: boolean
+}
+
+export interface ExtractionReport {
+  records: Array<Record<string, unknown>>
+  /** Fields not found, with how many records lack each */
+  missing?: Record<string, number>
+  /** Records that still don't match the schema */
+  invalid?: Array<{ index: number; problems: string }>
+}
+
+const FIELD_TYPE = /^(string|number|integer|boolean)$/
+
+function fieldType(schema: JsonSchema | undefined): JsonSchemaType {
+  const types = Array.isArray(schema?.type) ? schema.type : [schema?.type]
+  return types.find((type): type is JsonSchemaType => !!type && type !== 'null') ?? 'string'
+}
+
+/** Fields as `name` or `name:type`, in an array or one comma-separated string */
+function parseFieldList(fields: unknown): ExtractField[] | null {
+  const entries = typeof fields === 'string' ? fields.split(',') : fields
+  if (!Array.isArray(entries)) return null
+
+  const parsed: ExtractField[] = []
+  for (const entry of entries) {
+    if (typeof entry !== 'string' || !entry.trim()) return null
+    const [name, type = 'string'] = entry.split(':').map(part => part.trim())
+    if (!name || !FIELD_TYPE.test(type)) return null
+    parsed.push({ name, type: type as JsonSchemaType })
+  }
+  return parsed.length > 0 ? parsed : null
+}
+
+/**
+ * Turn the tool's `schema` or `fields` into the record schema and field
+ * list. An array schema means many records; a field list means many unless
+ * `multiple` is false.
+ */
+export function planExtraction(params: { schema?: unknown; fields?: unknown; multiple?: boolean }): ExtractionPlan | { error: string } {
+  if (params.schema !== undefined) {
+    let schema = params.schema
+    if (typeof schema === 'string') {
+      try {
+        schema = JSON.parse(schema)
+      } catch {
+        return { error: 'schema is not valid JSON' }
+      }
+    }
+    if (!isJsonSchema(schema)) {
+      return { error: 'schema must be a JSON Schema object' }
+    }
+
+    const isArray = fieldType(schema) === 'array'
+    const itemSchema = isArray ? schema.items : schema
+    if (!itemSchema?.properties || Object.keys(itemSchema.properties).length === 0) {
+      return { error: `schema must describe an object with properties${isArray ? ' in items' : ''}` }
+    }
+
+    return {
+      itemSchema,
+      fields: Object.entries(itemSchema.properties).map(([name, property]) => ({
+        name,
+        type: fieldType(property),
+        ...(property.description && { description: property.description }),
+      })),
+      multiple: params.multiple ?? isArray,
+    }
+  }
+
+  if (params.fields !== undefined) {
+    const fields = parseFieldList(params.fields)
+    if (!fields) {
+      return { error: 'fields must be a list of names, optionally typed as "name:number"' }
+    }
+    return {
+      itemSchema: {
+        type: 'object',
+        properties: Object.fromEntries(fields.map(field => [field.name, { type: field.type }])),
+      },
+      fields,
+      multiple: params.multiple ?? true,
+    }
+  }
+
+  return { error: 'Either schema or fields is required' }
+}
+
+const NUMBER_IN_TEXT = /-?\d[\d,]*(?:\.\d+)?/
+
+/** Bring a scraped value to the field's type: "$1,299.00" becomes 1299 for a number field */
+function coerceValue(value: unknown, type: JsonSchemaType): unknown {
+  if (typeof value === 'string') {
+    if (type === 'number' || type === 'integer') {
+      const match = NUMBER_IN_TEXT.exec(value)
+      if (!match) return value
+      const number = Number(match[0].replace(/,/g, ''))
+      return type === 'integer' && !Number.isInteger(number) ? value : number
+    }
+    if (type === 'boolean') {
+      if (/^(true|yes)$/i.test(value.trim())) return true
+      if (/^(false|no)$/i.test(value.trim())) return false
+    }
+  }
+  if ((typeof value === 'number' || typeof value === 'boolean') && type === 'string') {
+    return String(value)
+  }
+  return value
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim())
+}
+
+/**
+ * Coerce records to the plan's types, drop empty values, and report the
+ * fields nobody found and the records that still break the schema.
+ */
+export function finishExtraction(records: Array<Record<string, unknown>>, plan: ExtractionPlan): ExtractionReport {
+  const missing: Record<string, number> = {}
+  const invalid: Array<{ index: number; problems: string }> = []
+
+  const finished = records.map((record, index) => {
+    const clean: Record<string, unknown> = {}
+    for (const field of plan.fields) {
+      const value = record[field.name]
+      if (isEmpty(value)) {
+        missing[field.name] = (missing[field.name] ?? 0) + 1
+      } else {
+        clean[field.name] = coerceValue(value, field.type)
+      }
+    }
+
+    const issues = validateJsonSchema(clean, plan.itemSchema)
+    if (issues.length > 0) invalid.push({ index, problems: formatSchemaIssues(issues) })
+    return clean
+  })
+
+  return {
+    records: finished,
+    ...(Object.keys(missing).length > 0 && { missing }),
+    ...(invalid.length > 0 && { invalid }),
+  }
+}
+
+/** Notes on missing fields and the item limit, or '' when there is nothing to say */
+export function describeExtraction(report: ExtractionReport, limitReached?: boolean): string {
+  const total = report.records.length
+  const entries = Object.entries(report.missing ?? {})
+  const nowhere = entries.filter(([, count]) => count === total).map(([name]) => name)
+  const partly = entries.filter(([, count]) => count < total).map(([name, count]) => `${name} (${count} of ${total})`)
+
+  return [
+    nowhere.length > 0 && `Not found${total > 1 ? ' in any record' : ''}: ${nowhere.join(', ')}.`,
+    partly.length > 0 && `Missing from some records: ${partly.join(', ')}.`,
+    limitReached && `Stopped at ${total} records; raise max_items or narrow ref for the rest.`,
+  ].filter(Boolean).join(' ')
+}
@@ -0,0 +1,20 @@
+/**
+ * Frame-qualified refs
+ *
+ * The content script runs in every frame, and each frame numbers its own
+ * elements. Refs from the top frame stay `ref_14`; refs from other frames
+ * carry the frame's ID, e.g. `ref_f2_14` is element 14 in frame 2, so the
+ * background knows where to send an action without asking.
+ */
+
+export const TOP_FRAME_ID = 0
+
+export function refPrefix(frameId: number): string {
+  return frameId === TOP_FRAME_ID ? 'ref_' : `ref_f${frameId}_`
+}
+
+/** The frame a ref belongs to; plain refs belong to the top frame */
+export function frameIdFromRef(ref: string): number {
+  const match = /^ref_f(\d+)_\d+$/.exec(ref)
+  return match ? Number(match[1]) : TOP_FRAME_ID
+}
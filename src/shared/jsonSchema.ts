@@ -0,0 +1,153 @@
+/**
+ * A small JSON Schema subset for checking agent output: types, enum/const,
+ * object properties, arrays, string/number bounds and anyOf/oneOf. Keywords
+ * outside the subset (format, $ref, ...) are ignored rather than rejected.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  description?: string
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  [keyword: string]: unknown
+}
+
+export interface SchemaValidationIssue {
+  /** JSON-pointer-like path to the offending value, '' for the root */
+  path: string
+  problem: string
+}
+
+const MAX_ISSUES = 20
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonSchemaType
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function preview(value: unknown): string {
+  const json = JSON.stringify(value) ?? String(value)
+  return json.length > 40 ? `${json.slice(0, 40)}...` : json
+}
+
+function validate(value: unknown, schema: JsonSchema, path: string, issues: SchemaValidationIssue[]): void {
+  if (issues.length >= MAX_ISSUES) return
+  const report = (problem: string) => issues.push({ path, problem })
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(t => matchesType(value, t))) {
+      report(`expected ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    report(`must be one of ${schema.enum.map(preview).join(', ')}`)
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    report(`must be ${preview(schema.const)}`)
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf
+  if (alternatives) {
+    const matches = alternatives.filter(alt => validateJsonSchema(value, alt).length === 0).length
+    if (matches === 0) {
+      report('does not match any of the allowed shapes')
+    } else if (schema.oneOf && matches > 1) {
+      report('matches more than one of the allowed shapes')
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(`must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report(`must be at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) report(`must match /${schema.pattern}/`)
+      } catch {
+        // An invalid pattern in the schema is the caller's problem, not the model's
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) report(`must be >= ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) report(`must be <= ${schema.maximum}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report(`must have at most ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validate(item, schema.items!, `${path}/${i}`, issues))
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) issues.push({ path: `${path}/${key}`, problem: 'is required' })
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key]
+      if (propSchema) {
+        validate(child, propSchema, `${path}/${key}`, issues)
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}/${key}`, problem: 'is not allowed' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(child, schema.additionalProperties, `${path}/${key}`, issues)
+      }
+    }
+  }
+}
+
+/** Check a value against a schema. Returns an empty list when it conforms. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = []
+  validate(value, schema, '', issues)
+  return issues.slice(0, MAX_ISSUES)
+}
+
+export function formatSchemaIssues(issues: SchemaValidationIssue[]): string {
+  return issues.map(i => `- ${i.path || '(root)'} ${i.problem}`).join('\n')
+}
+
+/** Whether a value looks like a usable schema, for checking user- or caller-supplied input */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
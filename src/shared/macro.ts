@@ -0,0 +1,200 @@
+/**
+ * Macros
+ *
+ * A macro is a fixed list of tool calls that runs without a model. Steps
+ * that act on an element carry a locator (role + name + text) instead of a
+ * ref; the player resolves it on the live page right before the step runs,
+ * retrying until the element shows up.
+ *
+ * ```json
+ * {
+ *   "name": "check-balance",
+ *   "startUrl": "https://bank.example.com",
+ *   "steps": [
+ *     { "tool": "form_input", "locator": { "role": "textbox", "name": "Account", "tag": "input" }, "params": { "value": "1234" } },
+ *     { "tool": "computer", "locator": { "role": "button", "name": "Show", "tag": "button" }, "params": { "action": "left_click" } },
+ *     { "tool": "get_page_text", "saveAs": "balance" }
+ *   ]
+ * }
+ * ```
+ */
+
+import { describeLocator, type ElementLocator, type RecordedActionEntry } from './actionRecording'
+
+export interface MacroStep {
+  tool: string
+  /** Tool params; tabId and ref are filled in by the player */
+  params?: Record<string, unknown>
+  /** Resolved to the `ref` param on the live page */
+  locator?: ElementLocator
+  /** Shown in run results and in the prompt if the agent has to take over */
+  description?: string
+  /** How long to keep looking for the element, in ms */
+  timeout?: number
+  /** Keep this step's result in the run's outputs under this key */
+  saveAs?: string
+}
+
+export interface Macro {
+  name: string
+  description?: string
+  /** Where playback starts when the macro opens its own tab */
+  startUrl?: string
+  steps: MacroStep[]
+}
+
+export const DEFAULT_LOCATOR_TIMEOUT_MS = 10_000
+
+/** Tools a macro can't use: they belong to the agent's own run */
+const MACRO_BLOCKED_TOOLS = ['update_plan', 'invoke_skill', 'remember', 'forget']
+
+/**
+ * A read_storage call that changes the page's storage. The agent always asks
+ * before these, so runs with nobody to ask (macros, the relay) can't make them.
+ */
+export function isStorageEdit(tool: string, params: Record<string, unknown> | undefined): boolean {
+  return tool === 'read_storage' && (params?.action === 'set' || params?.action === 'remove')
+}
+
+export function describeMacroStep(step: MacroStep): string {
+  if (step.description) return step.description
+  const params = { ...step.params }
+  const target = step.locator ? ` on ${describeLocator(step.locator)}` : ''
+  if (step.tool === 'computer' && typeof params.action === 'string') {
+    const { action, ...rest } = params
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''
+    return `computer ${action}${target}${extra}`
+  }
+  const extra = Object.keys(params).length > 0 ? ` ${JSON.stringify(params)}` : ''
+  return `${step.tool}${target}${extra}`
+}
+
+/** Check a parsed macro. Returns a list of problems, empty when valid. */
+export function validateMacro(macro: Macro): string[] {
+  const errors: string[] = []
+
+  if (!macro.name) {
+    errors.push('Missing required field: name')
+  } else if (!/^[a-z0-9-]+$/.test(macro.name)) {
+    errors.push('Macro name must be lowercase alphanumeric with hyphens only')
+  }
+
+  if (!Array.isArray(macro.steps) || macro.steps.length === 0) {
+    errors.push('A macro needs at least one step')
+    return errors
+  }
+
+  macro.steps.forEach((step, i) => {
+    const label = `Step ${i + 1}`
+    if (!step || typeof step.tool !== 'string' || !step.tool) {
+      errors.push(`${label}: missing "tool"`)
+      return
+    }
+    if (MACRO_BLOCKED_TOOLS.includes(step.tool)) {
+      errors.push(`${label}: ${step.tool} can't run in a macro`)
+    } else if (isStorageEdit(step.tool, step.params)) {
+      errors.push(`${label}: read_storage can only read in a macro`)
+    }
+    if (step.params !== undefined && (typeof step.params !== 'object' || Array.isArray(step.params))) {
+      errors.push(`${label}: "params" must be an object`)
+    }
+    if (step.locator !== undefined && (typeof step.locator !== 'object' || !step.locator.role)) {
+      errors.push(`${label}: "locator" needs at least a role`)
+    }
+  })
+
+  return errors
+}
+
+/** Parse macro JSON, throwing with every problem found */
+export function parseMacro(json: string): Macro {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch (err) {
+    throw new Error(`Invalid macro JSON: ${(err as Error).message}`)
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid macro: expected a JSON object')
+  }
+
+  const obj = raw as Record<string, unknown>
+  const macro: Macro = {
+    name: String(obj.name ?? ''),
+    steps: obj.steps as MacroStep[],
+    ...(typeof obj.description === 'string' && obj.description && { description: obj.description }),
+    ...(typeof obj.startUrl === 'string' && obj.startUrl && { startUrl: obj.startUrl }),
+  }
+
+  const errors = validateMacro(macro)
+  if (errors.length > 0) {
+    throw new Error(`Invalid macro: ${errors.join(', ')}`)
+  }
+  return macro
+}
+
+export function serializeMacro(macro: Macro): string {
+  return JSON.stringify(macro, null, 2)
+}
+
+/**
+ * Turn a Record mode recording into macro steps. The first page becomes the
+ * start URL, and page loads caused by clicks are dropped: the next step
+ * waits for its element anyway. Password fields can't be replayed, so a
+ * recording with one is rejected.
+ */
+export function macroFromRecording(
+  actions: RecordedActionEntry[],
+  options: { name: string; description?: string }
+): Macro {
+  const steps: MacroStep[] = []
+  let startUrl: string | undefined
+
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'navigate':
+        if (action.fromPage) break
+        if (!startUrl && steps.length === 0) {
+          startUrl = action.url
+        } else {
+          steps.push({ tool: 'navigate', params: { url: action.url } })
+        }
+        break
+      case 'click':
+        steps.push({ tool: 'computer', locator: action.locator, params: { action: 'left_click' } })
+        break
+      case 'type': {
+        if (action.sensitive) {
+          throw new Error(`A password was typed into ${describeLocator(action.locator)}. Macros can't replay passwords; save the recording as a skill instead.`)
+        }
+        // Typing the same field again replaces the earlier value
+        const previous = steps[steps.length - 1]
+        if (previous?.tool === 'form_input' && JSON.stringify(previous.locator) === JSON.stringify(action.locator)) {
+          steps.pop()
+        }
+        steps.push({ tool: 'form_input', locator: action.locator, params: { value: action.value } })
+        break
+      }
+      case 'select':
+        steps.push({ tool: 'form_input', locator: action.locator, params: { value: action.value } })
+        break
+      case 'check':
+        steps.push({ tool: 'form_input', locator: action.locator, params: { value: String(action.checked) } })
+        break
+      case 'key':
+        steps.push({
+          tool: 'computer',
+          ...(action.locator && { locator: action.locator }),
+          params: { action: 'key', text: action.key },
+        })
+        break
+    }
+  }
+
+  return {
+    name: options.name,
+    ...(options.description && { description: options.description }),
+    ...(startUrl && { startUrl }),
+    steps,
+  }
+}
@@ -1,10 +1,20 @@
+import type { RecordedActionEntry } from './actionRecording'
+
 export const MessageTypes = {
   READ_PAGE: 'READ_PAGE',
   GET_PAGE_TEXT: 'GET_PAGE_TEXT',
   FIND_ELEMENTS: 'FIND_ELEMENTS',
+  RESOLVE_LOCATOR: 'RESOLVE_LOCATOR',
+  EXTRACT_TABLE: 'EXTRACT_TABLE',
+  EXTRACT_DATA: 'EXTRACT_DATA',
+  FRAME_TARGET: 'FRAME_TARGET',
+  FRAME_OFFSET: 'FRAME_OFFSET',
   FORM_INPUT: 'FORM_INPUT',
+  DESCRIBE_ELEMENT: 'DESCRIBE_ELEMENT',
   COMPUTER_ACTION: 'COMPUTER_ACTION',
+  ACTION_POINT: 'ACTION_POINT',
   UPLOAD_IMAGE: 'UPLOAD_IMAGE',
+  UPLOAD_FILE: 'UPLOAD_FILE',
   GET_CONSOLE_MESSAGES: 'GET_CONSOLE_MESSAGES',
   CLEAR_CONSOLE_MESSAGES: 'CLEAR_CONSOLE_MESSAGES',
 
@@ -16,12 +26,19 @@ export const MessageTypes = {
   GET_TAB_INFO: 'GET_TAB_INFO',
   EXECUTE_SCRIPT: 'EXECUTE_SCRIPT',
   EXECUTE_TOOL: 'EXECUTE_TOOL',
+  GET_STORED_OUTPUT: 'GET_STORED_OUTPUT',
   CONSOLE_MESSAGE: 'CONSOLE_MESSAGE',
   CONTENT_SCRIPT_READY: 'CONTENT_SCRIPT_READY',
   TAKE_SCREENSHOT: 'TAKE_SCREENSHOT',
   SET_SCREEN_GLOW: 'SET_SCREEN_GLOW',
   SYNC_SHORTCUT_ALARMS: 'SYNC_SHORTCUT_ALARMS',
   RUN_SHORTCUT_NOW: 'RUN_SHORTCUT_NOW',
+  REPLAY_RUN: 'REPLAY_RUN',
+  RECORDER_START: 'RECORDER_START',
+  RECORDER_STOP: 'RECORDER_STOP',
+  RECORDER_STATUS: 'RECORDER_STATUS',
+  RECORDED_ACTION: 'RECORDED_ACTION',
+  RUN_MACRO: 'RUN_MACRO',
   STOP_AGENT: 'STOP_AGENT',
 
   // Codex OAuth messages
@@ -86,6 +103,13 @@ export interface ConsoleMessageData extends BaseMessage {
   }
 }
 
+export interface RecordedActionMessage extends BaseMessage {
+  type: typeof MessageTypes.RECORDED_ACTION
+  /** Set by the background; the side panel falls back to the sender's tab */
+  tabId?: number
+  action: RecordedActionEntry
+}
+
 export function createMessage<T extends BaseMessage>(message: T): T {
   return message
 }
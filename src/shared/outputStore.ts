@@ -47,6 +47,11 @@ export function formatStoredPreview(id: string, _toolName: string, output: strin
   ].join('\n')
 }
 
+/** The full text of a stored output, or undefined once it has expired */
+export function getStoredOutput(id: string): string | undefined {
+  return outputStore.get(id)?.join('\n')
+}
+
 export function isLargeOutput(output: string): boolean {
   return output.length > MAX_TOOL_OUTPUT_CHARS
 }
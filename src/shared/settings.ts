@@ -8,6 +8,28 @@ export type ProviderType =
   | 'xai'
   | 'openrouter'
   | 'openai-compatible'
+  | 'scripted'
+
+/** How tool calls are exchanged with the model: `<invoke>` XML text or provider-native tool use */
+export type ToolCallMode = 'xml' | 'native'
+
+/** User preference for tool calling. 'auto' picks the mode from the model config. */
+export type ToolCallPreference = ToolCallMode | 'auto'
+
+/** Actions that pause the agent until the user approves, edits or rejects them */
+export type ApprovalRule =
+  | 'run_javascript'
+  | 'form_submit'
+  | 'navigate_new_domain'
+  | 'close_tab'
+  | 'mcp_tools'
+  | 'update_plan'
+
+/** A provider/model pair tried, in order, when the primary model keeps failing */
+export interface FallbackModel {
+  provider: ProviderType
+  model: string
+}
 
 export interface OpenAICompatibleConfig {
   baseURL: string
@@ -41,6 +63,13 @@ export interface ProviderSettings {
   codexAuth?: CodexAuth
   geminiAuth?: GeminiAuth
   userPreference?: string
+  toolCallModes?: Partial<Record<ProviderType, ToolCallPreference>>  // Per provider
+  approvalRules?: ApprovalRule[]
+  strictPlan?: boolean  // Limit navigation to the domains declared with update_plan
+  maxRetries?: number  // Retries per model for rate limits, overload and network errors
+  fallbackModels?: FallbackModel[]
+  scriptedFixture?: string  // Fixture JSON replayed by the offline 'scripted' provider
+  recordRuns?: boolean  // Save a replay bundle of every chat run (Settings → Data)
 }
 
 export const DEFAULT_TRACING_SETTINGS: TracingSettings = {
@@ -0,0 +1,38 @@
+/**
+ * Site Profiles Module
+ *
+ * Public API for URL-scoped site instructions.
+ */
+
+// Types
+export type {
+  SiteFrontmatter,
+  StoredSiteProfile,
+  SiteProfile,
+  ParsedSiteProfile,
+  InputBackend,
+} from './types'
+export { generateSiteProfileId, INPUT_BACKENDS } from './types'
+
+// Parser
+export {
+  parseSiteProfileContent,
+  validateParsedSiteProfile,
+  serializeSiteProfile,
+  normalizePattern,
+} from './parser'
+
+// Matching
+export { matchesSitePattern, findMatchingSiteProfiles } from './matcher'
+
+// Storage
+export {
+  getAllSiteProfiles,
+  getEnabledSiteProfiles,
+  getSiteProfile,
+  saveSiteProfile,
+  updateSiteProfile,
+  setSiteProfileEnabled,
+  deleteSiteProfile,
+  importSiteProfiles,
+} from './storage'
@@ -0,0 +1,45 @@
+/**
+ * URL matching for site profiles
+ *
+ * A pattern without a slash is a hostname: it matches that host and its
+ * subdomains, and may use `*` (`*.atlassian.net`). A pattern with a slash is
+ * a glob over `host/path?query`, where `*` matches any run of characters
+ * (`cms.example.com/admin/*`). Schemes are ignored.
+ */
+
+import { normalizePattern } from './parser'
+import type { SiteProfile } from './types'
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+export function matchesSitePattern(pattern: string, url: string): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+  if (!parsed.hostname) return false
+
+  const normalized = normalizePattern(pattern)
+  const host = parsed.hostname.toLowerCase()
+
+  if (!normalized.includes('/')) {
+    if (normalized.includes('*')) return globToRegExp(normalized).test(host)
+    return host === normalized || host.endsWith(`.${normalized}`)
+  }
+
+  const target = `${host}${parsed.pathname}${parsed.search}`
+  return globToRegExp(normalized).test(target)
+}
+
+/** Profiles with at least one pattern matching the URL, in the order given */
+export function findMatchingSiteProfiles(profiles: SiteProfile[], url: string): SiteProfile[] {
+  return profiles.filter(profile => profile.patterns.some(pattern => matchesSitePattern(pattern, url)))
+}
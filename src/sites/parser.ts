@@ -0,0 +1,97 @@
+/**
+ * SITE.md Parser
+ *
+ * Format:
+ * ```markdown
+ * ---
+ * name: jira
+ * match: [jira.example.com, "*.atlassian.net"]
+ * description: Team Jira
+ * input: trusted
+ * ---
+ * - Use the quick-search box at the top instead of the issue navigator.
+ * ```
+ */
+
+import { splitFrontmatter, parseYaml } from '@skills/parser'
+import { INPUT_BACKENDS, type SiteFrontmatter, type ParsedSiteProfile, type InputBackend } from './types'
+
+/** Drop the scheme and lowercase the host part; patterns match `host/path` */
+export function normalizePattern(pattern: string): string {
+  const withoutScheme = pattern.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+  const slash = withoutScheme.indexOf('/')
+  return slash === -1
+    ? withoutScheme.toLowerCase()
+    : withoutScheme.slice(0, slash).toLowerCase() + withoutScheme.slice(slash)
+}
+
+/**
+ * Parse a SITE.md file content into frontmatter and instructions
+ */
+export function parseSiteProfileContent(content: string): ParsedSiteProfile {
+  const split = splitFrontmatter(content)
+  if (!split) {
+    throw new Error('Invalid SITE.md format: missing YAML frontmatter (must start with ---)')
+  }
+
+  const raw = parseYaml(split.yaml)
+  const match = Array.isArray(raw.match) ? raw.match : raw.match !== undefined ? [raw.match] : []
+  const frontmatter: SiteFrontmatter = {
+    name: String(raw.name || ''),
+    match: match.filter((p): p is string => typeof p === 'string').map(normalizePattern).filter(Boolean),
+    ...(raw.description !== undefined && { description: String(raw.description) }),
+    ...(raw.input !== undefined && { input: String(raw.input).toLowerCase() as InputBackend }),
+  }
+
+  return { frontmatter, instructions: split.body }
+}
+
+/**
+ * Validate a parsed site profile
+ */
+export function validateParsedSiteProfile(parsed: ParsedSiteProfile): string[] {
+  const errors: string[] = []
+
+  if (!parsed.frontmatter.name) {
+    errors.push('Missing required field: name')
+  }
+
+  if (parsed.frontmatter.match.length === 0) {
+    errors.push('Missing required field: match (a hostname or URL glob, e.g. "*.atlassian.net")')
+  }
+
+  if (parsed.frontmatter.input !== undefined && !INPUT_BACKENDS.includes(parsed.frontmatter.input)) {
+    errors.push(`input must be one of: ${INPUT_BACKENDS.join(', ')}`)
+  }
+
+  // A profile may exist only to pick the input backend
+  if (!parsed.instructions && !parsed.frontmatter.input) {
+    errors.push('Site instructions are empty')
+  }
+
+  return errors
+}
+
+/**
+ * Serialize a site profile back to SITE.md format
+ */
+export function serializeSiteProfile(frontmatter: SiteFrontmatter, instructions: string): string {
+  const lines: string[] = ['---']
+
+  lines.push(`name: ${frontmatter.name}`)
+  lines.push(`match: [${frontmatter.match.map(p => `"${p}"`).join(', ')}]`)
+
+  if (frontmatter.description) {
+    lines.push(`description: ${frontmatter.description}`)
+  }
+
+  if (frontmatter.input) {
+    lines.push(`input: ${frontmatter.input}`)
+  }
+
+  lines.push('---')
+  lines.push('')
+  lines.push(instructions)
+
+  return lines.join('\n')
+}
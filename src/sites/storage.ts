@@ -0,0 +1,134 @@
+/**
+ * Site Profile Storage Operations
+ *
+ * CRUD operations for site profiles in IndexedDB
+ */
+
+import { db } from '@storage/db'
+import type { StoredSiteProfile, SiteProfile } from './types'
+import { generateSiteProfileId } from './types'
+import { parseSiteProfileContent, validateParsedSiteProfile } from './parser'
+
+const DEBUG = false
+const log = (...args: unknown[]) => DEBUG && console.log('[SiteStorage]', ...args)
+
+function parseOrThrow(rawContent: string) {
+  const parsed = parseSiteProfileContent(rawContent)
+  const errors = validateParsedSiteProfile(parsed)
+  if (errors.length > 0) {
+    throw new Error(`Invalid site profile: ${errors.join(', ')}`)
+  }
+  return parsed
+}
+
+/**
+ * Get all stored site profiles
+ */
+export async function getAllSiteProfiles(): Promise<StoredSiteProfile[]> {
+  return db.siteProfiles.orderBy('name').toArray()
+}
+
+/**
+ * Get enabled site profiles in the shape the agent uses
+ */
+export async function getEnabledSiteProfiles(): Promise<SiteProfile[]> {
+  // Booleans aren't valid IndexedDB keys, so `enabled` can't be queried through an index
+  const profiles = await db.siteProfiles.orderBy('name').filter(p => p.enabled).toArray()
+  return profiles.map(({ id, name, patterns, instructions, input }) => ({ id, name, patterns, instructions, input }))
+}
+
+/**
+ * Get a site profile by ID
+ */
+export async function getSiteProfile(id: string): Promise<StoredSiteProfile | undefined> {
+  return db.siteProfiles.get(id)
+}
+
+/**
+ * Create a site profile from SITE.md content. A profile with the same name is replaced.
+ */
+export async function saveSiteProfile(rawContent: string): Promise<StoredSiteProfile> {
+  const parsed = parseOrThrow(rawContent)
+  const existing = await db.siteProfiles.where('name').equals(parsed.frontmatter.name).first()
+
+  const now = Date.now()
+  const profile: StoredSiteProfile = {
+    id: existing?.id ?? generateSiteProfileId(),
+    name: parsed.frontmatter.name,
+    patterns: parsed.frontmatter.match,
+    description: parsed.frontmatter.description,
+    input: parsed.frontmatter.input,
+    rawContent,
+    instructions: parsed.instructions,
+    enabled: existing?.enabled ?? true,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+
+  await db.siteProfiles.put(profile)
+  log('Site profile saved:', profile.name, profile.id)
+  return profile
+}
+
+/**
+ * Replace the content of an existing site profile
+ */
+export async function updateSiteProfile(id: string, rawContent: string): Promise<StoredSiteProfile | undefined> {
+  const existing = await getSiteProfile(id)
+  if (!existing) {
+    return undefined
+  }
+
+  const parsed = parseOrThrow(rawContent)
+  const clash = await db.siteProfiles.where('name').equals(parsed.frontmatter.name).first()
+  if (clash && clash.id !== id) {
+    throw new Error(`A site profile named "${parsed.frontmatter.name}" already exists`)
+  }
+
+  await db.siteProfiles.update(id, {
+    name: parsed.frontmatter.name,
+    patterns: parsed.frontmatter.match,
+    description: parsed.frontmatter.description,
+    input: parsed.frontmatter.input,
+    rawContent,
+    instructions: parsed.instructions,
+    updatedAt: Date.now(),
+  })
+  log('Site profile updated:', id)
+  return getSiteProfile(id)
+}
+
+/**
+ * Enable or disable a site profile
+ */
+export async function setSiteProfileEnabled(id: string, enabled: boolean): Promise<void> {
+  await db.siteProfiles.update(id, { enabled, updatedAt: Date.now() })
+}
+
+/**
+ * Delete a site profile
+ */
+export async function deleteSiteProfile(id: string): Promise<void> {
+  await db.siteProfiles.delete(id)
+  log('Site profile deleted:', id)
+}
+
+/**
+ * Import several SITE.md files, e.g. from a file picker. Each file succeeds or fails on its own.
+ */
+export async function importSiteProfiles(
+  contents: string[]
+): Promise<{ imported: StoredSiteProfile[]; errors: { index: number; error: string }[] }> {
+  const imported: StoredSiteProfile[] = []
+  const errors: { index: number; error: string }[] = []
+
+  for (let i = 0; i < contents.length; i++) {
+    try {
+      imported.push(await saveSiteProfile(contents[i]))
+    } catch (err) {
+      errors.push({ index: i, error: (err as Error).message })
+    }
+  }
+
+  return { imported, errors }
+}
@@ -0,0 +1,64 @@
+/**
+ * Site Profile Types
+ *
+ * Site profiles hold know-how for specific sites ("on Jira use the quick-search
+ * box"). They are SITE.md files: YAML frontmatter with the URL patterns the
+ * profile applies to, and markdown instructions.
+ */
+
+/**
+ * How `computer` actions reach the page. `synthetic` (the default)
+ * dispatches DOM events from the content script; `trusted` sends real input
+ * through the DevTools Protocol; `auto` tries synthetic first and retries
+ * trusted when the event had no visible effect.
+ */
+export type InputBackend = 'auto' | 'synthetic' | 'trusted'
+
+export const INPUT_BACKENDS: InputBackend[] = ['auto', 'synthetic', 'trusted']
+
+/**
+ * Parsed YAML frontmatter from SITE.md
+ */
+export interface SiteFrontmatter {
+  name: string
+  /** Hostnames or URL globs, e.g. `jira.example.com`, `*.atlassian.net`, `cms.example.com/admin/*` */
+  match: string[]
+  description?: string
+  input?: InputBackend
+}
+
+/**
+ * Stored site profile in IndexedDB
+ */
+export interface StoredSiteProfile {
+  id: string
+  name: string
+  patterns: string[]
+  description?: string
+  input?: InputBackend
+
+  // Content
+  rawContent: string            // Full SITE.md content
+  instructions: string          // Markdown body (after frontmatter)
+
+  enabled: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Site profile for runtime use: what the agent needs to match and render it
+ */
+export type SiteProfile = Pick<StoredSiteProfile, 'id' | 'name' | 'patterns' | 'instructions' | 'input'>
+
+/**
+ * Result of parsing a SITE.md file
+ */
+export interface ParsedSiteProfile {
+  frontmatter: SiteFrontmatter
+  instructions: string
+}
+
+export function generateSiteProfileId(): string {
+  return `site_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
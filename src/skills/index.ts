@@ -20,6 +20,8 @@ export { generateSkillId } from './types'
 // Parser
 export {
   parseSkillContent,
+  splitFrontmatter,
+  parseYaml,
   validateParsedSkill,
   serializeSkill,
 } from './parser'
@@ -62,5 +64,14 @@ export {
   getSkillSuggestions,
 } from './manager'
 
+// Recording
+export type { RecordingDraftOptions } from './recording'
+export {
+  compactRecording,
+  recordingToSteps,
+  recordingToInstructions,
+  draftSkillFromRecording,
+} from './recording'
+
 // Built-in skills
 export { BUILTIN_SKILLS } from './builtin'
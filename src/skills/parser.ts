@@ -24,17 +24,14 @@ const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/
  * Parse a SKILL.md file content into frontmatter and instructions
  */
 export function parseSkillContent(content: string): ParsedSkill {
-  const trimmed = content.trim()
-  const match = trimmed.match(FRONTMATTER_REGEX)
+  const split = splitFrontmatter(content)
 
-  if (!match) {
+  if (!split) {
     throw new Error('Invalid SKILL.md format: missing YAML frontmatter (must start with ---)')
   }
 
-  const yamlContent = match[1]
-  const instructions = trimmed.slice(match[0].length).trim()
-
-  const frontmatter = parseYamlFrontmatter(yamlContent)
+  const instructions = split.body
+  const frontmatter = normalizeFrontmatter(parseYaml(split.yaml))
 
   if (!frontmatter.name) {
     throw new Error('Invalid SKILL.md: missing required "name" field in frontmatter')
@@ -50,11 +47,22 @@ export function parseSkillContent(content: string): ParsedSkill {
   }
 }
 
+/**
+ * Split a markdown file into its YAML frontmatter and body.
+ * Returns null when the file doesn't start with a frontmatter block.
+ */
+export function splitFrontmatter(content: string): { yaml: string; body: string } | null {
+  const trimmed = content.trim()
+  const match = trimmed.match(FRONTMATTER_REGEX)
+  if (!match) return null
+  return { yaml: match[1], body: trimmed.slice(match[0].length).trim() }
+}
+
 /**
  * Simple YAML parser for frontmatter
  * Handles basic key-value pairs, arrays, and nested objects
  */
-function parseYamlFrontmatter(yaml: string): SkillFrontmatter {
+export function parseYaml(yaml: string): Record<string, unknown> {
   const result: Record<string, unknown> = {}
   const lines = yaml.split('\n')
 
@@ -140,7 +148,7 @@ function parseYamlFrontmatter(yaml: string): SkillFrontmatter {
     result[objectKey] = currentObject
   }
 
-  return normalizeFrontmatter(result)
+  return result
 }
 
 /**
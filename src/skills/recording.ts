@@ -0,0 +1,104 @@
+/**
+ * Recording to SKILL.md
+ *
+ * Turns the actions captured in Record mode into a draft skill: one
+ * numbered step per action, with elements named by role and accessible
+ * name so the agent can find them again with find or read_page.
+ */
+
+import { describeLocator, type RecordedActionEntry } from '@shared/actionRecording'
+import { serializeSkill } from './parser'
+
+export interface RecordingDraftOptions {
+  name: string
+  description: string
+}
+
+function shortUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.host}${parsed.pathname === '/' ? '' : parsed.pathname}`
+  } catch {
+    return url
+  }
+}
+
+function describeAction(action: RecordedActionEntry, isFirst: boolean): string {
+  switch (action.kind) {
+    case 'navigate':
+      return action.fromPage && !isFirst
+        ? `Wait for ${shortUrl(action.url)} to load.`
+        : `Go to ${action.url}`
+    case 'click':
+      return `Click ${describeLocator(action.locator)}.`
+    case 'type':
+      return action.sensitive
+        ? `Type the password into ${describeLocator(action.locator)}. Ask the user for it; it was not recorded.`
+        : `Type "${action.value}" into ${describeLocator(action.locator)}.`
+    case 'select':
+      return `Select "${action.value}" in ${describeLocator(action.locator)}.`
+    case 'check':
+      if (action.locator.role === 'radio') return `Choose ${describeLocator(action.locator)}.`
+      return `${action.checked ? 'Check' : 'Uncheck'} ${describeLocator(action.locator)}.`
+    case 'key':
+      return action.locator
+        ? `Press ${action.key} in ${describeLocator(action.locator)}.`
+        : `Press ${action.key}.`
+  }
+}
+
+/**
+ * Drop noise from a raw recording: redirect chains collapse to where they
+ * ended, and typing the same field twice keeps the final value.
+ */
+export function compactRecording(actions: RecordedActionEntry[]): RecordedActionEntry[] {
+  const result: RecordedActionEntry[] = []
+  for (const action of actions) {
+    const previous = result[result.length - 1]
+    if (previous?.kind === 'navigate' && action.kind === 'navigate' && action.fromPage) {
+      result[result.length - 1] = { ...action, fromPage: previous.fromPage }
+      continue
+    }
+    if (
+      previous?.kind === 'type' && action.kind === 'type' &&
+      previous.url === action.url &&
+      JSON.stringify(previous.locator) === JSON.stringify(action.locator)
+    ) {
+      result[result.length - 1] = action
+      continue
+    }
+    result.push(action)
+  }
+  return result
+}
+
+/** The numbered steps of a recording, as markdown */
+export function recordingToSteps(actions: RecordedActionEntry[]): string {
+  return compactRecording(actions)
+    .map((action, i) => `${i + 1}. ${describeAction(action, i === 0)}`)
+    .join('\n')
+}
+
+/** Skill instructions for a recording: a short preamble and the numbered steps */
+export function recordingToInstructions(actions: RecordedActionEntry[]): string {
+  return [
+    'Repeat these steps, recorded from a demonstration, in order. Find each element by its role and name with find or read_page; refs from earlier pages are not valid. If the page no longer matches a step, stop and tell the user what changed.',
+    '',
+    recordingToSteps(actions),
+  ].join('\n')
+}
+
+/** A draft SKILL.md for a recording, ready to edit and pass to installSkill */
+export function draftSkillFromRecording(
+  actions: RecordedActionEntry[],
+  options: RecordingDraftOptions
+): string {
+  return serializeSkill(
+    {
+      name: options.name,
+      description: options.description,
+      userInvocable: true,
+    },
+    recordingToInstructions(actions)
+  )
+}
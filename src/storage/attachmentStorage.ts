@@ -30,6 +30,12 @@ export async function storeAttachment(
   return attachment
 }
 
+export async function getAttachment(
+  id: string
+): Promise<StoredAttachment | undefined> {
+  return db.attachments.get(id)
+}
+
 export async function getAttachments(
   messageId: string
 ): Promise<StoredAttachment[]> {
@@ -24,6 +24,7 @@ export {
 
 export {
   storeAttachment,
+  getAttachment,
   getAttachments,
   getAttachmentsByThread,
   storedAttachmentToAttachmentFile,
@@ -36,3 +37,4 @@ export {
 } from './branchStorage'
 
 export { getStorageStats } from './storageStats'
+export { getUsageSummary, type UsageSummary, type UsageRow } from './usageStats'
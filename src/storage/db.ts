@@ -1,6 +1,7 @@
 import Dexie, { type EntityTable } from 'dexie'
-import type { Thread, StoredMessage, StoredAttachment, ThreadBranchState, ScheduledShortcut } from './types'
+import type { Thread, StoredMessage, StoredAttachment, ThreadBranchState, ScheduledShortcut, StoredReplay, MemoryEntry, StoredMacro } from './types'
 import type { StoredSkill } from '@skills/types'
+import type { StoredSiteProfile } from '@sites/types'
 
 class ChatDatabase extends Dexie {
   threads!: EntityTable<Thread, 'id'>
@@ -9,6 +10,10 @@ class ChatDatabase extends Dexie {
   branchStates!: EntityTable<ThreadBranchState, 'threadId'>
   shortcuts!: EntityTable<ScheduledShortcut, 'id'>
   skills!: EntityTable<StoredSkill, 'id'>
+  replays!: EntityTable<StoredReplay, 'id'>
+  memories!: EntityTable<MemoryEntry, 'id'>
+  siteProfiles!: EntityTable<StoredSiteProfile, 'id'>
+  macros!: EntityTable<StoredMacro, 'id'>
 
   constructor() {
     super('bouno-chat')
@@ -38,11 +43,62 @@ class ChatDatabase extends Dexie {
       shortcuts: 'id, enabled, createdAt',
       skills: 'id, name, source, enabled, installedAt',
     })
+
+    // Version 6: Add replays table
+    this.version(6).stores({
+      threads: 'id, updatedAt',
+      messages: 'id, threadId, parentId, createdAt',
+      attachments: 'id, messageId, threadId',
+      branchStates: 'threadId',
+      shortcuts: 'id, enabled, createdAt',
+      skills: 'id, name, source, enabled, installedAt',
+      replays: 'id, createdAt, threadId',
+    })
+
+    // Version 7: Add memories table
+    this.version(7).stores({
+      threads: 'id, updatedAt',
+      messages: 'id, threadId, parentId, createdAt',
+      attachments: 'id, messageId, threadId',
+      branchStates: 'threadId',
+      shortcuts: 'id, enabled, createdAt',
+      skills: 'id, name, source, enabled, installedAt',
+      replays: 'id, createdAt, threadId',
+      memories: 'id, updatedAt',
+    })
+
+    // Version 8: Add site profiles table
+    this.version(8).stores({
+      threads: 'id, updatedAt',
+      messages: 'id, threadId, parentId, createdAt',
+      attachments: 'id, messageId, threadId',
+      branchStates: 'threadId',
+      shortcuts: 'id, enabled, createdAt',
+      skills: 'id, name, source, enabled, installedAt',
+      replays: 'id, createdAt, threadId',
+      memories: 'id, updatedAt',
+      siteProfiles: 'id, name, updatedAt',
+    })
+
+    // Version 9: Add macros table
+    this.version(9).stores({
+      threads: 'id, updatedAt',
+      messages: 'id, threadId, parentId, createdAt',
+      attachments: 'id, messageId, threadId',
+      branchStates: 'threadId',
+      shortcuts: 'id, enabled, createdAt',
+      skills: 'id, name, source, enabled, installedAt',
+      replays: 'id, createdAt, threadId',
+      memories: 'id, updatedAt',
+      siteProfiles: 'id, name, updatedAt',
+      macros: 'id, name, updatedAt',
+    })
   }
 }
 
 export const db = new ChatDatabase()
 
 // Export for convenience
-export type { Thread, StoredMessage, StoredAttachment, ThreadBranchState, ScheduledShortcut }
+export type { Thread, StoredMessage, StoredAttachment, ThreadBranchState, ScheduledShortcut, StoredReplay, MemoryEntry, StoredMacro }
 export type { StoredSkill }
+export type { StoredSiteProfile }
@@ -3,3 +3,5 @@ export * from './db'
 export * from './chatStorage'
 export * from './chatExport'
 export * from './shortcutStorage'
+export * from './replayStorage'
+export * from './memoryStorage'
@@ -0,0 +1,72 @@
+import { db } from './db'
+import type { StoredMacro } from './types'
+import { generateId } from './types'
+import { validateMacro, serializeMacro, type Macro } from '@shared/macro'
+
+const DEBUG = false
+const log = (...args: unknown[]) => DEBUG && console.log('[MacroStorage]', ...args)
+
+export async function getAllMacros(): Promise<StoredMacro[]> {
+  return db.macros.orderBy('name').toArray()
+}
+
+export async function getMacro(id: string): Promise<StoredMacro | undefined> {
+  return db.macros.get(id)
+}
+
+export async function getMacroByName(name: string): Promise<StoredMacro | undefined> {
+  return db.macros.where('name').equals(name).first()
+}
+
+/** Save a macro. A macro with the same name is replaced, keeping its ID and run history. */
+export async function saveMacro(macro: Macro): Promise<StoredMacro> {
+  const errors = validateMacro(macro)
+  if (errors.length > 0) {
+    throw new Error(`Invalid macro: ${errors.join(', ')}`)
+  }
+
+  const existing = await getMacroByName(macro.name)
+  const now = Date.now()
+  const stored: StoredMacro = {
+    ...existing,
+    ...macro,
+    id: existing?.id ?? generateId(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+  await db.macros.put(stored)
+  log('Saved macro:', stored.name, stored.id)
+  return stored
+}
+
+export async function markMacroRun(
+  id: string,
+  status: NonNullable<StoredMacro['lastRunStatus']>,
+  error?: string
+): Promise<void> {
+  await db.macros.update(id, {
+    lastRunAt: Date.now(),
+    lastRunStatus: status,
+    lastRunError: error,
+  })
+}
+
+export async function deleteMacro(id: string): Promise<void> {
+  await db.macros.delete(id)
+  log('Deleted macro:', id)
+}
+
+/** The macro as a .json file, without run history */
+export function downloadMacro(macro: StoredMacro): void {
+  const { name, description, startUrl, steps } = macro
+  const blob = new Blob([serializeMacro({ name, description, startUrl, steps })], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${name}.macro.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
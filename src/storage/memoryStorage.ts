@@ -0,0 +1,154 @@
+import { db } from './db'
+import type { MemoryEntry } from './types'
+import { generateId } from './types'
+
+const DEBUG = false
+const log = (...args: unknown[]) => DEBUG && console.log('[MemoryStorage]', ...args)
+
+/** Memories are facts, not documents */
+export const MAX_MEMORY_LENGTH = 500
+
+/** Memories put in the system prompt per run */
+export const MAX_PROMPT_MEMORIES = 8
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'has', 'have', 'how',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'that', 'the', 'their',
+  'this', 'to', 'us', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+])
+
+/** Lowercased words, minus stopwords, with a plural 's' dropped */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+}
+
+function memoryTokens(memory: MemoryEntry): Set<string> {
+  return new Set(tokenize([memory.content, ...(memory.tags ?? [])].join(' ')))
+}
+
+/**
+ * Rank memories by keyword overlap with the query. Rare words count for
+ * more than common ones, and a word that prefixes another ("ship" and
+ * "shipping") counts for half. Memories that share no words are dropped.
+ */
+export function rankMemories(memories: MemoryEntry[], query: string): MemoryEntry[] {
+  const queryTokens = [...new Set(tokenize(query))]
+  if (queryTokens.length === 0) return []
+
+  const tokenSets = memories.map(memoryTokens)
+  const idf = (token: string) => {
+    const docs = tokenSets.filter(tokens => tokens.has(token)).length
+    return Math.log(1 + memories.length / Math.max(docs, 1))
+  }
+
+  const scored = memories.map((memory, i) => {
+    const tokens = tokenSets[i]
+    let score = 0
+    for (const q of queryTokens) {
+      if (tokens.has(q)) {
+        score += idf(q)
+      } else if (q.length >= 4 && [...tokens].some(t => t.length >= 4 && (t.startsWith(q) || q.startsWith(t)))) {
+        score += idf(q) / 2
+      }
+    }
+    return { memory, score }
+  })
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt)
+    .map(({ memory }) => memory)
+}
+
+function normalize(content: string): string {
+  return content.trim().replace(/\s+/g, ' ')
+}
+
+export async function getAllMemories(): Promise<MemoryEntry[]> {
+  return db.memories.orderBy('updatedAt').reverse().toArray()
+}
+
+export async function getMemory(id: string): Promise<MemoryEntry | undefined> {
+  return db.memories.get(id)
+}
+
+/**
+ * Save a memory. Saving the same text again refreshes the existing entry
+ * instead of adding a duplicate.
+ */
+export async function addMemory(
+  content: string,
+  options: { tags?: string[]; source?: MemoryEntry['source'] } = {}
+): Promise<{ memory: MemoryEntry; duplicate: boolean }> {
+  const text = normalize(content)
+  if (!text) {
+    throw new Error('Memory content is empty')
+  }
+  if (text.length > MAX_MEMORY_LENGTH) {
+    throw new Error(`Memory is too long (${text.length} characters, max ${MAX_MEMORY_LENGTH}). Save one short fact at a time.`)
+  }
+
+  const now = Date.now()
+  const tags = options.tags?.map(t => t.trim()).filter(Boolean)
+  const existing = await db.memories.filter(m => m.content.toLowerCase() === text.toLowerCase()).first()
+  if (existing) {
+    const updated: MemoryEntry = { ...existing, ...(tags?.length && { tags }), updatedAt: now }
+    await db.memories.put(updated)
+    log('Refreshed memory:', existing.id)
+    return { memory: updated, duplicate: true }
+  }
+
+  const memory: MemoryEntry = {
+    id: generateId(),
+    content: text,
+    ...(tags?.length && { tags }),
+    source: options.source ?? 'user',
+    createdAt: now,
+    updatedAt: now,
+  }
+  await db.memories.add(memory)
+  log('Saved memory:', memory.id)
+  return { memory, duplicate: false }
+}
+
+export async function updateMemory(
+  id: string,
+  updates: Partial<Pick<MemoryEntry, 'content' | 'tags'>>
+): Promise<void> {
+  const content = updates.content !== undefined ? normalize(updates.content) : undefined
+  if (content !== undefined && (!content || content.length > MAX_MEMORY_LENGTH)) {
+    throw new Error(`Memory must be 1-${MAX_MEMORY_LENGTH} characters`)
+  }
+  await db.memories.update(id, {
+    ...updates,
+    ...(content !== undefined && { content }),
+    updatedAt: Date.now(),
+  })
+}
+
+/** Returns false when there was no such memory */
+export async function deleteMemory(id: string): Promise<boolean> {
+  const existing = await db.memories.get(id)
+  if (!existing) return false
+  await db.memories.delete(id)
+  log('Deleted memory:', id)
+  return true
+}
+
+export async function deleteAllMemories(): Promise<void> {
+  await db.memories.clear()
+}
+
+/** The memories most relevant to the query, marked as used */
+export async function findRelevantMemories(query: string, limit = MAX_PROMPT_MEMORIES): Promise<MemoryEntry[]> {
+  const ranked = rankMemories(await db.memories.toArray(), query).slice(0, limit)
+  if (ranked.length > 0) {
+    const now = Date.now()
+    await db.memories.bulkUpdate(ranked.map(m => ({ key: m.id, changes: { lastUsedAt: now } })))
+  }
+  return ranked
+}
@@ -80,7 +80,7 @@ export async function getMessages(threadId: string): Promise<StoredMessage[]> {
 
 export async function updateMessage(
   id: string,
-  updates: Partial<Pick<StoredMessage, 'content' | 'reasoning' | 'toolCalls' | 'assistantSegments' | 'model' | 'provider'>>
+  updates: Partial<Pick<StoredMessage, 'content' | 'reasoning' | 'toolCalls' | 'assistantSegments' | 'model' | 'provider' | 'usage'>>
 ): Promise<void> {
   await db.messages.update(id, updates)
   log('Updated message:', id)
@@ -0,0 +1,57 @@
+import { db } from './db'
+import type { StoredReplay } from './types'
+import { generateId } from './types'
+import type { ReplayBundle } from '@agent/workflow/recording'
+
+/** Recordings carry every screenshot of the run, so only the newest few are kept */
+export const MAX_STORED_REPLAYS = 20
+
+export async function saveReplay(
+  bundle: ReplayBundle,
+  label: string,
+  threadId?: string,
+  imported?: boolean
+): Promise<StoredReplay> {
+  const replay: StoredReplay = {
+    id: generateId(),
+    createdAt: Date.now(),
+    threadId,
+    label,
+    bundle,
+    ...(imported && { imported }),
+  }
+  await db.replays.add(replay)
+
+  const stale = await db.replays.orderBy('createdAt').reverse().offset(MAX_STORED_REPLAYS).primaryKeys()
+  if (stale.length > 0) {
+    await db.replays.bulkDelete(stale)
+  }
+  return replay
+}
+
+export async function getReplay(id: string): Promise<StoredReplay | undefined> {
+  return db.replays.get(id)
+}
+
+export async function getAllReplays(): Promise<StoredReplay[]> {
+  return db.replays.orderBy('createdAt').reverse().toArray()
+}
+
+export async function deleteReplay(id: string): Promise<void> {
+  await db.replays.delete(id)
+}
+
+/** Download a recording as a JSON file that can be imported again */
+export function downloadReplay(replay: StoredReplay): void {
+  const json = JSON.stringify(replay.bundle, null, 2)
+  const blob = new Blob([json], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `bouno-run-${new Date(replay.createdAt).toISOString().replace(/[:.]/g, '-')}.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -1,6 +1,7 @@
 import { db } from './db'
 import type { ScheduledShortcut } from './types'
 import { generateId } from './types'
+import { addTokenUsage, type TokenUsage } from '@agent/workflow/types'
 
 export async function createShortcut(
   data: Omit<ScheduledShortcut, 'id' | 'createdAt' | 'enabled'>
@@ -41,12 +42,18 @@ export async function getEnabledShortcuts(): Promise<ScheduledShortcut[]> {
 export async function markShortcutRun(
   id: string,
   status: 'success' | 'error',
-  error?: string
+  error?: string,
+  usage?: TokenUsage,
+  data?: unknown
 ): Promise<void> {
+  const shortcut = await db.shortcuts.get(id)
   await db.shortcuts.update(id, {
     lastRunAt: Date.now(),
     lastRunStatus: status,
     lastRunError: error,
+    lastRunUsage: usage,
+    lastRunData: data,
+    totalUsage: addTokenUsage(shortcut?.totalUsage, usage),
   })
 }
 
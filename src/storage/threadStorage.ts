@@ -46,6 +46,8 @@ export async function deleteThread(id: string): Promise<void> {
   await db.attachments.where('threadId').equals(id).delete()
   // Delete all messages for this thread
   await db.messages.where('threadId').equals(id).delete()
+  // Delete recorded runs, which hold copies of the conversation
+  await db.replays.where('threadId').equals(id).delete()
   // Delete the thread
   await db.threads.delete(id)
   log('Deleted thread:', id)
@@ -55,6 +57,7 @@ export async function deleteAllThreads(): Promise<void> {
   await db.branchStates.clear()
   await db.attachments.clear()
   await db.messages.clear()
+  await db.replays.clear()
   await db.threads.clear()
   log('Deleted all data')
 }
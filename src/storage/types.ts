@@ -1,4 +1,4 @@
-import type { ToolCallInfo, AssistantMessageSegment } from '@agent/index'
+import type { ToolCallInfo, AssistantMessageSegment, TokenUsage } from '@agent/index'
 
 export interface Thread {
   id: string
@@ -22,6 +22,7 @@ export interface StoredMessage {
   // Model info (for assistant messages)
   model?: string      // e.g., "claude-sonnet-4-20250514"
   provider?: string   // e.g., "anthropic"
+  usage?: TokenUsage  // Summed over the LLM calls that produced this message
 }
 
 // Tracks which branch is active at each fork point in a thread
@@ -48,6 +49,7 @@ export interface StoredAttachment {
 export const ATTACHMENT_SIZE_LIMIT = 5 * 1024 * 1024
 
 import type { ProviderType } from '@shared/settings'
+import type { JsonSchema } from '@shared/jsonSchema'
 
 export interface ShortcutSchedule {
   type: 'once' | 'recurring'
@@ -69,11 +71,59 @@ export interface ScheduledShortcut {
   provider?: ProviderType
   /** Override model — falls back to user's current setting if undefined */
   model?: string
+  /** JSON Schema for the run's final answer; the parsed result is kept in `lastRunData` */
+  outputSchema?: JsonSchema
+  /** Play this macro instead of running the agent; the prompt is then only used if a step fails */
+  macroId?: string
   enabled: boolean
   createdAt: number
   lastRunAt?: number
   lastRunStatus?: 'success' | 'error'
   lastRunError?: string
+  lastRunUsage?: TokenUsage
+  /** Structured result of the last successful run, when the shortcut has an output schema */
+  lastRunData?: unknown
+  /** Accumulated over every run */
+  totalUsage?: TokenUsage
+}
+
+import type { ReplayBundle } from '@agent/workflow/recording'
+import type { Macro } from '@shared/macro'
+
+/** A recorded agent run, kept so it can be downloaded or replayed */
+export interface StoredReplay {
+  id: string
+  createdAt: number
+  threadId?: string
+  /** The user's request that started the run */
+  label: string
+  bundle: ReplayBundle
+  /** Loaded from a file rather than recorded here; only replayed with recorded tool results */
+  imported?: boolean
+}
+
+/** A fact kept across threads, e.g. an address or how a site's login works */
+export interface MemoryEntry {
+  id: string
+  content: string
+  /** Extra words to match on besides the content */
+  tags?: string[]
+  /** Saved by the agent's remember tool or typed in settings */
+  source: 'agent' | 'user'
+  createdAt: number
+  updatedAt: number
+  /** Last time the memory was recalled or put in a prompt */
+  lastUsedAt?: number
+}
+
+/** A saved macro: tool calls that replay without a model */
+export interface StoredMacro extends Macro {
+  id: string
+  createdAt: number
+  updatedAt: number
+  lastRunAt?: number
+  lastRunStatus?: 'success' | 'fallback' | 'error'
+  lastRunError?: string
 }
 
 export function generateId(): string {
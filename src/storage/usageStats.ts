@@ -0,0 +1,67 @@
+import { db } from './db'
+import { addTokenUsage, type TokenUsage } from '@agent/workflow/types'
+
+export interface UsageRow {
+  id: string
+  label: string
+  usage: TokenUsage
+}
+
+export interface UsageSummary {
+  chats?: TokenUsage
+  shortcuts?: TokenUsage
+  byModel: UsageRow[]
+  byThread: UsageRow[]
+  byShortcut: UsageRow[]
+}
+
+function addToRow(rows: Map<string, UsageRow>, id: string, label: string, usage: TokenUsage): void {
+  const row = rows.get(id)
+  rows.set(id, { id, label, usage: addTokenUsage(row?.usage, usage)! })
+}
+
+/** Most expensive first; rows without a price are ordered by token count */
+function sortRows(rows: Map<string, UsageRow>): UsageRow[] {
+  const tokens = (row: UsageRow) => row.usage.inputTokens + row.usage.outputTokens
+  return [...rows.values()].sort(
+    (a, b) => (b.usage.cost ?? 0) - (a.usage.cost ?? 0) || tokens(b) - tokens(a)
+  )
+}
+
+/** Spend across all stored chats and scheduled shortcut runs */
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const [messages, threads, shortcuts] = await Promise.all([
+    db.messages.filter((m) => !!m.usage).toArray(),
+    db.threads.toArray(),
+    db.shortcuts.toArray(),
+  ])
+  const threadTitles = new Map(threads.map((t) => [t.id, t.title]))
+
+  let chats: TokenUsage | undefined
+  const byModel = new Map<string, UsageRow>()
+  const byThread = new Map<string, UsageRow>()
+
+  for (const message of messages) {
+    const usage = message.usage!
+    chats = addTokenUsage(chats, usage)
+    const model = message.model ?? 'unknown'
+    addToRow(byModel, `${message.provider ?? ''}/${model}`, model, usage)
+    addToRow(byThread, message.threadId, threadTitles.get(message.threadId) ?? 'Deleted chat', usage)
+  }
+
+  let shortcutTotal: TokenUsage | undefined
+  const byShortcut = new Map<string, UsageRow>()
+  for (const shortcut of shortcuts) {
+    if (!shortcut.totalUsage) continue
+    shortcutTotal = addTokenUsage(shortcutTotal, shortcut.totalUsage)
+    addToRow(byShortcut, shortcut.id, shortcut.name, shortcut.totalUsage)
+  }
+
+  return {
+    chats,
+    shortcuts: shortcutTotal,
+    byModel: sortRows(byModel),
+    byThread: sortRows(byThread),
+    byShortcut: sortRows(byShortcut),
+  }
+}
@@ -90,5 +90,57 @@ export const debuggingTools: ToolDefinition[] = [
     ],
     enabled: true,
     category: 'debugging'
+  },
+  {
+    name: 'read_storage',
+    description: 'Inspect the tab origin\'s client-side state: localStorage, sessionStorage, IndexedDB database and store names, and cookies. Values that look like credentials or tokens are redacted. Actions: "list" (keys with value previews), "get" (one full value), "set" and "remove" (change a localStorage, sessionStorage or cookie value; always asks the user first).',
+    parameters: [
+      {
+        name: 'tabId',
+        type: 'number',
+        description: 'Target tab ID',
+        required: true
+      },
+      {
+        name: 'action',
+        type: 'string',
+        description: 'What to do',
+        enum: ['list', 'get', 'set', 'remove'],
+        default: 'list'
+      },
+      {
+        name: 'area',
+        type: 'string',
+        description: 'Which storage to use. Required for get, set and remove; list covers all of them without it.',
+        enum: ['localStorage', 'sessionStorage', 'indexedDB', 'cookies'],
+        required: false
+      },
+      {
+        name: 'filter',
+        type: 'string',
+        description: 'For list: only keys, cookie names or database/store names containing this text',
+        required: false
+      },
+      {
+        name: 'key',
+        type: 'string',
+        description: 'For get, set and remove: the storage key or cookie name',
+        required: false
+      },
+      {
+        name: 'value',
+        type: 'string',
+        description: 'For set: the new value (JSON must be passed as a string)',
+        required: false
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'For list: maximum entries per area',
+        default: 100
+      }
+    ],
+    enabled: true,
+    category: 'debugging'
   }
 ]
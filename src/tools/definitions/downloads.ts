@@ -0,0 +1,56 @@
+import type { ToolDefinition } from './types'
+
+export const downloadTools: ToolDefinition[] = [
+  {
+    name: 'downloads',
+    description: 'See and use files the browser downloaded. "list" shows recent downloads; "wait" blocks until a download finishes (call it right after clicking an export button; without download_id it waits for the newest one started since the last wait); "read" returns a text, CSV or JSON file\'s contents; "attach" adds a finished file (e.g. a PDF) to the conversation so you can see it. read and attach fetch the file\'s URL again with the user\'s cookies, so they refuse downloads that came from a form post. Without download_id, read and attach use the newest completed download.',
+    parameters: [
+      {
+        name: 'action',
+        type: 'string',
+        description: 'What to do',
+        required: true,
+        enum: ['list', 'wait', 'read', 'attach']
+      },
+      {
+        name: 'tabId',
+        type: 'number',
+        description: 'Tab that started the download. Needed to read files the page generated itself.',
+        required: false
+      },
+      {
+        name: 'download_id',
+        type: 'number',
+        description: 'Download ID from list or wait',
+        required: false
+      },
+      {
+        name: 'query',
+        type: 'string',
+        description: 'list: only downloads whose filename or URL contains this',
+        required: false
+      },
+      {
+        name: 'state',
+        type: 'string',
+        description: 'list: only downloads in this state',
+        required: false,
+        enum: ['in_progress', 'complete', 'interrupted']
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'list: maximum downloads to return',
+        default: 10
+      },
+      {
+        name: 'timeout',
+        type: 'number',
+        description: 'wait: seconds to wait (max 300)',
+        default: 30
+      }
+    ],
+    enabled: true,
+    category: 'media'
+  }
+]
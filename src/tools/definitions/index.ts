@@ -4,8 +4,10 @@ import { interactionTools } from './interaction'
 import { navigationTools } from './navigation'
 import { debuggingTools } from './debugging'
 import { mediaTools } from './media'
+import { downloadTools } from './downloads'
 import { uiTools } from './ui'
 import { skillTools } from './skills'
+import { memoryTools } from './memory'
 
 export type { ToolDefinition, ToolParameter, ToolParameterType, ToolCategory } from './types'
 
@@ -15,8 +17,10 @@ const allToolDefinitions: ToolDefinition[] = [
   ...navigationTools,
   ...debuggingTools,
   ...mediaTools,
+  ...downloadTools,
   ...uiTools,
   ...skillTools,
+  ...memoryTools,
 ]
 
 const toolStateMap = new Map<string, boolean>()
@@ -74,6 +78,7 @@ export function getToolNamesByCategory(): Record<ToolCategory, string[]> {
     media: [],
     ui: [],
     skills: [],
+    memory: [],
     mcp: [],
   }
 
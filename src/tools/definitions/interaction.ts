@@ -154,5 +154,45 @@ export const interactionTools: ToolDefinition[] = [
     ],
     enabled: true,
     category: 'interaction'
+  },
+  {
+    name: 'upload_file',
+    description: 'Upload files (PDF, CSV, DOCX, images...) to a file input or drop them on a drag-and-drop zone. The ref can be the input itself or the upload button/label around a hidden input.',
+    parameters: [
+      {
+        name: 'tabId',
+        type: 'number',
+        description: 'Target tab ID',
+        required: true
+      },
+      {
+        name: 'file_ids',
+        type: 'array',
+        description: 'Files to upload: chat attachment IDs, screenshot imageIds, result_ids of stored outputs, or "download_<id>" for a finished download',
+        required: true,
+        items: { type: 'string' }
+      },
+      {
+        name: 'ref',
+        type: 'string',
+        description: 'File input, upload button or drop zone ref',
+        required: false
+      },
+      {
+        name: 'coordinate',
+        type: 'array',
+        description: '[x, y] of the drop zone',
+        required: false,
+        items: { type: 'number' }
+      },
+      {
+        name: 'filename',
+        type: 'string',
+        description: 'Name to give a single uploaded file (e.g. "report.csv" for a stored output)',
+        required: false
+      }
+    ],
+    enabled: true,
+    category: 'interaction'
   }
 ]
@@ -0,0 +1,63 @@
+import type { ToolDefinition } from './types'
+
+/**
+ * Long-term memory shared across threads
+ */
+export const memoryTools: ToolDefinition[] = [
+  {
+    name: 'remember',
+    description:
+      'Save a fact for future conversations, such as the user\'s shipping address, a preferred store, or how a site\'s login works ("our staging site uses SSO via Okta"). Save facts the user states or confirms and that will still be true later. The user approves each save. Do not save one-off task details, secrets like passwords or card numbers, or anything already in <memories>.',
+    parameters: [
+      {
+        name: 'content',
+        type: 'string',
+        description: 'One self-contained fact, written so it makes sense without this conversation',
+        required: true,
+      },
+      {
+        name: 'tags',
+        type: 'array',
+        description: 'Extra keywords to find the fact by (e.g. ["address", "shipping"])',
+        items: { type: 'string' },
+      },
+    ],
+    enabled: true,
+    category: 'memory',
+  },
+  {
+    name: 'recall',
+    description:
+      'Search saved memories by keywords. The most relevant memories are already in <memories>; use this when you need something that is not there.',
+    parameters: [
+      {
+        name: 'query',
+        type: 'string',
+        description: 'Keywords to search for (e.g. "shipping address")',
+        required: true,
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of memories to return',
+        default: 5,
+      },
+    ],
+    enabled: true,
+    category: 'memory',
+  },
+  {
+    name: 'forget',
+    description: 'Delete a saved memory that is wrong or out of date. Save the corrected fact with remember afterwards if there is one.',
+    parameters: [
+      {
+        name: 'id',
+        type: 'string',
+        description: 'ID of the memory, as shown in <memories> or returned by recall',
+        required: true,
+      },
+    ],
+    enabled: true,
+    category: 'memory',
+  },
+]
@@ -3,7 +3,7 @@ import type { ToolDefinition } from './types'
 export const readingTools: ToolDefinition[] = [
   {
     name: 'read_page',
-    description: 'Get the accessibility tree of the page. Returns element refs needed for interaction.',
+    description: 'Get the accessibility tree of the page. Returns element refs needed for interaction. Iframe contents are nested under their iframe; their refs name the frame (e.g., "ref_f2_14").',
     parameters: [
       {
         name: 'tabId',
@@ -68,6 +68,90 @@ export const readingTools: ToolDefinition[] = [
     enabled: true,
     category: 'reading'
   },
+  {
+    name: 'extract_table',
+    description: 'Extract tabular data as columns and rows: HTML tables, ARIA grids, or repeated cards/list items (search results, product grids). Without ref, takes the largest one on the page and lists the others. Reports next-page/load-more controls when the data continues on another page. Prefer this over get_page_text for tables.',
+    parameters: [
+      {
+        name: 'tabId',
+        type: 'number',
+        description: 'Target tab ID',
+        required: true
+      },
+      {
+        name: 'ref',
+        type: 'string',
+        description: 'A table, grid or list container, or any element inside one',
+        required: false
+      },
+      {
+        name: 'index',
+        type: 'number',
+        description: 'Without ref: which table to take, from the "others" list of a previous call',
+        default: 0
+      },
+      {
+        name: 'max_rows',
+        type: 'number',
+        description: 'Maximum rows to extract',
+        default: 1000
+      },
+      {
+        name: 'format',
+        type: 'string',
+        description: '"json" for a rows array, "csv" for CSV text',
+        enum: ['json', 'csv'],
+        default: 'json'
+      }
+    ],
+    enabled: true,
+    category: 'reading'
+  },
+  {
+    name: 'extract',
+    description: 'Extract structured records from the page: one per search result, product card or table row, or a single record from a detail page. Give a JSON Schema or a field list; fields are found from the page markup and the rest are read from the items\' text, then checked against the schema. Reports fields it could not find. Prefer this over process_result snippets for scraping.',
+    parameters: [
+      {
+        name: 'tabId',
+        type: 'number',
+        description: 'Target tab ID',
+        required: true
+      },
+      {
+        name: 'schema',
+        type: 'object',
+        description: 'JSON Schema of the result: an array of objects for repeated items, or an object for a single record. Property descriptions help find the fields.',
+        required: false
+      },
+      {
+        name: 'fields',
+        type: 'array',
+        description: 'Instead of schema: field names, optionally typed as "name:number" (string, number, integer, boolean)',
+        required: false,
+        items: { type: 'string' }
+      },
+      {
+        name: 'ref',
+        type: 'string',
+        description: 'The element holding the items (or the record, with multiple false). Defaults to the largest list or table on the page.',
+        required: false
+      },
+      {
+        name: 'multiple',
+        type: 'boolean',
+        description: 'Whether to extract many records or one. Defaults to the schema\'s type, or true for a field list.',
+        required: false
+      },
+      {
+        name: 'max_items',
+        type: 'number',
+        description: 'Maximum records to extract',
+        default: 100
+      }
+    ],
+    enabled: true,
+    category: 'reading'
+  },
   {
     name: 'read_result',
     description: 'Paginate or search a stored large tool output. When outputs exceed 25k chars, they are stored with a result_id — use this to explore them.',
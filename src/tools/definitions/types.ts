@@ -1,6 +1,6 @@
 export type ToolParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object'
 
-export type ToolCategory = 'reading' | 'interaction' | 'navigation' | 'debugging' | 'media' | 'ui' | 'skills' | 'mcp'
+export type ToolCategory = 'reading' | 'interaction' | 'navigation' | 'debugging' | 'media' | 'ui' | 'skills' | 'memory' | 'mcp'
 
 export interface ToolParameter {
   name: string
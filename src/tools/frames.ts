@@ -0,0 +1,80 @@
+import { MessageTypes } from '@shared/messages'
+import { TOP_FRAME_ID } from '@shared/frames'
+
+/** Guards against frames that (somehow) report themselves as their own child */
+const MAX_FRAME_NESTING = 10
+
+export interface FrameTarget {
+  frameId: number
+  /** The action's coordinate in that frame's viewport */
+  coordinate?: [number, number]
+}
+
+function sendToFrame<T>(tabId: number, frameId: number, message: Record<string, unknown>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, { ...message, frameId }, { frameId }, (response: T & { error?: string }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message))
+      } else if (response && response.error) {
+        reject(new Error(response.error))
+      } else {
+        resolve(response)
+      }
+    })
+  })
+}
+
+/** The tab's frames other than the top one */
+export async function getChildFrames(tabId: number): Promise<chrome.webNavigation.GetAllFrameResultDetails[]> {
+  const frames = await chrome.webNavigation.getAllFrames({ tabId })
+  return (frames ?? []).filter(frame => frame.frameId !== TOP_FRAME_ID)
+}
+
+/**
+ * Follow a point (or, without one, keyboard focus) down through the iframes
+ * it falls in. Returns the innermost frame and the point in its viewport.
+ */
+export async function resolveFrameTarget(tabId: number, coordinate?: [number, number]): Promise<FrameTarget> {
+  let target: FrameTarget = { frameId: TOP_FRAME_ID, coordinate }
+
+  for (let i = 0; i < MAX_FRAME_NESTING; i++) {
+    let child: { frameId?: number; coordinate?: [number, number] }
+    try {
+      child = await sendToFrame(tabId, target.frameId, {
+        type: MessageTypes.FRAME_TARGET,
+        coordinate: target.coordinate
+      })
+    } catch {
+      // No content script in this frame yet; act on it as it is
+      break
+    }
+    if (child?.frameId === undefined) break
+    target = { frameId: child.frameId, coordinate: child.coordinate }
+  }
+
+  return target
+}
+
+/** Where a frame's viewport starts in the top frame's viewport */
+export async function getFrameOffset(tabId: number, frameId: number): Promise<{ x: number; y: number }> {
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }) ?? []
+  const parentOf = new Map(frames.map(frame => [frame.frameId, frame.parentFrameId]))
+  const offset = { x: 0, y: 0 }
+
+  let current = frameId
+  for (let i = 0; current !== TOP_FRAME_ID; i++) {
+    const parent = parentOf.get(current)
+    if (parent === undefined || parent < 0 || i >= MAX_FRAME_NESTING) {
+      throw new Error(`Frame ${frameId} is not in this tab`)
+    }
+    const step = await sendToFrame<{ x: number; y: number }>(tabId, parent, {
+      type: MessageTypes.FRAME_OFFSET,
+      childFrameId: current
+    })
+    offset.x += step.x
+    offset.y += step.y
+    current = parent
+  }
+
+  return offset
+}
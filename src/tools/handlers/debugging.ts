@@ -2,6 +2,8 @@ import { registerTool } from '../registry'
 import { MessageTypes } from '@shared/messages'
 import type { ConsoleMessage, NetworkRequest } from '@shared/types'
 import { MAX_CONSOLE_MESSAGES, MAX_NETWORK_REQUESTS } from '@shared/constants'
+import { TOP_FRAME_ID } from '@shared/frames'
+import { withDebugger } from '@shared/debugger'
 
 const consoleMessagesStore = new Map<number, ConsoleMessage[]>()
 const networkRequestsStore = new Map<number, NetworkRequest[]>()
@@ -34,7 +36,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
 
   try {
     await new Promise<void>((resolve, reject) => {
-      chrome.tabs.sendMessage(tabId, { type: 'PING' }, () => {
+      chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: TOP_FRAME_ID }, () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
         } else {
@@ -46,7 +48,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
     console.log('Bouno: Injecting content script into tab', tabId)
     try {
       await chrome.scripting.executeScript({
-        target: { tabId },
+        target: { tabId, allFrames: true },
         files: ['content.js']
       })
       await new Promise(resolve => setTimeout(resolve, 150))
@@ -60,7 +62,7 @@ async function sendToContentScript<T>(tabId: number, message: unknown): Promise<
   await ensureContentScriptInjected(tabId)
 
   return new Promise((resolve, reject) => {
-    chrome.tabs.sendMessage(tabId, message, (response: T & { error?: string }) => {
+    chrome.tabs.sendMessage(tabId, message, { frameId: TOP_FRAME_ID }, (response: T & { error?: string }) => {
       if (chrome.runtime.lastError) {
         reject(new Error(chrome.runtime.lastError.message))
       } else if (response && response.error) {
@@ -243,45 +245,11 @@ async function javascriptTool(params: {
     }
   }
 
-  const target: chrome.debugger.Debuggee = { tabId }
-  const protocolVersion = '1.3'
-
-  const sendDebuggerCommand = <T = unknown>(
-    method: string,
-    commandParams?: object
-  ): Promise<T> => new Promise((resolve, reject) => {
-    chrome.debugger.sendCommand(target, method, commandParams, (result) => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message))
-      } else {
-        resolve(result as T)
-      }
-    })
-  })
-
-  const attachDebugger = (): Promise<void> => new Promise((resolve, reject) => {
-    chrome.debugger.attach(target, protocolVersion, () => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message))
-      } else {
-        resolve()
-      }
-    })
-  })
-
-  const detachDebugger = (): Promise<void> => new Promise((resolve) => {
-    chrome.debugger.detach(target, () => resolve())
-  })
-
-  let attached = false
-
   try {
     await ensureDebuggerPermission()
-    await attachDebugger()
-    attached = true
 
     // Evaluate user code in the page JavaScript context, awaiting async results.
-    const response = await sendDebuggerCommand<{
+    const response = await withDebugger(tabId, (send) => send<{
       result?: { value?: unknown; description?: string; unserializableValue?: string }
       exceptionDetails?: { text?: string; exception?: { description?: string; value?: string } }
     }>('Runtime.evaluate', {
@@ -289,7 +257,7 @@ async function javascriptTool(params: {
       awaitPromise: true,
       returnByValue: true,
       userGesture: true,
-    })
+    }))
 
     if (response.exceptionDetails) {
       const errText = response.exceptionDetails.exception?.description
@@ -315,10 +283,6 @@ async function javascriptTool(params: {
     return { success: true, result: resultPayload.description ?? null }
   } catch (err) {
     throw new Error(`JavaScript execution failed: ${(err as Error).message}`)
-  } finally {
-    if (attached) {
-      await detachDebugger()
-    }
   }
 }
 
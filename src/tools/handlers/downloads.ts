@@ -0,0 +1,367 @@
+import { registerTool } from '../registry'
+import { bytesToBase64 } from '@shared/base64'
+
+const DEFAULT_LIST_LIMIT = 10
+const DEFAULT_WAIT_SECONDS = 30
+const MAX_WAIT_SECONDS = 300
+const WAIT_POLL_MS = 500
+/** Larger files are left on disk; the model can't use them whole anyway */
+const MAX_READ_BYTES = 10 * 1024 * 1024
+const MAX_ATTACH_BYTES = 5 * 1024 * 1024
+const MAX_TRACKED_POSTS = 200
+const MAX_UNCLAIMED_DOWNLOADS = 50
+
+const TEXT_EXTENSIONS = ['txt', 'csv', 'tsv', 'json', 'jsonl', 'ndjson', 'md', 'xml', 'html', 'htm', 'log', 'yaml', 'yml']
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/csv', 'application/x-ndjson']
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+}
+
+interface DownloadSummary {
+  id: number
+  filename: string
+  url: string
+  mime: string
+  state: string
+  bytes: number
+  startTime: string
+  endTime?: string
+  error?: string
+}
+
+/**
+ * URLs recently requested with something other than GET. Downloads don't
+ * record their method, so this is how a form-post export is told apart
+ * from a plain link before it would be fetched again.
+ */
+const postedUrls = new Set<string>()
+
+function trackPostedUrl(details: chrome.webRequest.WebRequestBodyDetails): void {
+  if (details.method === 'GET') return
+  postedUrls.delete(details.url)
+  postedUrls.add(details.url)
+  if (postedUrls.size > MAX_TRACKED_POSTS) {
+    postedUrls.delete(postedUrls.values().next().value!)
+  }
+}
+
+/**
+ * Downloads started since a `wait` last returned one, oldest first. The
+ * click that starts an export is a model round-trip before the `wait`, so
+ * this, not the time of the call, decides which download is new.
+ */
+const unclaimedDownloads: number[] = []
+
+function trackCreatedDownload(item: chrome.downloads.DownloadItem): void {
+  unclaimedDownloads.push(item.id)
+  if (unclaimedDownloads.length > MAX_UNCLAIMED_DOWNLOADS) unclaimedDownloads.shift()
+}
+
+/** The newest unclaimed download, or else the newest one still running whenever it started */
+async function findNewDownload(): Promise<chrome.downloads.DownloadItem | undefined> {
+  const newest = unclaimedDownloads[unclaimedDownloads.length - 1]
+  if (newest !== undefined) {
+    const [item] = await chrome.downloads.search({ id: newest })
+    if (item) return item
+  }
+  const [running] = await chrome.downloads.search({ state: 'in_progress', orderBy: ['-startTime'], limit: 1 })
+  return running
+}
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() || path
+}
+
+function extensionOf(path: string): string {
+  const name = baseName(path)
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+function summarize(item: chrome.downloads.DownloadItem): DownloadSummary {
+  return {
+    id: item.id,
+    filename: baseName(item.filename),
+    url: item.finalUrl || item.url,
+    mime: item.mime,
+    state: item.state,
+    bytes: item.state === 'complete' ? item.fileSize : item.bytesReceived,
+    startTime: item.startTime,
+    ...(item.endTime && { endTime: item.endTime }),
+    ...(item.error && { error: item.error }),
+  }
+}
+
+async function getDownload(id: number): Promise<chrome.downloads.DownloadItem> {
+  const [item] = await chrome.downloads.search({ id })
+  if (!item) {
+    throw new Error(`Download ${id} not found. Use action "list" to see recent downloads.`)
+  }
+  return item
+}
+
+async function getCompletedDownload(id: number | undefined): Promise<chrome.downloads.DownloadItem> {
+  if (id === undefined) {
+    const [latest] = await chrome.downloads.search({ state: 'complete', orderBy: ['-startTime'], limit: 1 })
+    if (!latest) throw new Error('No completed downloads')
+    return latest
+  }
+
+  const item = await getDownload(id)
+  if (item.state !== 'complete') {
+    throw new Error(`Download ${id} is ${item.state === 'in_progress' ? 'still in progress; use action "wait" first' : `${item.state}${item.error ? ` (${item.error})` : ''}`}`)
+  }
+  if (!item.exists) {
+    throw new Error(`${baseName(item.filename)} was moved or deleted after downloading`)
+  }
+  return item
+}
+
+function mediaTypeOf(item: chrome.downloads.DownloadItem): string {
+  if (item.mime && item.mime !== 'application/octet-stream') return item.mime
+  return EXTENSION_MIME_TYPES[extensionOf(item.filename)] || 'application/octet-stream'
+}
+
+function isTextDownload(item: chrome.downloads.DownloadItem): boolean {
+  const mime = item.mime.split(';')[0].trim()
+  return mime.startsWith('text/') ||
+    TEXT_MIME_TYPES.includes(mime) ||
+    TEXT_EXTENSIONS.includes(extensionOf(item.filename))
+}
+
+/**
+ * Fetch a finished download's bytes again. Extensions can't read files on
+ * disk, so http(s) and data URLs are re-requested with the user's cookies,
+ * and blob URLs (client-side exports) are read inside the tab that made
+ * them, which must still be open. Redirects are followed by fetching the
+ * final URL. A download that came from a form post is refused: requesting
+ * it again would repeat the action that produced it.
+ */
+async function loadDownload(item: chrome.downloads.DownloadItem, tabId?: number): Promise<Blob> {
+  const url = item.finalUrl || item.url
+  const filename = baseName(item.filename)
+
+  if (postedUrls.has(item.url) || postedUrls.has(url)) {
+    throw new Error(`${filename} came from a form submission, which can't be repeated safely. Attach the file from the chat instead.`)
+  }
+
+  if (url.startsWith('blob:')) {
+    if (!tabId) throw new Error('tabId is required to read a file the page generated')
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: async (blobUrl: string) => {
+        try {
+          const blob = await fetch(blobUrl).then(res => res.blob())
+          return await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader()
+            reader.onload = () => resolve(reader.result as string)
+            reader.onerror = () => reject(reader.error)
+            reader.readAsDataURL(blob)
+          })
+        } catch {
+          return null
+        }
+      },
+      args: [url],
+    })
+    if (typeof injection?.result !== 'string') {
+      throw new Error(`${filename} was generated by a page and is no longer available. Export it again from the same tab, then read it right away.`)
+    }
+    return fetch(injection.result).then(res => res.blob())
+  }
+
+  const response = await fetch(url, { credentials: 'include' })
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${filename} again: HTTP ${response.status}. Attach the file from the chat instead.`)
+  }
+  return response.blob()
+}
+
+/** Split one CSV line, honouring quoted fields */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields
+}
+
+function describeCsv(text: string, delimiter: string): { columns: string[]; rows: number } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  return {
+    columns: lines.length > 0 ? splitCsvLine(lines[0], delimiter).map(column => column.trim()) : [],
+    rows: Math.max(lines.length - 1, 0),
+  }
+}
+
+async function listDownloads(params: { query?: string; state?: string; limit?: number }) {
+  const { query, state, limit = DEFAULT_LIST_LIMIT } = params
+  const items = await chrome.downloads.search({
+    orderBy: ['-startTime'],
+    limit: Math.max(limit, 1),
+    ...(query && { query: [query] }),
+    ...(state && { state: state as chrome.downloads.DownloadState }),
+  })
+  return { downloads: items.map(summarize), count: items.length }
+}
+
+/**
+ * Wait for a download to finish. Without an id, waits for the newest one
+ * started since the last wait (e.g. by the click just before it), so a
+ * download an earlier wait already returned is never mistaken for it.
+ */
+async function waitForDownload(params: { download_id?: number; timeout?: number }) {
+  const { download_id } = params
+  const timeoutSeconds = Math.min(Math.max(params.timeout ?? DEFAULT_WAIT_SECONDS, 1), MAX_WAIT_SECONDS)
+  const deadline = Date.now() + timeoutSeconds * 1000
+
+  while (true) {
+    let item: chrome.downloads.DownloadItem | undefined
+    if (download_id !== undefined) {
+      item = await getDownload(download_id)
+    } else {
+      item = await findNewDownload()
+    }
+
+    if (item && item.state !== 'in_progress') {
+      if (download_id === undefined) unclaimedDownloads.length = 0
+      if (item.state === 'interrupted') {
+        throw new Error(`Download ${item.id} (${baseName(item.filename)}) failed: ${item.error ?? 'interrupted'}`)
+      }
+      return { download: summarize(item) }
+    }
+
+    if (Date.now() >= deadline) {
+      return item
+        ? { timedOut: true, download: summarize(item) }
+        : { timedOut: true, message: `No download started within ${timeoutSeconds}s` }
+    }
+    await new Promise(resolve => setTimeout(resolve, WAIT_POLL_MS))
+  }
+}
+
+async function readDownload(params: { download_id?: number; tabId?: number }) {
+  const item = await getCompletedDownload(params.download_id)
+  const filename = baseName(item.filename)
+
+  if (!isTextDownload(item)) {
+    throw new Error(`${filename} (${mediaTypeOf(item)}) is not a text file. Use action "attach" to add it to the chat instead.`)
+  }
+  if (item.fileSize > MAX_READ_BYTES) {
+    throw new Error(`${filename} is ${item.fileSize} bytes; files over ${MAX_READ_BYTES} bytes can't be read`)
+  }
+
+  const text = await (await loadDownload(item, params.tabId)).text()
+  const extension = extensionOf(item.filename)
+  const base = { id: item.id, filename, mediaType: mediaTypeOf(item), bytes: item.fileSize }
+
+  if (extension === 'json' || item.mime.includes('json')) {
+    try {
+      return { ...base, content: JSON.stringify(JSON.parse(text), null, 2) }
+    } catch {
+      // Not valid JSON after all (or JSON lines); return it as text
+    }
+  }
+  if (extension === 'csv' || extension === 'tsv' || item.mime.includes('csv')) {
+    return { ...base, ...describeCsv(text, extension === 'tsv' ? '\t' : ','), content: text }
+  }
+  return { ...base, content: text }
+}
+
+/** A finished download as a data URL, for attaching or uploading elsewhere */
+export async function getDownloadFile(downloadId: number | undefined, tabId?: number): Promise<{
+  id: number
+  dataUrl: string
+  filename: string
+  mediaType: string
+  bytes: number
+}> {
+  const item = await getCompletedDownload(downloadId)
+  const filename = baseName(item.filename)
+  if (item.fileSize > MAX_ATTACH_BYTES) {
+    throw new Error(`${filename} is ${item.fileSize} bytes; files over ${MAX_ATTACH_BYTES} bytes can't be used`)
+  }
+
+  const blob = await loadDownload(item, tabId)
+  const mediaType = mediaTypeOf(item)
+  return {
+    id: item.id,
+    dataUrl: `data:${mediaType};base64,${bytesToBase64(new Uint8Array(await blob.arrayBuffer()))}`,
+    filename,
+    mediaType,
+    bytes: blob.size,
+  }
+}
+
+/** Put a finished download into the conversation as a file the model can see */
+async function attachDownload(params: { download_id?: number; tabId?: number }) {
+  const { id, dataUrl, filename, mediaType, bytes } = await getDownloadFile(params.download_id, params.tabId)
+  return {
+    id,
+    filename,
+    mediaType,
+    bytes,
+    file: { data: dataUrl, mediaType, filename },
+  }
+}
+
+async function downloads(params: {
+  action: string
+  tabId?: number
+  download_id?: number
+  query?: string
+  state?: string
+  limit?: number
+  timeout?: number
+}): Promise<unknown> {
+  const { action } = params
+
+  switch (action) {
+    case 'list':
+      return listDownloads(params)
+    case 'wait':
+      return waitForDownload(params)
+    case 'read':
+      return readDownload(params)
+    case 'attach':
+      return attachDownload(params)
+    default:
+      throw new Error(`Unknown downloads action: ${action}. Use list, wait, read or attach.`)
+  }
+}
+
+export function registerDownloadTools(): void {
+  registerTool('downloads', downloads as (params: Record<string, unknown>) => Promise<unknown>)
+  chrome.webRequest.onBeforeRequest.addListener(trackPostedUrl, { urls: ['<all_urls>'] })
+  chrome.downloads.onCreated.addListener(trackCreatedDownload)
+}
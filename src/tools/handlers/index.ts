@@ -3,18 +3,24 @@ export { registerPageReadingTools } from './pageReading'
 export { registerInteractionTools, getScreenshot } from './interaction'
 export { registerDebuggingTools, addConsoleMessage, addNetworkRequest, clearTabData } from './debugging'
 export { registerMediaTools, addFrame, isGifRecordingActive } from './media'
+export { registerDownloadTools } from './downloads'
+export { registerStorageTools } from './storage'
 export { registerUiTools, getCurrentPlan, clearPlan } from './ui'
 export { registerOutputReadingTools } from './outputReading'
 export { registerSkillTools } from './skills'
+export { registerMemoryTools } from './memory'
 
 import { registerTabTools } from './tabs'
 import { registerPageReadingTools } from './pageReading'
 import { registerInteractionTools } from './interaction'
 import { registerDebuggingTools } from './debugging'
 import { registerMediaTools } from './media'
+import { registerDownloadTools } from './downloads'
+import { registerStorageTools } from './storage'
 import { registerUiTools } from './ui'
 import { registerOutputReadingTools } from './outputReading'
 import { registerSkillTools } from './skills'
+import { registerMemoryTools } from './memory'
 
 export function registerAllHandlers(): void {
   registerTabTools()
@@ -22,7 +28,10 @@ export function registerAllHandlers(): void {
   registerInteractionTools()
   registerDebuggingTools()
   registerMediaTools()
+  registerDownloadTools()
+  registerStorageTools()
   registerUiTools()
   registerOutputReadingTools()
   registerSkillTools()
+  registerMemoryTools()
 }
@@ -3,6 +3,14 @@ import { MessageTypes } from '@shared/messages'
 import type { Screenshot } from '@shared/types'
 import { MAX_SCREENSHOTS } from '@shared/constants'
 import { captureTabScreenshot } from '@shared/screenshot'
+import { TOP_FRAME_ID, frameIdFromRef } from '@shared/frames'
+import { getEnabledSiteProfiles, findMatchingSiteProfiles, type InputBackend } from '@sites/index'
+import { resolveFrameTarget, getFrameOffset, type FrameTarget } from '../frames'
+import { dispatchTrustedAction, TRUSTED_ACTIONS } from '../trustedInput'
+import { getStoredOutput } from '@shared/outputStore'
+import { bytesToBase64 } from '@shared/base64'
+import { getAttachment } from '@storage/attachmentStorage'
+import { getDownloadFile } from './downloads'
 
 const screenshotStore = new Map<string, Screenshot>()
 let screenshotCounter = 0
@@ -35,7 +43,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
 
   try {
     await new Promise<void>((resolve, reject) => {
-      chrome.tabs.sendMessage(tabId, { type: 'PING' }, () => {
+      chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: TOP_FRAME_ID }, () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
         } else {
@@ -47,7 +55,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
     console.log('Bouno: Injecting content script into tab', tabId)
     try {
       await chrome.scripting.executeScript({
-        target: { tabId },
+        target: { tabId, allFrames: true },
         files: ['content.js']
       })
       await new Promise(resolve => setTimeout(resolve, 150))
@@ -57,11 +65,15 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
   }
 }
 
-async function sendToContentScript<T>(tabId: number, message: unknown): Promise<T> {
+async function sendToContentScript<T>(
+  tabId: number,
+  message: Record<string, unknown>,
+  frameId = TOP_FRAME_ID
+): Promise<T> {
   await ensureContentScriptInjected(tabId)
 
   return new Promise((resolve, reject) => {
-    chrome.tabs.sendMessage(tabId, message, (response: T & { error?: string }) => {
+    chrome.tabs.sendMessage(tabId, { ...message, frameId }, { frameId }, (response: T & { error?: string }) => {
       if (chrome.runtime.lastError) {
         reject(new Error(chrome.runtime.lastError.message))
       } else if (response && response.error) {
@@ -88,7 +100,37 @@ async function formInput(params: {
     type: MessageTypes.FORM_INPUT,
     ref,
     value
-  })
+  }, frameIdFromRef(ref))
+}
+
+/**
+ * The frame an action goes to. A ref names its frame; a coordinate (or,
+ * with neither, keyboard focus) is followed into whatever iframe it falls
+ * in and translated into that frame's viewport.
+ */
+async function frameForTarget(tabId: number, ref?: string, coordinate?: [number, number]): Promise<FrameTarget> {
+  if (ref) return { frameId: frameIdFromRef(ref), coordinate }
+  await ensureContentScriptInjected(tabId)
+  return resolveFrameTarget(tabId, coordinate)
+}
+
+/** Internal: lets the approval policy inspect a click/input target. Not exposed to the model. */
+async function describeElement(params: {
+  ref?: string
+  coordinate?: [number, number]
+  tabId: number
+}): Promise<unknown> {
+  const { ref, coordinate, tabId } = params
+
+  if (!tabId) throw new Error('tabId is required')
+  if (!ref && !coordinate) throw new Error('ref or coordinate is required')
+
+  const target = await frameForTarget(tabId, ref, coordinate)
+  return sendToContentScript(tabId, {
+    type: MessageTypes.DESCRIBE_ELEMENT,
+    ref,
+    coordinate: target.coordinate
+  }, target.frameId)
 }
 
 async function takeScreenshot(tabId: number): Promise<{
@@ -186,22 +228,95 @@ async function computer(params: {
     }
 
     default: {
-      return sendToContentScript(tabId, {
+      const backend = TRUSTED_ACTIONS.includes(action) ? await getInputBackend(tabId) : 'synthetic'
+      if (backend === 'trusted') {
+        return trustedAction(params)
+      }
+
+      // A drag goes to the frame it starts in; typing and keys follow focus
+      const point = action === 'left_click_drag' ? params.start_coordinate : params.coordinate
+      const target = params.ref || point || action === 'type' || action === 'key'
+        ? await frameForTarget(tabId, params.ref, point)
+        : { frameId: TOP_FRAME_ID, coordinate: point }
+      const translate = (coordinate?: [number, number]): [number, number] | undefined =>
+        coordinate && point && target.coordinate
+          ? [coordinate[0] + target.coordinate[0] - point[0], coordinate[1] + target.coordinate[1] - point[1]]
+          : coordinate
+
+      const result = await sendToContentScript<{ noEffect?: boolean }>(tabId, {
         type: MessageTypes.COMPUTER_ACTION,
         action,
-        coordinate: params.coordinate,
+        coordinate: translate(params.coordinate),
         ref: params.ref,
         text: params.text,
         modifiers: params.modifiers,
         scroll_direction: params.scroll_direction,
         scroll_amount: params.scroll_amount,
-        start_coordinate: params.start_coordinate,
-        repeat: params.repeat
-      })
+        start_coordinate: translate(params.start_coordinate),
+        repeat: params.repeat,
+        checkEffect: backend === 'auto'
+      }, target.frameId)
+
+      // Only auto retries; a synthetic-only site never gets the debugger attached
+      if (!result?.noEffect || backend !== 'auto') return result
+
+      // The page ignored the synthetic events; send the real thing
+      try {
+        return { ...await trustedAction(params), fallback: 'trusted' }
+      } catch (err) {
+        return { ...result, note: `The page did not react, and trusted input failed: ${(err as Error).message}` }
+      }
     }
   }
 }
 
+/** The input backend the site profiles pick for the tab's page; 'synthetic' when none does */
+async function getInputBackend(tabId: number): Promise<InputBackend> {
+  const tab = await chrome.tabs.get(tabId)
+  if (!tab.url) return 'synthetic'
+
+  const profiles = findMatchingSiteProfiles(await getEnabledSiteProfiles(), tab.url)
+  return profiles.find(profile => profile.input)?.input ?? 'synthetic'
+}
+
+/** Where a ref sits in the top frame's viewport, which is where trusted input lands */
+async function refPoint(tabId: number, ref: string, focus: boolean): Promise<[number, number]> {
+  const frameId = frameIdFromRef(ref)
+  const point = await sendToContentScript<{ x: number; y: number }>(tabId, {
+    type: MessageTypes.ACTION_POINT,
+    ref,
+    focus
+  }, frameId)
+  const offset = frameId === TOP_FRAME_ID ? { x: 0, y: 0 } : await getFrameOffset(tabId, frameId)
+  return [point.x + offset.x, point.y + offset.y]
+}
+
+async function trustedAction(params: Parameters<typeof computer>[0]): Promise<Record<string, unknown>> {
+  const { action, tabId, ref } = params
+  const isKeyboard = action === 'type' || action === 'key'
+
+  let point = params.coordinate
+  if (ref) {
+    const center = await refPoint(tabId, ref, isKeyboard)
+    // A focused ref already receives the keys; only mouse actions need the point
+    if (!isKeyboard) point = center
+  }
+  if (action === 'left_click_drag' && !point) {
+    throw new Error('coordinate is required for left_click_drag')
+  }
+
+  return dispatchTrustedAction(tabId, {
+    action,
+    point,
+    start: params.start_coordinate,
+    text: params.text,
+    modifiers: params.modifiers,
+    scroll_direction: params.scroll_direction,
+    scroll_amount: params.scroll_amount,
+    repeat: params.repeat
+  })
+}
+
 async function uploadImage(params: {
   imageId: string
   tabId: number
@@ -219,17 +334,101 @@ async function uploadImage(params: {
     throw new Error(`Screenshot not found: ${imageId}`)
   }
 
+  const target = await frameForTarget(tabId, ref, coordinate)
   return sendToContentScript(tabId, {
     type: MessageTypes.UPLOAD_IMAGE,
     dataUrl: screenshot.dataUrl,
     ref,
-    coordinate,
+    coordinate: target.coordinate,
     filename
-  })
+  }, target.frameId)
+}
+
+const TEXT_MEDIA_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  md: 'text/markdown',
+  html: 'text/html',
+  xml: 'application/xml',
+}
+
+interface UploadFileData {
+  dataUrl: string
+  filename: string
+  mediaType: string
+}
+
+function textToDataUrl(text: string, mediaType: string): string {
+  return `data:${mediaType};base64,${bytesToBase64(new TextEncoder().encode(text))}`
+}
+
+/**
+ * Look up a file by ID: a screenshot, a stored tool output, a finished
+ * download ("download_12") or a chat attachment.
+ */
+async function resolveUploadFile(fileId: string, tabId: number): Promise<UploadFileData> {
+  const screenshot = screenshotStore.get(fileId)
+  if (screenshot) {
+    return { dataUrl: screenshot.dataUrl, filename: `${fileId}.png`, mediaType: 'image/png' }
+  }
+
+  const output = getStoredOutput(fileId)
+  if (output !== undefined) {
+    return { dataUrl: textToDataUrl(output, 'text/plain'), filename: `${fileId}.txt`, mediaType: 'text/plain' }
+  }
+
+  const downloadMatch = /^download_(\d+)$/.exec(fileId)
+  if (downloadMatch) {
+    const { dataUrl, filename, mediaType } = await getDownloadFile(Number(downloadMatch[1]), tabId)
+    return { dataUrl, filename, mediaType }
+  }
+
+  const attachment = await getAttachment(fileId)
+  if (!attachment) {
+    throw new Error(`File not found: ${fileId}. Use a chat attachment ID, a screenshot imageId, a result_id or download_<id>.`)
+  }
+  if (!attachment.dataUrl) {
+    throw new Error(`${attachment.filename} was too large to keep; ask the user to upload it themselves`)
+  }
+  return { dataUrl: attachment.dataUrl, filename: attachment.filename, mediaType: attachment.mediaType }
+}
+
+async function uploadFile(params: {
+  file_ids: string[]
+  tabId: number
+  ref?: string
+  coordinate?: [number, number]
+  filename?: string
+}): Promise<unknown> {
+  const { tabId, ref, coordinate, filename } = params
+  const fileIds = typeof params.file_ids === 'string' ? [params.file_ids] : params.file_ids
+
+  if (!tabId) throw new Error('tabId is required')
+  if (!fileIds?.length) throw new Error('file_ids is required')
+  if (!ref && !coordinate) throw new Error('ref or coordinate is required')
+
+  const files = await Promise.all(fileIds.map(id => resolveUploadFile(id, tabId)))
+  if (filename && files.length === 1) {
+    files[0].filename = filename
+    // Stored outputs are plain text until named, e.g. "report.csv"
+    if (files[0].mediaType === 'text/plain') {
+      files[0].mediaType = TEXT_MEDIA_TYPES[filename.split('.').pop()?.toLowerCase() ?? ''] ?? 'text/plain'
+    }
+  }
+
+  const target = await frameForTarget(tabId, ref, coordinate)
+  return sendToContentScript(tabId, {
+    type: MessageTypes.UPLOAD_FILE,
+    files,
+    ref,
+    coordinate: target.coordinate
+  }, target.frameId)
 }
 
 export function registerInteractionTools(): void {
   registerTool('form_input', formInput as (params: Record<string, unknown>) => Promise<unknown>)
   registerTool('computer', computer as (params: Record<string, unknown>) => Promise<unknown>)
   registerTool('upload_image', uploadImage as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('upload_file', uploadFile as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('describe_element', describeElement as (params: Record<string, unknown>) => Promise<unknown>)
 }
@@ -1,6 +1,7 @@
 import { registerTool } from '../registry'
 import type { GifRecordingState, GifFrame, GifFrameMetadata } from '@shared/types'
 import { MAX_GIF_FRAMES } from '@shared/constants'
+import { bytesToBase64 } from '@shared/base64'
 
 const recordingState: GifRecordingState = {
   recording: false,
@@ -256,16 +257,6 @@ function drawFrameAnnotation(
   }
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
-  let binary = ''
-  const chunkSize = 0x8000
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize)
-    binary += String.fromCharCode(...chunk)
-  }
-  return btoa(binary)
-}
-
 async function blobToDataUrl(blob: Blob): Promise<string> {
   const bytes = new Uint8Array(await blob.arrayBuffer())
   return `data:${blob.type};base64,${bytesToBase64(bytes)}`
@@ -0,0 +1,48 @@
+import { registerTool } from '../registry'
+import { addMemory, deleteMemory, findRelevantMemories } from '@storage/memoryStorage'
+
+async function remember(params: {
+  content: string
+  tags?: string[]
+}): Promise<unknown> {
+  const { memory, duplicate } = await addMemory(params.content, { tags: params.tags, source: 'agent' })
+  return {
+    status: duplicate ? 'already_saved' : 'saved',
+    id: memory.id,
+    message: duplicate ? 'This fact was already saved.' : 'Saved. It will be available in future conversations.',
+  }
+}
+
+async function recall(params: {
+  query: string
+  limit?: number
+}): Promise<unknown> {
+  const memories = await findRelevantMemories(params.query, params.limit ?? 5)
+  if (memories.length === 0) {
+    return { memories: [], message: `No saved memories match "${params.query}".` }
+  }
+  return {
+    memories: memories.map(m => ({
+      id: m.id,
+      content: m.content,
+      ...(m.tags?.length && { tags: m.tags }),
+      saved: new Date(m.updatedAt).toISOString().split('T')[0],
+    })),
+  }
+}
+
+async function forget(params: {
+  id: string
+}): Promise<unknown> {
+  const deleted = await deleteMemory(params.id)
+  if (!deleted) {
+    return { error: `No memory with id "${params.id}". Use recall to find the right id.` }
+  }
+  return { status: 'deleted', id: params.id }
+}
+
+export function registerMemoryTools(): void {
+  registerTool('remember', remember as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('recall', recall as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('forget', forget as (params: Record<string, unknown>) => Promise<unknown>)
+}
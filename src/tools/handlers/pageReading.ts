@@ -1,6 +1,12 @@
 import { registerTool } from '../registry'
 import { MessageTypes } from '@shared/messages'
-import { DEFAULT_TREE_DEPTH } from '@shared/constants'
+import { DEFAULT_TREE_DEPTH, MAX_OUTPUT_CHARS, MAX_TOOL_OUTPUT_CHARS } from '@shared/constants'
+import { storeOutput } from '@shared/outputStore'
+import { toCsv } from '@shared/csv'
+import { planExtraction, finishExtraction, describeExtraction } from '@shared/extraction'
+import { TOP_FRAME_ID, frameIdFromRef } from '@shared/frames'
+import type { ElementLocator } from '@shared/actionRecording'
+import { getChildFrames, getFrameOffset } from '../frames'
 
 class InjectionError extends Error {
   logs: string[]
@@ -63,7 +69,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<{ logs: strin
 
   try {
     const pingResult = await new Promise<unknown>((resolve, reject) => {
-      chrome.tabs.sendMessage(tabId, { type: 'PING' }, (response) => {
+      chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: TOP_FRAME_ID }, (response) => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
         } else {
@@ -78,7 +84,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<{ logs: strin
 
     try {
       const injectionResult = await chrome.scripting.executeScript({
-        target: { tabId },
+        target: { tabId, allFrames: true },
         files: ['content.js']
       })
       log(`Injection executeScript returned: ${JSON.stringify(injectionResult)}`)
@@ -87,7 +93,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<{ logs: strin
       log(`Verifying injection with second ping...`)
       try {
         const verifyResult = await new Promise<unknown>((resolve, reject) => {
-          chrome.tabs.sendMessage(tabId, { type: 'PING' }, (response) => {
+          chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: TOP_FRAME_ID }, (response) => {
             if (chrome.runtime.lastError) {
               reject(new Error(chrome.runtime.lastError.message))
             } else {
@@ -113,14 +119,18 @@ async function ensureContentScriptInjected(tabId: number): Promise<{ logs: strin
   return { logs }
 }
 
-async function sendToContentScript<T>(tabId: number, message: unknown): Promise<T & { _debugLogs?: string[] }> {
+async function sendToContentScript<T>(
+  tabId: number,
+  message: Record<string, unknown>,
+  frameId = TOP_FRAME_ID
+): Promise<T & { _debugLogs?: string[] }> {
   const allLogs: string[] = []
   const log = (msg: string) => {
     console.log(`[Bouno:send] ${msg}`)
     allLogs.push(msg)
   }
 
-  log(`sendToContentScript called: tabId=${tabId}, message=${JSON.stringify(message)}`)
+  log(`sendToContentScript called: tabId=${tabId}, frameId=${frameId}, message=${JSON.stringify(message)}`)
 
   try {
     const result = await ensureContentScriptInjected(tabId)
@@ -139,7 +149,7 @@ async function sendToContentScript<T>(tabId: number, message: unknown): Promise<
   log(`Sending message to content script...`)
 
   return new Promise((resolve, reject) => {
-    chrome.tabs.sendMessage(tabId, message, (response: T & { error?: string }) => {
+    chrome.tabs.sendMessage(tabId, { ...message, frameId }, { frameId }, (response: T & { error?: string }) => {
       if (chrome.runtime.lastError) {
         log(`Message send ERROR: ${chrome.runtime.lastError.message}`)
         const error = new Error(chrome.runtime.lastError.message)
@@ -159,6 +169,55 @@ async function sendToContentScript<T>(tabId: number, message: unknown): Promise<
   })
 }
 
+interface ReadPageResponse {
+  pageContent: string
+  viewport: { width: number; height: number }
+  refCount: number
+}
+
+/** An iframe line in the tree, e.g. `iframe "Payment" [ref_5] frame="2"` */
+const FRAME_LINE = / frame="(\d+)"$/
+
+/**
+ * Read one frame's tree and nest the trees of the frames it embeds under
+ * their iframe lines. A frame that can't be read leaves a note instead.
+ */
+async function readFrameTree(
+  tabId: number,
+  frameId: number,
+  params: { depth: number; filter: 'all' | 'interactive'; ref_id?: string }
+): Promise<ReadPageResponse & { _debugLogs?: string[] }> {
+  const result = await sendToContentScript<ReadPageResponse>(tabId, {
+    type: MessageTypes.READ_PAGE,
+    ...params
+  }, frameId)
+
+  const lines: string[] = []
+  let refCount = result.refCount
+  for (const line of result.pageContent ? result.pageContent.split('\n') : []) {
+    lines.push(line)
+    const match = FRAME_LINE.exec(line)
+    if (!match) continue
+
+    const indent = line.length - line.trimStart().length
+    const depth = params.depth - indent - 1
+    if (depth < 0) continue
+
+    const childIndent = ' '.repeat(indent + 1)
+    try {
+      const child = await readFrameTree(tabId, Number(match[1]), { depth, filter: params.filter })
+      refCount += child.refCount
+      if (child.pageContent) {
+        lines.push(...child.pageContent.split('\n').map(childLine => childIndent + childLine))
+      }
+    } catch (err) {
+      lines.push(`${childIndent}(frame content unavailable: ${(err as Error).message})`)
+    }
+  }
+
+  return { ...result, pageContent: lines.join('\n'), refCount }
+}
+
 async function readPage(params: {
   tabId: number
   depth?: number
@@ -173,12 +232,15 @@ async function readPage(params: {
   }
 
   try {
-    const result = await sendToContentScript(tabId, {
-      type: MessageTypes.READ_PAGE,
-      depth,
-      filter,
-      ref_id
-    })
+    // A ref from an iframe is read in that frame
+    const frameId = ref_id ? frameIdFromRef(ref_id) : TOP_FRAME_ID
+    const result = await readFrameTree(tabId, frameId, { depth, filter, ref_id })
+    if (result.pageContent.length > MAX_OUTPUT_CHARS) {
+      return {
+        error: `Output exceeds ${MAX_OUTPUT_CHARS.toLocaleString()} character limit (${result.pageContent.length.toLocaleString()} characters) including iframe content. Try a smaller depth parameter, or use ref_id to focus on one element or iframe.`,
+        _debugLogs: result._debugLogs
+      }
+    }
     console.log(`[Bouno:read_page] Success`)
     return result
   } catch (err) {
@@ -215,6 +277,12 @@ async function getPageText(params: { tabId: number }): Promise<unknown> {
   }
 }
 
+interface FindResponse {
+  elements: Array<{ bounds: { x: number; y: number } }>
+  count: number
+  totalMatches: number
+}
+
 async function find(params: { query: string; tabId: number }): Promise<unknown> {
   const { query, tabId } = params
   console.log(`[Bouno:find] Called with params:`, { tabId, query })
@@ -228,10 +296,31 @@ async function find(params: { query: string; tabId: number }): Promise<unknown>
   }
 
   try {
-    const result = await sendToContentScript(tabId, {
+    const result = await sendToContentScript<FindResponse>(tabId, {
       type: MessageTypes.FIND_ELEMENTS,
       query
     })
+
+    // Search iframes too, with bounds moved into the top frame's viewport
+    for (const frame of await getChildFrames(tabId)) {
+      try {
+        const offset = await getFrameOffset(tabId, frame.frameId)
+        const found = await sendToContentScript<FindResponse>(tabId, {
+          type: MessageTypes.FIND_ELEMENTS,
+          query
+        }, frame.frameId)
+        for (const element of found.elements) {
+          element.bounds.x += offset.x
+          element.bounds.y += offset.y
+          result.elements.push(element)
+        }
+        result.count += found.count
+        result.totalMatches += found.totalMatches
+      } catch (err) {
+        console.log(`[Bouno:find] Skipped frame ${frame.frameId}:`, (err as Error).message)
+      }
+    }
+
     console.log(`[Bouno:find] Success, found elements`)
     return result
   } catch (err) {
@@ -244,8 +333,143 @@ async function find(params: { query: string; tabId: number }): Promise<unknown>
   }
 }
 
+interface ExtractTableResponse {
+  columns: string[]
+  rows: string[][]
+  rowCount: number
+  [key: string]: unknown
+}
+
+/** Rows shown inline when the full table went to the output store */
+const TABLE_PREVIEW_ROWS = 10
+
+async function extractTable(params: {
+  tabId: number
+  ref?: string
+  index?: number
+  max_rows?: number
+  format?: 'json' | 'csv'
+}): Promise<unknown> {
+  const { tabId, ref, index, max_rows, format = 'json' } = params
+
+  if (!tabId) {
+    return { error: 'tabId is required' }
+  }
+
+  try {
+    const table = await sendToContentScript<ExtractTableResponse>(tabId, {
+      type: MessageTypes.EXTRACT_TABLE,
+      ref,
+      index,
+      max_rows
+    }, ref ? frameIdFromRef(ref) : TOP_FRAME_ID)
+    delete table._debugLogs
+
+    const csv = toCsv(table.columns, table.rows)
+    const data = format === 'csv' ? csv : JSON.stringify(table.rows)
+    if (data.length <= MAX_TOOL_OUTPUT_CHARS) {
+      return format === 'csv' ? { ...table, rows: undefined, csv } : table
+    }
+
+    // Too big to show: keep the data itself in the output store so
+    // process_result gets clean CSV or JSON rather than a wrapped result
+    const records = table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column, row[i]])))
+    const resultId = storeOutput('extract_table', format === 'csv' ? csv : JSON.stringify(records, null, 1))
+    const csvResultId = format === 'csv' ? resultId : storeOutput('extract_table_csv', csv)
+    return {
+      ...table,
+      rows: table.rows.slice(0, TABLE_PREVIEW_ROWS),
+      result_id: resultId,
+      csv_result_id: csvResultId,
+      note: `Showing ${TABLE_PREVIEW_ROWS} of ${table.rowCount} rows. The full table is in ${resultId} as ${format === 'csv' ? 'CSV' : 'a JSON array of objects keyed by column'}; use read_result or process_result on it.`
+    }
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
+
+interface ExtractDataResponse {
+  ref?: string
+  records: Array<Record<string, string>>
+  items: string[]
+  limitReached?: boolean
+}
+
+/**
+ * Pull records matching a schema or field list out of the page. Fields the
+ * DOM heuristics miss are left for the agent workflow, which reads
+ * `_extraction.items` with the model and drops them from the result.
+ */
+async function extractData(params: {
+  tabId: number
+  schema?: unknown
+  fields?: unknown
+  ref?: string
+  multiple?: boolean
+  max_items?: number
+}): Promise<unknown> {
+  const { tabId, ref, max_items } = params
+
+  if (!tabId) {
+    return { error: 'tabId is required' }
+  }
+
+  const plan = planExtraction(params)
+  if ('error' in plan) {
+    return { error: plan.error }
+  }
+
+  try {
+    const page = await sendToContentScript<ExtractDataResponse>(tabId, {
+      type: MessageTypes.EXTRACT_DATA,
+      fields: plan.fields,
+      multiple: plan.multiple,
+      ref,
+      max_items
+    }, ref ? frameIdFromRef(ref) : TOP_FRAME_ID)
+
+    const report = finishExtraction(page.records, plan)
+    const note = describeExtraction(report, page.limitReached)
+    return {
+      ...(page.ref && { ref: page.ref }),
+      count: report.records.length,
+      ...report,
+      ...(page.limitReached && { limitReached: true }),
+      ...(note && { note }),
+      ...((report.missing || report.invalid) && { _extraction: { plan, items: page.items } }),
+    }
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
+
+/** Internal: turns a role/name locator into a ref on the live page. Used by macro playback. */
+async function resolveLocator(params: { locator: ElementLocator; tabId: number }): Promise<unknown> {
+  const { locator, tabId } = params
+
+  if (!tabId) {
+    return { error: 'tabId is required' }
+  }
+
+  if (!locator) {
+    return { error: 'locator is required' }
+  }
+
+  try {
+    return await sendToContentScript(tabId, {
+      type: MessageTypes.RESOLVE_LOCATOR,
+      locator
+    })
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
+
 export function registerPageReadingTools(): void {
   registerTool('read_page', readPage as (params: Record<string, unknown>) => Promise<unknown>)
   registerTool('get_page_text', getPageText as (params: Record<string, unknown>) => Promise<unknown>)
   registerTool('find', find as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('extract_table', extractTable as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('extract', extractData as (params: Record<string, unknown>) => Promise<unknown>)
+  registerTool('resolve_locator', resolveLocator as (params: Record<string, unknown>) => Promise<unknown>)
 }
@@ -38,6 +38,8 @@ async function invokeSkill(params: {
     skill_name: skill.name,
     description: skill.description,
     instructions: skill.instructions,
+    ...(skill.allowedTools?.length && { allowed_tools: skill.allowedTools }),
+    ...(skill.frontmatter.requires?.tools?.length && { required_tools: skill.frontmatter.requires.tools }),
     message: `Skill "${skill.name}" activated. Follow the instructions below to complete the task.`,
   }
 }
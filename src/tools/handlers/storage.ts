@@ -0,0 +1,383 @@
+import { registerTool } from '../registry'
+
+type StorageArea = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'cookies'
+/** IndexedDB is listed by name only */
+type EditableArea = Exclude<StorageArea, 'indexedDB'>
+
+const AREAS: StorageArea[] = ['localStorage', 'sessionStorage', 'indexedDB', 'cookies']
+const EDITABLE_AREAS: EditableArea[] = ['localStorage', 'sessionStorage', 'cookies']
+
+const DEFAULT_LIMIT = 100
+const PREVIEW_CHARS = 200
+/** Values longer than this are cut before leaving the page */
+const MAX_VALUE_CHARS = 200000
+
+/** Names of keys, cookies and JSON members whose values are usually credentials */
+const SENSITIVE_NAME = /pass(word|wd)?|secret|token|auth(?!or)|session|\bsid\b|jwt|api[-_]?key|credential|csrf|xsrf|bearer|private|otp|signature|^__(secure|host)-/i
+const JWT = /^(Bearer\s+)?eyJ[\w-]+\.[\w-]+\.[\w-]*$/
+const EMBEDDED_JWT = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g
+/** Long unbroken runs of letters and digits, like access keys and session ids */
+const OPAQUE_SECRET = /^(?=.*\d)(?=.*[A-Za-z])[A-Za-z0-9+/_\-=.]{32,}$/
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface StorageEntry {
+  key: string
+  value: string
+  length: number
+  redacted?: boolean
+}
+
+interface PageStorage {
+  origin: string
+  localStorage?: Array<[string, string, number]>
+  sessionStorage?: Array<[string, string, number]>
+  indexedDB?: Array<{ name: string; version?: number; stores?: Array<{ name: string; count: number }>; error?: string }>
+  error?: string
+}
+
+function isRestrictedPageUrl(url: string): boolean {
+  return (
+    url.startsWith('chrome://') ||
+    url.startsWith('chrome-extension://') ||
+    url.startsWith('about:') ||
+    url.startsWith('edge://') ||
+    url.startsWith('brave://')
+  )
+}
+
+async function getTabUrl(tabId: number): Promise<URL> {
+  const tab = await chrome.tabs.get(tabId)
+  if (!tab.url) {
+    throw new Error('Cannot access tab: no URL (tab may still be loading)')
+  }
+  if (isRestrictedPageUrl(tab.url)) {
+    throw new Error('Browser-protected pages (chrome://, extension pages, about:) have no storage the agent can read')
+  }
+  return new URL(tab.url)
+}
+
+function looksSecret(value: string): boolean {
+  const trimmed = value.trim()
+  return JWT.test(trimmed) || (OPAQUE_SECRET.test(trimmed) && !UUID.test(trimmed))
+}
+
+function redaction(value: string): string {
+  return `[redacted: ${value.length} chars${JWT.test(value.trim()) ? ', JWT' : ''}]`
+}
+
+/** Redact credential-like members of parsed JSON; returns whether anything changed */
+function redactJson(value: unknown): { value: unknown; changed: boolean } {
+  if (Array.isArray(value)) {
+    const items = value.map(redactJson)
+    return { value: items.map(item => item.value), changed: items.some(item => item.changed) }
+  }
+  if (value && typeof value === 'object') {
+    let changed = false
+    const members = Object.entries(value).map(([key, member]) => {
+      if (typeof member === 'string' && (SENSITIVE_NAME.test(key) || looksSecret(member))) {
+        changed = true
+        return [key, redaction(member)]
+      }
+      const inner = redactJson(member)
+      changed ||= inner.changed
+      return [key, inner.value]
+    })
+    return { value: Object.fromEntries(members), changed }
+  }
+  if (typeof value === 'string' && looksSecret(value)) {
+    return { value: redaction(value), changed: true }
+  }
+  return { value, changed: false }
+}
+
+/**
+ * A stored value as the model may see it. Values under credential-like
+ * names, tokens and long opaque strings are replaced with their length;
+ * JSON values keep their shape with only the sensitive members replaced.
+ */
+function redactValue(name: string, value: string): { value: string; redacted: boolean } {
+  if (SENSITIVE_NAME.test(name) || looksSecret(value)) {
+    return { value: redaction(value), redacted: true }
+  }
+  try {
+    const parsed = JSON.parse(value)
+    if (parsed && typeof parsed === 'object') {
+      const result = redactJson(parsed)
+      if (result.changed) return { value: JSON.stringify(result.value), redacted: true }
+    }
+  } catch {
+    // Not JSON (or cut short); tokens inside it are still caught below
+  }
+  const scrubbed = value.replace(EMBEDDED_JWT, token => redaction(token))
+  return { value: scrubbed, redacted: scrubbed !== value }
+}
+
+function preview(value: string): string {
+  return value.length > PREVIEW_CHARS ? `${value.slice(0, PREVIEW_CHARS)}…` : value
+}
+
+function matchesFilter(name: string, filter?: string): boolean {
+  return !filter || name.toLowerCase().includes(filter.toLowerCase())
+}
+
+/** Read Web Storage and IndexedDB names in the page, where the origin's storage lives */
+async function readPageStorage(tabId: number, areas: StorageArea[], maxChars: number): Promise<PageStorage> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: async (wanted: string[], maxValueChars: number) => {
+      const result: Record<string, unknown> = { origin: location.origin }
+      const readArea = (storage: Storage) => Array.from({ length: storage.length }, (_, i) => {
+        const key = storage.key(i) ?? ''
+        const value = storage.getItem(key) ?? ''
+        return [key, value.slice(0, maxValueChars), value.length]
+      })
+
+      try {
+        if (wanted.includes('localStorage')) result.localStorage = readArea(window.localStorage)
+        if (wanted.includes('sessionStorage')) result.sessionStorage = readArea(window.sessionStorage)
+        if (wanted.includes('indexedDB')) {
+          const databases = typeof indexedDB.databases === 'function' ? await indexedDB.databases() : []
+          result.indexedDB = await Promise.all(databases.filter(db => db.name).map(db => new Promise((resolve) => {
+            const request = indexedDB.open(db.name!)
+            request.onerror = () => resolve({ name: db.name, version: db.version, error: String(request.error) })
+            request.onblocked = () => resolve({ name: db.name, version: db.version, error: 'Blocked by another open connection' })
+            // The database was deleted since it was listed; don't create it again
+            request.onupgradeneeded = () => request.transaction?.abort()
+            request.onsuccess = () => {
+              const database = request.result
+              const names = Array.from(database.objectStoreNames)
+              if (names.length === 0) {
+                database.close()
+                resolve({ name: db.name, version: database.version, stores: [] })
+                return
+              }
+              const transaction = database.transaction(names, 'readonly')
+              const stores = names.map(name => ({ name, count: 0 }))
+              names.forEach((name, i) => {
+                const count = transaction.objectStore(name).count()
+                count.onsuccess = () => { stores[i].count = count.result }
+              })
+              transaction.oncomplete = () => {
+                database.close()
+                resolve({ name: db.name, version: database.version, stores })
+              }
+              // Counts can fail or the transaction can be aborted (e.g. the page closes the database)
+              transaction.onerror = transaction.onabort = () => {
+                database.close()
+                resolve({ name: db.name, version: database.version, stores, error: String(transaction.error ?? 'Transaction aborted') })
+              }
+            }
+          })))
+        }
+      } catch (err) {
+        // Sandboxed and opaque origins throw on storage access
+        result.error = String(err)
+      }
+      return result
+    },
+    args: [areas, maxChars],
+  })
+
+  const storage = injection?.result as PageStorage | undefined
+  if (!storage) throw new Error('Could not read the page\'s storage')
+  if (storage.error) throw new Error(`The page's storage is not accessible: ${storage.error}`)
+  return storage
+}
+
+async function writePageStorage(tabId: number, area: 'localStorage' | 'sessionStorage', key: string, value: string | null): Promise<void> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: (storageArea: string, storageKey: string, newValue: string | null) => {
+      try {
+        const storage = storageArea === 'localStorage' ? window.localStorage : window.sessionStorage
+        if (newValue === null) storage.removeItem(storageKey)
+        else storage.setItem(storageKey, newValue)
+        return null
+      } catch (err) {
+        return String(err)
+      }
+    },
+    args: [area, key, value],
+  })
+  if (injection?.result) throw new Error(`Could not change ${area}: ${injection.result}`)
+}
+
+function storageEntries(raw: Array<[string, string, number]>, filter: string | undefined, limit: number) {
+  const matching = raw.filter(([key]) => matchesFilter(key, filter))
+  const items: StorageEntry[] = matching.slice(0, limit).map(([key, value, length]) => {
+    const safe = redactValue(key, value)
+    return { key, value: preview(safe.value), length, ...(safe.redacted && { redacted: true }) }
+  })
+  return { count: matching.length, items }
+}
+
+function summarizeCookie(cookie: chrome.cookies.Cookie, full = false) {
+  const safe = cookie.httpOnly
+    ? { value: redaction(cookie.value), redacted: true }
+    : redactValue(cookie.name, cookie.value)
+  return {
+    name: cookie.name,
+    value: full ? safe.value : preview(safe.value),
+    domain: cookie.domain,
+    path: cookie.path,
+    expires: cookie.expirationDate ? new Date(cookie.expirationDate * 1000).toISOString() : 'session',
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite: cookie.sameSite,
+    ...(safe.redacted && { redacted: true }),
+  }
+}
+
+/** The URL chrome.cookies needs to address an existing cookie */
+function cookieUrl(cookie: chrome.cookies.Cookie): string {
+  return `${cookie.secure ? 'https' : 'http'}://${cookie.domain.replace(/^\./, '')}${cookie.path}`
+}
+
+async function findCookie(url: URL, name: string): Promise<chrome.cookies.Cookie | undefined> {
+  const cookies = await chrome.cookies.getAll({ url: url.href, name })
+  // The most specific path wins, as it would when the browser sends it
+  return cookies.sort((a, b) => b.path.length - a.path.length)[0]
+}
+
+function parseArea<T extends StorageArea>(area: string | undefined, allowed: T[]): T {
+  if (!area || !allowed.includes(area as T)) {
+    throw new Error(`area must be one of ${allowed.join(', ')}`)
+  }
+  return area as T
+}
+
+async function listStorage(tabId: number, url: URL, params: { area?: string; filter?: string; limit?: number }) {
+  const { filter, limit = DEFAULT_LIMIT } = params
+  const areas = params.area ? [parseArea(params.area, AREAS)] : AREAS
+  const result: Record<string, unknown> = { origin: url.origin }
+
+  const pageAreas = areas.filter(area => area !== 'cookies')
+  if (pageAreas.length > 0) {
+    const page = await readPageStorage(tabId, pageAreas, MAX_VALUE_CHARS)
+    if (page.localStorage) result.localStorage = storageEntries(page.localStorage, filter, limit)
+    if (page.sessionStorage) result.sessionStorage = storageEntries(page.sessionStorage, filter, limit)
+    if (page.indexedDB) {
+      result.indexedDB = page.indexedDB
+        .map(db => ({ ...db, stores: db.stores?.filter(store => matchesFilter(db.name, filter) || matchesFilter(store.name, filter)) }))
+        .filter(db => matchesFilter(db.name, filter) || (db.stores?.length ?? 0) > 0)
+    }
+  }
+
+  if (areas.includes('cookies')) {
+    const cookies = (await chrome.cookies.getAll({ url: url.href })).filter(cookie => matchesFilter(cookie.name, filter))
+    result.cookies = { count: cookies.length, items: cookies.slice(0, limit).map(cookie => summarizeCookie(cookie)) }
+  }
+
+  return result
+}
+
+async function getStorageValue(tabId: number, url: URL, params: { area?: string; key?: string }) {
+  const area = parseArea(params.area, EDITABLE_AREAS)
+  const { key } = params
+  if (!key) throw new Error('key is required for action "get"')
+
+  if (area === 'cookies') {
+    const cookie = await findCookie(url, key)
+    if (!cookie) throw new Error(`No cookie named "${key}" is sent to ${url.origin}`)
+    return { area, ...summarizeCookie(cookie, true) }
+  }
+
+  const page = await readPageStorage(tabId, [area], MAX_VALUE_CHARS)
+  const entry = page[area]?.find(([name]) => name === key)
+  if (!entry) throw new Error(`No ${area} key "${key}" on ${url.origin}. Use action "list" to see the keys.`)
+
+  const [, value, length] = entry
+  const safe = redactValue(key, value)
+  let shown = safe.value
+  try {
+    shown = JSON.stringify(JSON.parse(safe.value), null, 2)
+  } catch {
+    // Plain string value
+  }
+  return {
+    area,
+    key,
+    value: shown,
+    length,
+    ...(length > value.length && { truncated: true }),
+    ...(safe.redacted && { redacted: true }),
+  }
+}
+
+async function setStorageValue(tabId: number, url: URL, params: { area?: string; key?: string; value?: string }) {
+  const area = parseArea(params.area, EDITABLE_AREAS)
+  const { key, value } = params
+  if (!key) throw new Error('key is required for action "set"')
+  if (typeof value !== 'string') throw new Error('value (a string) is required for action "set"')
+
+  if (area === 'cookies') {
+    const existing = await findCookie(url, key)
+    // Keep an existing cookie's scope and flags so only its value changes
+    const cookie = await chrome.cookies.set(existing
+      ? {
+          url: cookieUrl(existing),
+          name: key,
+          value,
+          path: existing.path,
+          secure: existing.secure,
+          httpOnly: existing.httpOnly,
+          sameSite: existing.sameSite,
+          ...(!existing.hostOnly && { domain: existing.domain }),
+          ...(existing.expirationDate && { expirationDate: existing.expirationDate }),
+        }
+      : { url: url.origin, name: key, value, path: '/', secure: url.protocol === 'https:' })
+    if (!cookie) throw new Error(`Chrome refused to set cookie "${key}"`)
+    return { success: true, area, ...summarizeCookie(cookie), created: !existing }
+  }
+
+  await writePageStorage(tabId, area, key, value)
+  return { success: true, area, key, length: value.length }
+}
+
+async function removeStorageValue(tabId: number, url: URL, params: { area?: string; key?: string }) {
+  const area = parseArea(params.area, EDITABLE_AREAS)
+  const { key } = params
+  if (!key) throw new Error('key is required for action "remove"')
+
+  if (area === 'cookies') {
+    const existing = await findCookie(url, key)
+    if (!existing) throw new Error(`No cookie named "${key}" is sent to ${url.origin}`)
+    await chrome.cookies.remove({ url: cookieUrl(existing), name: key })
+    return { success: true, area, key, domain: existing.domain, path: existing.path }
+  }
+
+  await writePageStorage(tabId, area, key, null)
+  return { success: true, area, key }
+}
+
+async function readStorage(params: {
+  tabId: number
+  action?: string
+  area?: string
+  filter?: string
+  key?: string
+  value?: string
+  limit?: number
+}): Promise<unknown> {
+  const { tabId, action = 'list' } = params
+
+  if (!tabId) throw new Error('tabId is required')
+
+  const url = await getTabUrl(tabId)
+  switch (action) {
+    case 'list':
+      return listStorage(tabId, url, params)
+    case 'get':
+      return getStorageValue(tabId, url, params)
+    case 'set':
+      return setStorageValue(tabId, url, params)
+    case 'remove':
+      return removeStorageValue(tabId, url, params)
+    default:
+      throw new Error(`Unknown read_storage action: ${action}. Use list, get, set or remove.`)
+  }
+}
+
+export function registerStorageTools(): void {
+  registerTool('read_storage', readStorage as (params: Record<string, unknown>) => Promise<unknown>)
+}
@@ -1,4 +1,6 @@
 export { registerTool, executeTool, getRegisteredTools, hasTool } from './registry'
+export { validateToolParams, formatValidationError } from './validation'
+export type { ParamValidationIssue, ParamValidationResult } from './validation'
 
 export {
   getAllToolDefinitions,
@@ -18,6 +20,8 @@ export {
   registerInteractionTools,
   registerDebuggingTools,
   registerMediaTools,
+  registerDownloadTools,
+  registerStorageTools,
   registerUiTools,
   registerOutputReadingTools,
   registerAllHandlers,
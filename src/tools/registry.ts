@@ -1,4 +1,6 @@
 import type { ToolResult } from '@shared/types'
+import { getToolDefinition } from './definitions'
+import { validateToolParams, formatValidationError } from './validation'
 
 type ToolHandler<T = unknown> = (params: Record<string, unknown>) => Promise<T>
 const toolHandlers = new Map<string, ToolHandler>()
@@ -20,6 +22,22 @@ export async function executeTool(name: string, params: Record<string, unknown>)
     }
   }
 
+  // Internal tools without a definition (not exposed to the model) skip validation
+  const definition = getToolDefinition(name)
+  if (definition) {
+    const validation = validateToolParams(definition, params)
+    if (validation.issues.length > 0) {
+      const error = formatValidationError(name, validation.issues)
+      console.log(`[Bouno:registry] Invalid params for ${name}:`, validation.issues)
+      return {
+        success: false,
+        error,
+        result: { error, validation_errors: validation.issues }
+      }
+    }
+    params = validation.params
+  }
+
   try {
     console.log(`[Bouno:registry] Executing handler for: ${name}`)
     const result = await handler(params) as Record<string, unknown>
@@ -0,0 +1,240 @@
+/**
+ * Trusted input
+ *
+ * Real mouse and keyboard input sent through the DevTools Protocol. Unlike
+ * the content script's synthetic DOM events, these arrive with
+ * isTrusted=true, so React-controlled inputs, drag-and-drop libraries and
+ * canvas apps react to them. Points are CSS pixels in the top frame's
+ * viewport, the same space as screenshots.
+ */
+
+import { withDebugger, type SendCommand } from '@shared/debugger'
+
+const DRAG_STEPS = 10
+
+export interface TrustedAction {
+  action: string
+  /** Where mouse actions land; for drags, the end point */
+  point?: [number, number]
+  /** Drag start */
+  start?: [number, number]
+  text?: string
+  modifiers?: string
+  scroll_direction?: string
+  scroll_amount?: number
+  repeat?: number
+}
+
+export const TRUSTED_ACTIONS = [
+  'left_click',
+  'right_click',
+  'double_click',
+  'triple_click',
+  'hover',
+  'left_click_drag',
+  'scroll',
+  'type',
+  'key',
+]
+
+// CDP modifier bit flags
+const MODIFIER_BITS: Record<string, number> = {
+  alt: 1,
+  ctrl: 2,
+  control: 2,
+  meta: 4,
+  cmd: 4,
+  win: 4,
+  windows: 4,
+  shift: 8,
+}
+
+function modifierMask(names: string[]): number {
+  return names.reduce((mask, name) => mask | (MODIFIER_BITS[name.toLowerCase()] ?? 0), 0)
+}
+
+function parseModifierList(modifiers?: string): string[] {
+  return modifiers ? modifiers.split(/[+,\s]+/).filter(Boolean) : []
+}
+
+interface KeyDefinition {
+  key: string
+  code: string
+  keyCode: number
+  text?: string
+}
+
+const SPECIAL_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  return: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  esc: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  arrowup: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  arrowdown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  arrowleft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  arrowright: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  up: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  down: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  left: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  right: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  home: { key: 'Home', code: 'Home', keyCode: 36 },
+  end: { key: 'End', code: 'End', keyCode: 35 },
+  pageup: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  pagedown: { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+}
+
+function keyDefinition(key: string): KeyDefinition {
+  const special = SPECIAL_KEYS[key.toLowerCase()]
+  if (special) return special
+
+  const fKey = /^f([1-9]|1[0-2])$/i.exec(key)
+  if (fKey) {
+    return { key: key.toUpperCase(), code: key.toUpperCase(), keyCode: 111 + Number(fKey[1]) }
+  }
+
+  if (key.length === 1) {
+    const upper = key.toUpperCase()
+    const code = /[a-z]/i.test(key) ? `Key${upper}` : /\d/.test(key) ? `Digit${key}` : ''
+    return { key, code, keyCode: /[a-z\d]/i.test(key) ? upper.charCodeAt(0) : 0, text: key }
+  }
+
+  return { key, code: key, keyCode: 0 }
+}
+
+async function pressKey(send: SendCommand, keySpec: string, extraModifiers: string[]): Promise<void> {
+  const parts = keySpec.split('+')
+  const definition = keyDefinition(parts.pop() || '')
+  const modifiers = modifierMask([...parts, ...extraModifiers])
+  // Shortcuts like ctrl+a must not also type the letter
+  const text = modifiers & ~MODIFIER_BITS.shift ? undefined : definition.text
+
+  await send('Input.dispatchKeyEvent', {
+    type: text ? 'keyDown' : 'rawKeyDown',
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    modifiers,
+    ...(text && { text, unmodifiedText: text }),
+  })
+  await send('Input.dispatchKeyEvent', {
+    type: 'keyUp',
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    modifiers,
+  })
+}
+
+async function viewportCenter(send: SendCommand): Promise<[number, number]> {
+  const metrics = await send<{ cssLayoutViewport: { clientWidth: number; clientHeight: number } }>('Page.getLayoutMetrics')
+  const { clientWidth, clientHeight } = metrics.cssLayoutViewport
+  return [Math.round(clientWidth / 2), Math.round(clientHeight / 2)]
+}
+
+function requirePoint(input: TrustedAction): [number, number] {
+  if (!input.point) {
+    throw new Error(`A ref or coordinate is required for ${input.action}`)
+  }
+  return input.point
+}
+
+/** Send one `computer` action as trusted input */
+export async function dispatchTrustedAction(tabId: number, input: TrustedAction): Promise<Record<string, unknown>> {
+  const { action, repeat = 1 } = input
+  const modifierNames = parseModifierList(input.modifiers)
+  const modifiers = modifierMask(modifierNames)
+
+  return withDebugger(tabId, async (send) => {
+    const mouse = (type: string, [x, y]: [number, number], extra: object = {}) =>
+      send('Input.dispatchMouseEvent', { type, x, y, modifiers, ...extra })
+
+    switch (action) {
+      case 'left_click':
+      case 'right_click':
+      case 'double_click':
+      case 'triple_click': {
+        const point = requirePoint(input)
+        const button = action === 'right_click' ? 'right' : 'left'
+        const clicks = action === 'double_click' ? 2 : action === 'triple_click' ? 3 : 1
+        await mouse('mouseMoved', point)
+        for (let clickCount = 1; clickCount <= clicks; clickCount++) {
+          await mouse('mousePressed', point, { button, clickCount })
+          await mouse('mouseReleased', point, { button, clickCount })
+        }
+        return { success: true, action, coordinate: point, trusted: true }
+      }
+
+      case 'hover': {
+        const point = requirePoint(input)
+        await mouse('mouseMoved', point)
+        return { success: true, action, coordinate: point, trusted: true }
+      }
+
+      case 'left_click_drag': {
+        const end = requirePoint(input)
+        if (!input.start) {
+          throw new Error('start_coordinate is required for left_click_drag')
+        }
+        const [startX, startY] = input.start
+        await mouse('mouseMoved', input.start)
+        await mouse('mousePressed', input.start, { button: 'left', clickCount: 1 })
+        for (let step = 1; step <= DRAG_STEPS; step++) {
+          const x = startX + ((end[0] - startX) * step) / DRAG_STEPS
+          const y = startY + ((end[1] - startY) * step) / DRAG_STEPS
+          await mouse('mouseMoved', [x, y], { button: 'left', buttons: 1 })
+        }
+        await mouse('mouseReleased', end, { button: 'left', clickCount: 1 })
+        return { success: true, action, start: input.start, end, trusted: true }
+      }
+
+      case 'scroll': {
+        const amount = (input.scroll_amount ?? 3) * 100
+        const deltas: Record<string, [number, number]> = {
+          up: [0, -amount],
+          down: [0, amount],
+          left: [-amount, 0],
+          right: [amount, 0],
+        }
+        const delta = deltas[input.scroll_direction ?? '']
+        if (!delta) {
+          throw new Error(`Invalid scroll direction: ${input.scroll_direction}`)
+        }
+        const point = input.point ?? await viewportCenter(send)
+        await mouse('mouseWheel', point, { deltaX: delta[0], deltaY: delta[1] })
+        return { success: true, action, direction: input.scroll_direction, trusted: true }
+      }
+
+      case 'type': {
+        if (!input.text) {
+          throw new Error('text is required for type action')
+        }
+        if (input.point) {
+          // Click first so the text goes where the coordinate points
+          await mouse('mousePressed', input.point, { button: 'left', clickCount: 1 })
+          await mouse('mouseReleased', input.point, { button: 'left', clickCount: 1 })
+        }
+        await send('Input.insertText', { text: input.text })
+        return { success: true, action, text: input.text, trusted: true }
+      }
+
+      case 'key': {
+        if (!input.text) {
+          throw new Error('text (key sequence) is required for key action')
+        }
+        for (let i = 0; i < repeat; i++) {
+          for (const keySpec of input.text.split(' ')) {
+            await pressKey(send, keySpec, modifierNames)
+          }
+        }
+        return { success: true, action, keys: input.text, repeat, trusted: true }
+      }
+
+      default:
+        throw new Error(`${action} is not supported with trusted input`)
+    }
+  })
+}
@@ -0,0 +1,157 @@
+/**
+ * Tool parameter validation — checks model-supplied params against a tool's
+ * ToolDefinition before the handler runs, coercing obvious mistakes (numbers
+ * sent as strings, JSON arrays sent as text) and applying defaults.
+ */
+
+import type { ToolDefinition, ToolParameter, ToolParameterType } from './definitions'
+
+export interface ParamValidationIssue {
+  param: string
+  problem: string
+}
+
+export interface ParamValidationResult {
+  /** Params with coercions and defaults applied. Unknown params are passed through untouched. */
+  params: Record<string, unknown>
+  issues: ParamValidationIssue[]
+}
+
+type Coerced = { ok: true; value: unknown } | { ok: false; problem: string }
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  const json = JSON.stringify(value)
+  const preview = json && json.length > 40 ? `${json.slice(0, 40)}...` : json
+  return `${typeof value} ${preview}`
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function coerceScalar(value: unknown, type: ToolParameterType): Coerced {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value }
+      if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) }
+      break
+
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return { ok: true, value }
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return { ok: true, value: Number(value) }
+      }
+      break
+
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value }
+      if (value === 'true' || value === 'false') return { ok: true, value: value === 'true' }
+      break
+
+    case 'object':
+      if (value && typeof value === 'object' && !Array.isArray(value)) return { ok: true, value }
+      if (typeof value === 'string') {
+        const parsed = tryParseJson(value)
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ok: true, value: parsed }
+      }
+      break
+
+    case 'array':
+      return coerceArray(value, undefined)
+  }
+
+  return { ok: false, problem: `expected ${type}, got ${describeValue(value)}` }
+}
+
+function coerceArray(value: unknown, itemType: ToolParameterType | undefined): Coerced {
+  let items: unknown[] | undefined
+
+  if (Array.isArray(value)) {
+    items = value
+  } else if (typeof value === 'string') {
+    const parsed = tryParseJson(value)
+    if (Array.isArray(parsed)) {
+      items = parsed
+    } else if (itemType === 'number' && value.includes(',')) {
+      // "100, 200" → [100, 200]
+      items = value.split(',').map(part => part.trim())
+    } else if (!itemType || itemType === 'string') {
+      items = [value]
+    }
+  }
+
+  if (!items) {
+    const expected = itemType ? `array of ${itemType}s` : 'array'
+    return { ok: false, problem: `expected ${expected}, got ${describeValue(value)}` }
+  }
+
+  if (!itemType) return { ok: true, value: items }
+
+  const coercedItems: unknown[] = []
+  for (let i = 0; i < items.length; i++) {
+    const item = coerceScalar(items[i], itemType)
+    if (!item.ok) {
+      return { ok: false, problem: `item ${i}: ${item.problem}` }
+    }
+    coercedItems.push(item.value)
+  }
+  return { ok: true, value: coercedItems }
+}
+
+function coerceParam(value: unknown, param: ToolParameter): Coerced {
+  const coerced = param.type === 'array'
+    ? coerceArray(value, param.items?.type)
+    : coerceScalar(value, param.type)
+  if (!coerced.ok || !param.enum) return coerced
+
+  const text = String(coerced.value)
+  const match = param.enum.find(option => option === text)
+    ?? param.enum.find(option => option.toLowerCase() === text.toLowerCase())
+  if (match === undefined) {
+    return { ok: false, problem: `must be one of: ${param.enum.join(', ')} (got "${text}")` }
+  }
+  return { ok: true, value: match }
+}
+
+/** Validate and coerce params against a tool definition. */
+export function validateToolParams(
+  definition: ToolDefinition,
+  params: Record<string, unknown>
+): ParamValidationResult {
+  const result: Record<string, unknown> = { ...params }
+  const issues: ParamValidationIssue[] = []
+
+  for (const param of definition.parameters) {
+    const value = params[param.name]
+
+    if (value === undefined || value === null) {
+      if (param.default !== undefined) {
+        result[param.name] = param.default
+      } else if (param.required) {
+        issues.push({ param: param.name, problem: `is required (${param.type}: ${param.description})` })
+      }
+      continue
+    }
+
+    const coerced = coerceParam(value, param)
+    if (coerced.ok) {
+      result[param.name] = coerced.value
+    } else {
+      issues.push({ param: param.name, problem: coerced.problem })
+    }
+  }
+
+  return { params: result, issues }
+}
+
+/** Model-facing error listing every invalid parameter at once */
+export function formatValidationError(toolName: string, issues: ParamValidationIssue[]): string {
+  const lines = issues.map(issue => `- ${issue.param}: ${issue.problem}`)
+  return `Invalid parameters for ${toolName}:\n${lines.join('\n')}\nFix these parameters and call the tool again.`
+}
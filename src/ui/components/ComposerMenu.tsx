@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback, type FC } from 'react'
-import { Plus, Paperclip, X, Camera, Timer } from 'lucide-react'
+import { Plus, Paperclip, X, Camera, Timer, Circle } from 'lucide-react'
 import { MessageTypes } from '@shared/messages'
 import { type AttachmentFile, fileToDataUrl, getFileType, generateId, MAX_FILE_SIZE } from './FileAttachment'
 
@@ -8,6 +8,7 @@ interface ComposerMenuProps {
   disabled?: boolean
   tabId?: number
   onCreateShortcut?: () => void
+  onStartRecording?: () => void
 }
 
 export const ComposerMenu: FC<ComposerMenuProps> = ({
@@ -15,6 +16,7 @@ export const ComposerMenu: FC<ComposerMenuProps> = ({
   disabled = false,
   tabId,
   onCreateShortcut,
+  onStartRecording,
 }) => {
   const [isOpen, setIsOpen] = useState(false)
   const [isCapturing, setIsCapturing] = useState(false)
@@ -143,7 +145,7 @@ export const ComposerMenu: FC<ComposerMenuProps> = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*,application/pdf,.pdf"
+        accept="image/*,application/pdf,.pdf,.csv,.tsv,.txt,.json,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
         multiple
         onChange={handleFileChange}
         style={{ display: 'none' }}
@@ -201,6 +203,19 @@ export const ComposerMenu: FC<ComposerMenuProps> = ({
               <span>Schedule task</span>
             </button>
           )}
+          {onStartRecording && tabId !== undefined && tabId > 0 && (
+            <button
+              type="button"
+              className="composer-menu-item"
+              onClick={() => {
+                onStartRecording()
+                setIsOpen(false)
+              }}
+            >
+              <Circle size={16} />
+              <span>Record workflow</span>
+            </button>
+          )}
         </div>
       )}
     </div>
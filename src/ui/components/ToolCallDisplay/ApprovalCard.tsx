@@ -0,0 +1,129 @@
+import { createContext, useContext, useState, type FC } from 'react'
+import type { ApprovalDecision, ToolCallInfo } from '@agent/index'
+
+type ResolveApproval = (toolCallId: string, decision: ApprovalDecision) => void
+
+/** Provided by the chat so tool cards deep in the message list can answer approval requests */
+export const ToolApprovalContext = createContext<ResolveApproval | null>(null)
+
+function prettyJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2)
+  } catch {
+    return '{}'
+  }
+}
+
+interface ApprovalCardProps {
+  toolCall: ToolCallInfo
+}
+
+export const ApprovalCard: FC<ApprovalCardProps> = ({ toolCall }) => {
+  const resolveApproval = useContext(ToolApprovalContext)
+  const [mode, setMode] = useState<'review' | 'edit' | 'reject'>('review')
+  const [draft, setDraft] = useState(() => prettyJson(toolCall.input))
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+
+  if (!resolveApproval) {
+    return null
+  }
+
+  const submitEdit = () => {
+    try {
+      const parsed = JSON.parse(draft) as unknown
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setDraftError('Parameters must be a JSON object')
+        return
+      }
+      resolveApproval(toolCall.id, { action: 'edit', input: parsed as Record<string, unknown> })
+    } catch (err) {
+      setDraftError((err as Error).message)
+    }
+  }
+
+  return (
+    <div className="tool-approval">
+      <div className="tool-approval-reason">
+        {toolCall.approval?.reason || 'This action needs your approval'}
+      </div>
+
+      {mode === 'edit' ? (
+        <>
+          <textarea
+            className="tool-approval-editor"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value)
+              setDraftError(null)
+            }}
+            rows={Math.min(12, draft.split('\n').length + 1)}
+            spellCheck={false}
+          />
+          {draftError && <div className="tool-approval-error">{draftError}</div>}
+        </>
+      ) : (
+        <pre className="tool-call-output-preview">{prettyJson(toolCall.input)}</pre>
+      )}
+
+      {mode === 'reject' && (
+        <input
+          type="text"
+          className="tool-approval-reject-reason"
+          value={rejectReason}
+          onChange={(e) => setRejectReason(e.target.value)}
+          placeholder="Optional: tell the agent why"
+          autoFocus
+        />
+      )}
+
+      <div className="tool-approval-actions">
+        {mode === 'review' && (
+          <>
+            <button
+              type="button"
+              className="tool-approval-btn tool-approval-btn--approve"
+              onClick={() => resolveApproval(toolCall.id, { action: 'approve' })}
+            >
+              Approve
+            </button>
+            <button type="button" className="tool-approval-btn" onClick={() => setMode('edit')}>
+              Edit
+            </button>
+            <button
+              type="button"
+              className="tool-approval-btn tool-approval-btn--reject"
+              onClick={() => setMode('reject')}
+            >
+              Reject
+            </button>
+          </>
+        )}
+        {mode === 'edit' && (
+          <>
+            <button type="button" className="tool-approval-btn tool-approval-btn--approve" onClick={submitEdit}>
+              Run with edits
+            </button>
+            <button type="button" className="tool-approval-btn" onClick={() => setMode('review')}>
+              Cancel
+            </button>
+          </>
+        )}
+        {mode === 'reject' && (
+          <>
+            <button
+              type="button"
+              className="tool-approval-btn tool-approval-btn--reject"
+              onClick={() => resolveApproval(toolCall.id, { action: 'reject', reason: rejectReason.trim() || undefined })}
+            >
+              Reject
+            </button>
+            <button type="button" className="tool-approval-btn" onClick={() => setMode('review')}>
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
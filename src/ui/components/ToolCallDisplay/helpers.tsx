@@ -21,6 +21,7 @@ export interface ToolRendererProps {
 
 export const STATUS_ICONS: Record<ToolCallInfo['status'], string> = {
   pending: '○',
+  awaiting_approval: '◇',
   running: '◐',
   completed: '●',
   error: '✕',
@@ -99,7 +100,7 @@ export const Divider: FC = () => <div className="tool-divider" />
 /** Consumer-friendly one-liner. Uses past tense for completed/error, present for running/pending. */
 export function getSummaryLabel(name: string, input: Record<string, unknown>, status?: string): string {
   // Only use present tense if explicitly running or pending; otherwise past tense
-  const done = status !== 'running' && status !== 'pending'
+  const done = status !== 'running' && status !== 'pending' && status !== 'awaiting_approval'
   switch (name) {
     case 'computer': {
       const action = input.action as string
@@ -138,6 +139,8 @@ export function getSummaryLabel(name: string, input: Record<string, unknown>, st
     case 'find': return done ? `Searched for "${str(input.query, 24)}"` : `Searching for "${str(input.query, 24)}"`
     case 'read_page': return done ? 'Read the page' : 'Reading the page'
     case 'get_page_text': return done ? 'Extracted page text' : 'Extracting page text'
+    case 'extract_table': return done ? 'Extracted a table' : 'Extracting a table'
+    case 'extract': return done ? 'Extracted data from the page' : 'Extracting data from the page'
     case 'form_input': return done ? 'Filled in a form field' : 'Filling in a form field'
     case 'list_tabs': return done ? 'Checked open tabs' : 'Checking open tabs'
     case 'close_tab': return done ? 'Closed a tab' : 'Closing a tab'
@@ -146,6 +149,9 @@ export function getSummaryLabel(name: string, input: Record<string, unknown>, st
     case 'read_console_messages': return done ? 'Read console output' : 'Reading console output'
     case 'read_network_requests': return done ? 'Checked network activity' : 'Checking network activity'
     case 'run_javascript': return done ? 'Ran a script' : 'Running a script'
+    case 'read_storage': return input.action === 'set' || input.action === 'remove'
+      ? (done ? 'Changed site storage' : 'Changing site storage')
+      : (done ? 'Checked site storage' : 'Checking site storage')
     case 'resize_window': return done ? 'Resized the window' : 'Resizing the window'
     case 'record_gif': {
       const a = input.action as string
@@ -154,11 +160,22 @@ export function getSummaryLabel(name: string, input: Record<string, unknown>, st
       if (a === 'export') return done ? 'Exported GIF' : 'Exporting GIF'
       return done ? 'Recorded' : 'Recording'
     }
+    case 'downloads': {
+      const a = input.action as string
+      if (a === 'wait') return done ? 'Waited for a download' : 'Waiting for a download'
+      if (a === 'read') return done ? 'Read a downloaded file' : 'Reading a downloaded file'
+      if (a === 'attach') return done ? 'Attached a downloaded file' : 'Attaching a downloaded file'
+      return done ? 'Checked downloads' : 'Checking downloads'
+    }
     case 'update_plan': return done ? 'Updated the plan' : 'Updating the plan'
     case 'invoke_skill': return done ? `Used "${str(input.skill_name, 20)}" skill` : `Using "${str(input.skill_name, 20)}" skill`
     case 'upload_image': return done ? 'Uploaded an image' : 'Uploading an image'
+    case 'upload_file': return done ? 'Uploaded a file' : 'Uploading a file'
     case 'read_result': return done ? 'Read a result' : 'Reading a result'
     case 'process_result': return done ? 'Processed a result' : 'Processing a result'
+    case 'remember': return done ? 'Saved to memory' : 'Saving to memory'
+    case 'recall': return done ? `Recalled "${str(input.query, 24)}"` : `Recalling "${str(input.query, 24)}"`
+    case 'forget': return done ? 'Forgot a memory' : 'Forgetting a memory'
     default: return formatToolName(name)
   }
 }
@@ -195,6 +212,8 @@ export function getRunningLabel(name: string, input: Record<string, unknown>): s
     case 'find': return `Searching for "${str(input.query, 30)}"`
     case 'read_page': return input.ref_id ? `Reading ${input.ref_id}` : `Reading page (${input.filter || 'all'})`
     case 'get_page_text': return 'Extracting page text'
+    case 'extract_table': return input.ref ? `Extracting table at ${input.ref}` : 'Extracting table'
+    case 'extract': return input.ref ? `Extracting records at ${input.ref}` : 'Extracting records'
     case 'form_input': return `Setting ${input.ref} to "${str(input.value, 20)}"`
     case 'list_tabs': return 'Listing tabs'
     case 'close_tab': return `Closing tab ${input.tabId}`
@@ -203,6 +222,7 @@ export function getRunningLabel(name: string, input: Record<string, unknown>): s
     case 'read_console_messages': return 'Reading console'
     case 'read_network_requests': return 'Reading network requests'
     case 'run_javascript': return 'Executing JavaScript'
+    case 'read_storage': return input.key ? `Storage ${input.action ?? 'get'}: ${str(input.key, 30)}` : `Listing ${input.area ?? 'storage'}`
     case 'resize_window': return `Resizing to ${input.width}x${input.height}`
     case 'record_gif': {
       const a = input.action as string
@@ -212,11 +232,26 @@ export function getRunningLabel(name: string, input: Record<string, unknown>): s
       if (a === 'clear') return 'Clearing frames'
       return a
     }
+    case 'downloads': {
+      const a = input.action as string
+      const id = input.download_id !== undefined ? ` ${input.download_id}` : ''
+      if (a === 'wait') return `Waiting for download${id}`
+      if (a === 'read') return `Reading download${id}`
+      if (a === 'attach') return `Attaching download${id}`
+      return 'Listing downloads'
+    }
     case 'update_plan': return 'Creating plan'
     case 'invoke_skill': return `Invoking skill "${str(input.skill_name, 20)}"`
     case 'upload_image': return 'Uploading image'
+    case 'upload_file': {
+      const count = Array.isArray(input.file_ids) ? input.file_ids.length : 1
+      return count > 1 ? `Uploading ${count} files` : 'Uploading file'
+    }
     case 'read_result': return `Reading ${input.result_id}`
     case 'process_result': return `Processing ${input.result_id}`
+    case 'remember': return `Remembering "${str(input.content, 30)}"`
+    case 'recall': return `Searching memory for "${str(input.query, 30)}"`
+    case 'forget': return `Forgetting ${input.id}`
     default: {
       const entries = Object.entries(input).slice(0, 2)
       if (entries.length === 0) return 'No parameters'
@@ -3,8 +3,10 @@ import type { ToolCallInfo } from '@agent/index'
 import type { ToolCallDisplayProps, ToolRendererProps } from './helpers'
 import { STATUS_ICONS, formatToolName, str, formatJson, getRunningLabel, KV } from './helpers'
 import { TOOL_RENDERERS } from './renderers'
+import { ApprovalCard } from './ApprovalCard'
 
 export type { ToolCallInfo }
+export { ToolApprovalContext } from './ApprovalCard'
 
 // ─── Error Boundary ──────────────────────────────────────────────────────────
 
@@ -135,7 +137,11 @@ const ToolCallContent: FC<ToolCallDisplayProps> = ({
             </button>
           ) : (
             <span className="tool-call-status">
-              {toolCall.status === 'running' ? 'Running' : toolCall.status === 'pending' ? 'Pending' : 'Completed'}
+              {toolCall.status === 'running'
+                ? 'Running'
+                : toolCall.status === 'pending'
+                  ? 'Pending'
+                  : toolCall.status === 'awaiting_approval' ? 'Needs approval' : 'Completed'}
             </span>
           )}
         </div>
@@ -147,6 +153,16 @@ const ToolCallContent: FC<ToolCallDisplayProps> = ({
         </div>
       )}
 
+      {toolCall.status === 'awaiting_approval' && (
+        <ApprovalCard key={toolCall.id} toolCall={toolCall} />
+      )}
+
+      {isFinished && toolCall.approval?.decision && (
+        <div className={`tool-approval-decision tool-approval-decision--${toolCall.approval.decision}`}>
+          {toolCall.approval.decision === 'rejected' ? 'Rejected by you' : toolCall.approval.decision === 'edited' ? 'Approved with edits' : 'Approved by you'}
+        </div>
+      )}
+
       {isFinished && isExpanded && (
         hasCustomRenderer ? (
           toolCall.error ? (
@@ -1,6 +1,8 @@
 import { useState, type FC } from 'react'
 import type { ToolRendererProps } from './helpers'
 import { str, obj, truncUrl } from './helpers'
+import { toCsv } from '@shared/csv'
+import { MessageTypes } from '@shared/messages'
 
 // ─── Shared detail row ──────────────────────────────────────────────────────
 
@@ -244,6 +246,66 @@ const FindRenderer: FC<ToolRendererProps> = ({ input, result, status }) => {
   )
 }
 
+/** The whole table as CSV: inline for small tables, from the output store for large ones */
+async function loadTableCsv(r: Record<string, unknown>): Promise<string> {
+  if (typeof r.csv_result_id !== 'string') {
+    return typeof r.csv === 'string' ? r.csv : toCsv(r.columns as string[], r.rows as string[][])
+  }
+
+  const response = await chrome.runtime.sendMessage({
+    type: MessageTypes.GET_STORED_OUTPUT,
+    resultId: r.csv_result_id,
+  }) as { success?: boolean; output?: unknown }
+  if (!response?.success || typeof response.output !== 'string') {
+    throw new Error('The full table has expired; extract it again to download it')
+  }
+  return response.output
+}
+
+const ExtractTableRenderer: FC<ToolRendererProps> = ({ input, result, status }) => {
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const r = obj(result)
+  const columns = r.columns as string[] | undefined
+
+  const handleDownload = async () => {
+    setDownloadError(null)
+    try {
+      const blob = new Blob([await loadTableCsv(r)], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${(r.caption as string | undefined)?.replace(/[^\w-]+/g, '_').slice(0, 40) || 'table'}.csv`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setDownloadError((err as Error).message)
+    }
+  }
+
+  return (
+    <div className="tool-detail">
+      {typeof input.ref === 'string' && <Row label="Target">{input.ref}</Row>}
+      {status === 'completed' && columns && (
+        <>
+          <Row label="Kind">{r.kind as string}</Row>
+          {typeof r.caption === 'string' && <Row label="Caption">{str(r.caption, 60)}</Row>}
+          <Row label="Size">{`${r.rowCount} rows × ${columns.length} columns`}</Row>
+          <Row label="Columns">{str(columns.join(', '), 120)}</Row>
+          <button type="button" className="tool-call-toggle" onClick={handleDownload}>
+            Download CSV
+          </button>
+          {downloadError && <span className="tool-detail-error-text">{downloadError}</span>}
+        </>
+      )}
+      {status === 'completed' && !columns && (
+        <div className="tool-detail-content">{str(result, 200)}</div>
+      )}
+    </div>
+  )
+}
+
 const ReadResultRenderer: FC<ToolRendererProps> = ({ input, result, status }) => {
   const [showFull, setShowFull] = useState(false)
   const r = obj(result)
@@ -424,6 +486,7 @@ export const TOOL_RENDERERS: Record<string, FC<ToolRendererProps>> = {
   read_page: ReadPageRenderer,
   get_page_text: GetPageTextRenderer,
   find: FindRenderer,
+  extract_table: ExtractTableRenderer,
   read_result: ReadResultRenderer,
   process_result: ProcessResultRenderer,
   read_console_messages: ConsoleMessagesRenderer,
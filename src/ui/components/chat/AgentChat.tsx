@@ -2,21 +2,28 @@ import { useState, useCallback, useEffect, useMemo, type FC } from 'react'
 import { LazyMotion, domAnimation, MotionConfig } from 'motion/react'
 import { useSettings } from '../../hooks/useSettings'
 import { useWorkflowStream } from '../../hooks/useWorkflowStream'
+import { useActionRecorder } from '../../hooks/useActionRecorder'
 import type { ThreadMessage } from '../../hooks/threads'
 import {
   validateSettings,
   PROVIDER_CONFIGS,
   getModelConfig,
+  addTokenUsage,
   type ToolCallInfo,
   type AssistantMessageSegment,
+  type TokenUsage,
 } from '@agent/index'
 import { SettingsPanel } from '../settings'
+import { ToolApprovalContext } from '../ToolCallDisplay'
 import { ErrorNotification, type NotificationError } from '../ErrorNotification'
 import { type AttachmentFile } from '../FileAttachment'
 import { ChatTopBar } from './ChatTopBar'
 import { MessageList, type Message } from './MessageList'
 import { MessageComposer } from './MessageComposer'
+import { RecordingBar } from '../recorder/RecordingBar'
+import { RecordingDraftForm } from '../recorder/RecordingDraftForm'
 import '../../styles/attachments.css'
+import '../../styles/recorder.css'
 
 interface AddUserMessageResult extends ThreadMessage {
   threadId: string
@@ -35,6 +42,7 @@ interface AgentChatProps {
       assistantSegments?: AssistantMessageSegment[]
       model?: string
       provider?: string
+      usage?: TokenUsage
     }
   ) => void
   onClearThread?: () => Promise<void>
@@ -64,6 +72,7 @@ export const AgentChat: FC<AgentChatProps> = ({
   const [notificationErrors, setNotificationErrors] = useState<NotificationError[]>([])
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
+  const [showRecordingDraft, setShowRecordingDraft] = useState(false)
 
   const messages: Message[] = useMemo(
     () =>
@@ -82,6 +91,11 @@ export const AgentChat: FC<AgentChatProps> = ({
     [messagesProp]
   )
 
+  const threadUsage = useMemo(
+    () => messagesProp.reduce<TokenUsage | undefined>((total, m) => addTokenUsage(total, m.usage), undefined),
+    [messagesProp]
+  )
+
   const { tabId, groupId } = useMemo(() => {
     const params = new URLSearchParams(window.location.search)
     return {
@@ -103,6 +117,7 @@ export const AgentChat: FC<AgentChatProps> = ({
     removeQueuedAfterToolResult,
     removeQueuedAfterCompletion,
     dumpQueues,
+    resolveApproval,
     stop,
     clearError,
   } = useWorkflowStream({
@@ -117,6 +132,14 @@ export const AgentChat: FC<AgentChatProps> = ({
     },
   })
 
+  const {
+    isRecording,
+    actions: recordedActions,
+    start: startRecording,
+    stop: stopRecording,
+    clear: clearRecording,
+  } = useActionRecorder(tabId)
+
   // Enrich messages with generation-level errors for display only.
   // The error is ephemeral (not persisted) so it won't be sent to the LLM.
   const displayMessages: Message[] = useMemo(
@@ -244,6 +267,39 @@ export const AgentChat: FC<AgentChatProps> = ({
     setNotificationErrors([])
   }, [])
 
+  const handleStartRecording = useCallback(async () => {
+    try {
+      await startRecording()
+    } catch (err) {
+      setNotificationErrors((prev) => [
+        ...prev,
+        { id: `recorder-${Date.now()}`, message: (err as Error).message, timestamp: Date.now() },
+      ])
+    }
+  }, [startRecording])
+
+  const handleStopRecording = useCallback(async () => {
+    await stopRecording()
+    setShowRecordingDraft(true)
+  }, [stopRecording])
+
+  const handleCancelRecording = useCallback(async () => {
+    await stopRecording()
+    clearRecording()
+  }, [stopRecording, clearRecording])
+
+  const handleCloseRecordingDraft = useCallback(() => {
+    setShowRecordingDraft(false)
+    clearRecording()
+  }, [clearRecording])
+
+  const handleRecordingSaved = useCallback((name: string, savedAs: 'skill' | 'macro') => {
+    handleCloseRecordingDraft()
+    if (savedAs === 'skill') {
+      setInputValue((prev) => prev || `/${name} `)
+    }
+  }, [handleCloseRecordingDraft])
+
   const handleOpenSettings = useCallback(() => {
     setShowSettings(true)
   }, [])
@@ -289,6 +345,7 @@ export const AgentChat: FC<AgentChatProps> = ({
             providerName={currentProvider.name}
             modelName={settings.model}
             tabId={tabId}
+            usage={threadUsage}
             hasMessages={messages.length > 0}
             sidebarOpen={sidebarOpen}
             onToggleSidebar={onToggleSidebar}
@@ -311,22 +368,32 @@ export const AgentChat: FC<AgentChatProps> = ({
             onDismissAll={handleDismissAllErrors}
           />
 
-          <MessageList
-            messages={displayMessages}
-            isStreaming={isStreaming}
-            canEditMessages={!!onEditUserMessage}
-            editingMessageId={editingMessageId}
-            editContent={editContent}
-            onEditContentChange={setEditContent}
-            onStartEdit={handleStartEdit}
-            onCancelEdit={handleCancelEdit}
-            onSubmitEdit={handleSubmitEdit}
-            onNavigateBranch={handleNavigateBranch}
-            onCopyMessage={handleCopyMessage}
-            onRetry={handleRegenerate}
-            onStop={handleEscape}
-            onSuggestionClick={handleSuggestion}
-          />
+          <ToolApprovalContext.Provider value={resolveApproval}>
+            <MessageList
+              messages={displayMessages}
+              isStreaming={isStreaming}
+              canEditMessages={!!onEditUserMessage}
+              editingMessageId={editingMessageId}
+              editContent={editContent}
+              onEditContentChange={setEditContent}
+              onStartEdit={handleStartEdit}
+              onCancelEdit={handleCancelEdit}
+              onSubmitEdit={handleSubmitEdit}
+              onNavigateBranch={handleNavigateBranch}
+              onCopyMessage={handleCopyMessage}
+              onRetry={handleRegenerate}
+              onStop={handleEscape}
+              onSuggestionClick={handleSuggestion}
+            />
+          </ToolApprovalContext.Provider>
+
+          {isRecording && (
+            <RecordingBar
+              actions={recordedActions}
+              onStop={handleStopRecording}
+              onCancel={handleCancelRecording}
+            />
+          )}
 
           <MessageComposer
             inputValue={inputValue}
@@ -351,8 +418,17 @@ export const AgentChat: FC<AgentChatProps> = ({
             onStop={handleEscape}
             onToggleReasoning={handleToggleReasoning}
             onCreateShortcut={onCreateShortcut}
+            onStartRecording={isRecording ? undefined : handleStartRecording}
           />
 
+          {showRecordingDraft && (
+            <RecordingDraftForm
+              actions={recordedActions}
+              onSaved={handleRecordingSaved}
+              onClose={handleCloseRecordingDraft}
+            />
+          )}
+
           {showSettings && (
             <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={handleCloseSettings} />
           )}
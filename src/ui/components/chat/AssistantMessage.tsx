@@ -30,7 +30,13 @@ const ToolGroupPanel: FC<ToolGroupPanelProps> = ({ toolCalls }) => {
     () => toolCalls.filter((tc) => tc.status === 'error').length,
     [toolCalls]
   )
-  const hasActiveTools = runningToolCount > 0 || pendingToolCount > 0
+  const awaitingApprovalCount = useMemo(
+    () => toolCalls.filter((tc) => tc.status === 'awaiting_approval').length,
+    [toolCalls]
+  )
+  const hasActiveTools = runningToolCount > 0 || pendingToolCount > 0 || awaitingApprovalCount > 0
+  // Approval cards live in the detail view, so keep it open while one is waiting
+  const showDetails = toolsExpanded || awaitingApprovalCount > 0
 
   useEffect(() => {
     if (toolCalls.length === 0) {
@@ -39,6 +45,12 @@ const ToolGroupPanel: FC<ToolGroupPanelProps> = ({ toolCalls }) => {
       return
     }
 
+    const awaiting = toolCalls.find((tc) => tc.status === 'awaiting_approval')
+    if (awaiting) {
+      setSelectedToolCallId(awaiting.id)
+      return
+    }
+
     if (selectedToolCallId && toolCalls.some((tc) => tc.id === selectedToolCallId)) {
       return
     }
@@ -99,18 +111,19 @@ const ToolGroupPanel: FC<ToolGroupPanelProps> = ({ toolCalls }) => {
         type="button"
         className="tool-strip-collapsed"
         onClick={() => setToolsExpanded((prev) => !prev)}
-        aria-expanded={toolsExpanded}
-        aria-label={toolsExpanded ? 'Collapse tool details' : 'Expand tool details'}
+        aria-expanded={showDetails}
+        aria-label={showDetails ? 'Collapse tool details' : 'Expand tool details'}
       >
         <span className="tool-strip-collapsed-main">
           <span className={`tool-strip-chip-dot tool-strip-chip-dot--${
             hasActiveTools
-              ? (runningToolCount > 0 ? 'running' : 'pending')
+              ? (awaitingApprovalCount > 0 ? 'awaiting_approval' : runningToolCount > 0 ? 'running' : 'pending')
               : (errorToolCount > 0 ? 'error' : 'completed')
           }`} />
           <span className="tool-strip-collapsed-text">
             {(() => {
-              const displayTool = toolCalls.find((tc) => tc.status === 'running')
+              const displayTool = toolCalls.find((tc) => tc.status === 'awaiting_approval')
+                || toolCalls.find((tc) => tc.status === 'running')
                 || toolCalls.find((tc) => tc.status === 'pending')
                 || toolCalls[toolCalls.length - 1]
               if (!displayTool) return ''
@@ -125,11 +138,11 @@ const ToolGroupPanel: FC<ToolGroupPanelProps> = ({ toolCalls }) => {
               {errorToolCount}
             </span>
           )}
-          {toolsExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          {showDetails ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
         </span>
       </button>
 
-      {toolsExpanded && (
+      {showDetails && (
         <div
           className="tool-strip"
           tabIndex={0}
@@ -1,10 +1,13 @@
 import { type FC } from 'react'
 import { PanelLeft } from 'lucide-react'
+import { formatTokenCount, formatCost, type TokenUsage } from '@agent/index'
 
 interface ChatTopBarProps {
   providerName: string
   modelName: string
   tabId: number
+  /** Totals for the messages in the current thread */
+  usage?: TokenUsage
   hasMessages: boolean
   sidebarOpen: boolean
   onToggleSidebar?: () => void
@@ -16,6 +19,7 @@ export const ChatTopBar: FC<ChatTopBarProps> = ({
   providerName,
   modelName,
   tabId,
+  usage,
   hasMessages,
   sidebarOpen,
   onToggleSidebar,
@@ -38,6 +42,19 @@ export const ChatTopBar: FC<ChatTopBarProps> = ({
         <span className="provider-badge">{providerName}</span>
         <span className="model-name">{modelName}</span>
         {tabId > 0 && <span className="tab-badge">Tab {tabId}</span>}
+        {usage && (
+          <span
+            className="usage-badge"
+            title={[
+              `Input: ${usage.inputTokens.toLocaleString()} tokens (${usage.cachedInputTokens.toLocaleString()} cached)`,
+              `Output: ${usage.outputTokens.toLocaleString()} tokens (${usage.reasoningTokens.toLocaleString()} reasoning)`,
+              usage.cost !== undefined ? `Estimated cost: ${formatCost(usage.cost)}` : 'No price listed for this model',
+            ].join('\n')}
+          >
+            {formatTokenCount(usage.inputTokens + usage.outputTokens)} tokens
+            {usage.cost !== undefined && ` · ${formatCost(usage.cost)}`}
+          </span>
+        )}
       </div>
       <div className="aui-topbar-actions">
         {hasMessages && (
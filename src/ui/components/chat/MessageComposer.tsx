@@ -41,6 +41,7 @@ interface MessageComposerProps {
   onStop: () => void
   onToggleReasoning: () => void
   onCreateShortcut?: () => void
+  onStartRecording?: () => void
 }
 
 export const MessageComposer: FC<MessageComposerProps> = ({
@@ -67,6 +68,7 @@ export const MessageComposer: FC<MessageComposerProps> = ({
   onStop,
   onToggleReasoning,
   onCreateShortcut,
+  onStartRecording,
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -179,6 +181,7 @@ export const MessageComposer: FC<MessageComposerProps> = ({
               disabled={isDisabled}
               tabId={tabId}
               onCreateShortcut={onCreateShortcut}
+              onStartRecording={onStartRecording}
             />
             {showReasoningToggle && (
               <button
@@ -0,0 +1,45 @@
+import { type FC } from 'react'
+import { Square, X } from 'lucide-react'
+import { recordingToSteps } from '@skills/index'
+import type { RecordedActionEntry } from '@shared/actionRecording'
+
+interface RecordingBarProps {
+  actions: RecordedActionEntry[]
+  onStop: () => void
+  onCancel: () => void
+}
+
+export const RecordingBar: FC<RecordingBarProps> = ({ actions, onStop, onCancel }) => {
+  const steps = recordingToSteps(actions).split('\n').filter(Boolean)
+  const lastStep = steps[steps.length - 1]?.replace(/^\d+\.\s*/, '')
+
+  return (
+    <div className="recording-bar" role="status" aria-live="polite">
+      <span className="recording-dot" />
+      <div className="recording-info">
+        <span className="recording-title">
+          Recording · {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+        </span>
+        {lastStep && <span className="recording-last-step">{lastStep}</span>}
+      </div>
+      <button
+        type="button"
+        className="recording-stop"
+        onClick={onStop}
+        title="Stop and review the recording"
+      >
+        <Square size={12} />
+        Stop
+      </button>
+      <button
+        type="button"
+        className="recording-cancel"
+        onClick={onCancel}
+        aria-label="Discard recording"
+        title="Discard recording"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useState, useCallback, useMemo, type FC } from 'react'
+import { X } from 'lucide-react'
+import {
+  installSkill,
+  invalidateSkillCache,
+  serializeSkill,
+  recordingToInstructions,
+} from '@skills/index'
+import { slugify } from '@storage/shortcutStorage'
+import { saveMacro } from '@storage/macroStorage'
+import { macroFromRecording, parseMacro } from '@shared/macro'
+import type { RecordedActionEntry } from '@shared/actionRecording'
+
+type SaveAs = 'skill' | 'macro'
+
+interface RecordingDraftFormProps {
+  actions: RecordedActionEntry[]
+  onSaved: (name: string, savedAs: SaveAs) => void
+  onClose: () => void
+}
+
+export const RecordingDraftForm: FC<RecordingDraftFormProps> = ({
+  actions,
+  onSaved,
+  onClose,
+}) => {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [instructions, setInstructions] = useState(() => recordingToInstructions(actions))
+  const [saveAs, setSaveAs] = useState<SaveAs>('skill')
+  // Only startUrl and steps are editable here; name and description come from the fields above
+  const [macroDraft] = useState(() => {
+    try {
+      const { startUrl, steps } = macroFromRecording(actions, { name: 'draft' })
+      return { json: JSON.stringify({ startUrl, steps }, null, 2), error: null }
+    } catch (err) {
+      return { json: '', error: (err as Error).message }
+    }
+  })
+  const [macroJson, setMacroJson] = useState(macroDraft.json)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const skillName = useMemo(() => slugify(name), [name])
+
+  const handleSave = useCallback(async () => {
+    if (!skillName) {
+      setError('Name is required')
+      return
+    }
+    if (saveAs === 'skill' && !description.trim()) {
+      setError('Description is required')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (saveAs === 'macro') {
+        let body: Record<string, unknown>
+        try {
+          body = JSON.parse(macroJson)
+        } catch (err) {
+          throw new Error(`Invalid macro JSON: ${(err as Error).message}`)
+        }
+        const macro = parseMacro(JSON.stringify({ ...body, name: skillName, description: description.trim() }))
+        await saveMacro(macro)
+        onSaved(skillName, 'macro')
+        return
+      }
+
+      const rawContent = serializeSkill(
+        { name: skillName, description: description.trim(), userInvocable: true },
+        instructions.trim()
+      )
+      await installSkill({ rawContent, source: 'user' })
+      invalidateSkillCache()
+      onSaved(skillName, 'skill')
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }, [skillName, description, instructions, saveAs, macroJson, onSaved])
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel shortcut-form-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h3>Save Recording</h3>
+          <button type="button" className="close-button" onClick={onClose} aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="settings-body">
+          <div className="settings-content">
+            <div className="setting-group">
+              <label className="setting-label">Name</label>
+              <input
+                type="text"
+                className="setting-input"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="submit-expense-report"
+              />
+              {skillName && saveAs === 'skill' && (
+                <span className="setting-hint">/{skillName}</span>
+              )}
+            </div>
+
+            <div className="setting-group">
+              <label className="setting-label">Description</label>
+              <input
+                type="text"
+                className="setting-input"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What this workflow does"
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="setting-label">Save as</label>
+              <select
+                className="setting-input"
+                value={saveAs}
+                onChange={(e) => setSaveAs(e.target.value as SaveAs)}
+              >
+                <option value="skill">Skill: the agent follows the steps</option>
+                <option value="macro" disabled={!!macroDraft.error}>
+                  Macro: replayed without the model
+                </option>
+              </select>
+              {macroDraft.error && (
+                <span className="setting-hint">{macroDraft.error}</span>
+              )}
+            </div>
+
+            {saveAs === 'skill' ? (
+              <div className="setting-group">
+                <label className="setting-label">Steps</label>
+                <textarea
+                  className="setting-input setting-textarea recording-draft-steps"
+                  value={instructions}
+                  onChange={(e) => setInstructions(e.target.value)}
+                  rows={12}
+                  spellCheck={false}
+                />
+                <span className="setting-hint">
+                  Edit the steps before saving. Typed values are saved exactly as recorded.
+                </span>
+              </div>
+            ) : (
+              <div className="setting-group">
+                <label className="setting-label">Macro steps</label>
+                <textarea
+                  className="setting-input setting-textarea recording-draft-steps"
+                  value={macroJson}
+                  onChange={(e) => setMacroJson(e.target.value)}
+                  rows={12}
+                  spellCheck={false}
+                />
+                <span className="setting-hint">
+                  Elements are found by role and name when the macro runs. Run it from Settings, Macros, or attach it to a shortcut.
+                </span>
+              </div>
+            )}
+
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="settings-actions">
+              <button
+                type="button"
+                className="button-secondary"
+                onClick={onClose}
+                disabled={isSaving}
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                className="button-primary"
+                onClick={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? 'Saving...' : saveAs === 'macro' ? 'Save Macro' : 'Save Skill'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
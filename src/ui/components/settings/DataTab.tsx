@@ -1,6 +1,181 @@
-import { useState, useCallback, useRef, type FC } from 'react'
-import { Download, Upload, CheckCircle, AlertCircle } from 'lucide-react'
+import { useState, useCallback, useRef, useEffect, type FC } from 'react'
+import { Download, Upload, CheckCircle, AlertCircle, Play, RotateCw, Trash2 } from 'lucide-react'
 import { exportAndDownload, readImportFile, importChats, type ImportResult } from '@storage/chatExport'
+import { getUsageSummary, type UsageSummary, type UsageRow } from '@storage/usageStats'
+import { getAllReplays, saveReplay, deleteReplay, downloadReplay } from '@storage/replayStorage'
+import type { StoredReplay } from '@storage/types'
+import { formatTokenCount, formatCost, parseReplayBundle, type TokenUsage, type ReplayComparison } from '@agent/index'
+import { MessageTypes } from '@shared/messages'
+
+const TOP_THREADS = 5
+
+function formatUsage(usage: TokenUsage | undefined): string {
+  if (!usage) return '—'
+  const tokens = `${formatTokenCount(usage.inputTokens)} in / ${formatTokenCount(usage.outputTokens)} out`
+  return usage.cost !== undefined ? `${formatCost(usage.cost)} · ${tokens}` : tokens
+}
+
+const UsageTable: FC<{ title: string; rows: UsageRow[] }> = ({ title, rows }) => {
+  if (rows.length === 0) return null
+  return (
+    <div className="usage-table">
+      <span className="usage-table-title">{title}</span>
+      {rows.map((row) => (
+        <div key={row.id} className="usage-row">
+          <span className="usage-row-label" title={row.label}>{row.label}</span>
+          <span className="usage-row-value">{formatUsage(row.usage)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+type ReplayStatus =
+  | { state: 'running' }
+  | { state: 'done'; comparison: ReplayComparison }
+  | { state: 'error'; error: string }
+
+const ReplayList: FC = () => {
+  const [replays, setReplays] = useState<StoredReplay[]>([])
+  const [statuses, setStatuses] = useState<Record<string, ReplayStatus>>({})
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = useCallback(() => {
+    getAllReplays()
+      .then(setReplays)
+      .catch((err) => console.error('Failed to load recordings:', err))
+  }, [])
+
+  useEffect(refresh, [refresh])
+
+  const handleReplay = useCallback(async (id: string, tools: 'stub' | 'execute') => {
+    if (tools === 'execute' && !confirm('Run every recorded tool call again on live pages, signed in as you? Actions your approval rules gate are refused.')) return
+    setStatuses((prev) => ({ ...prev, [id]: { state: 'running' } }))
+    try {
+      const response = await chrome.runtime.sendMessage({ type: MessageTypes.REPLAY_RUN, replayId: id, tools })
+      setStatuses((prev) => ({
+        ...prev,
+        [id]: response?.success
+          ? { state: 'done', comparison: response.comparison }
+          : { state: 'error', error: response?.error || 'Replay failed' },
+      }))
+    } catch (err) {
+      setStatuses((prev) => ({ ...prev, [id]: { state: 'error', error: (err as Error).message } }))
+    }
+  }, [])
+
+  const handleDelete = useCallback(async (id: string) => {
+    await deleteReplay(id)
+    refresh()
+  }, [refresh])
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setImportError(null)
+    try {
+      const bundle = parseReplayBundle(await file.text())
+      await saveReplay(bundle, file.name.replace(/\.json$/i, ''), undefined, true)
+      refresh()
+    } catch (err) {
+      setImportError((err as Error).message)
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }, [refresh])
+
+  return (
+    <>
+      {replays.length === 0 ? (
+        <span className="help-text">No recorded runs yet. Turn on Record runs in the Provider tab.</span>
+      ) : (
+        <div className="replay-list">
+          {replays.map((replay) => {
+            const status = statuses[replay.id]
+            const { bundle } = replay
+            return (
+              <div key={replay.id} className="replay-item">
+                <div className="replay-item-header">
+                  <span className="replay-item-label" title={replay.label}>{replay.label}</span>
+                  <div className="replay-item-actions">
+                    <button type="button" className="icon-button" title="Download" onClick={() => downloadReplay(replay)}>
+                      <Download size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      className="icon-button"
+                      title="Replay with recorded tool results"
+                      disabled={status?.state === 'running'}
+                      onClick={() => handleReplay(replay.id, 'stub')}
+                    >
+                      <Play size={14} />
+                    </button>
+                    {!replay.imported && (
+                      <button
+                        type="button"
+                        className="icon-button"
+                        title="Replay against the live page"
+                        disabled={status?.state === 'running'}
+                        onClick={() => handleReplay(replay.id, 'execute')}
+                      >
+                        <RotateCw size={14} />
+                      </button>
+                    )}
+                    <button type="button" className="icon-button danger" title="Delete" onClick={() => handleDelete(replay.id)}>
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                <span className="replay-item-meta">
+                  {new Date(replay.createdAt).toLocaleString()} · {bundle.modelName ?? 'unknown model'} ·{' '}
+                  {bundle.llmCalls.length} calls · {bundle.toolCalls.length} tools
+                  {bundle.result && ` · ${bundle.result.finishReason}`}
+                </span>
+                {status?.state === 'running' && <span className="replay-item-meta">Replaying...</span>}
+                {status?.state === 'error' && <span className="replay-item-status error">{status.error}</span>}
+                {status?.state === 'done' && (
+                  status.comparison.matches ? (
+                    <span className="replay-item-status success">Matched the recording</span>
+                  ) : (
+                    <ul className="replay-item-status error">
+                      {status.comparison.differences.map((difference, i) => <li key={i}>{difference}</li>)}
+                    </ul>
+                  )
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="form-group">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+        <button type="button" className="button-secondary full-width" onClick={() => fileInputRef.current?.click()}>
+          <Upload size={16} />
+          Import Recording
+        </button>
+        <span className="help-text">
+          Replays answer from the recorded model output. ▶ feeds back the recorded tool results; ↻ runs the tools again in a new background tab, and isn't offered for imported recordings.
+        </span>
+        {importError && (
+          <div className="import-result error">
+            <AlertCircle size={16} />
+            <span>{importError}</span>
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
 
 interface DataTabProps {
   onRefreshThreads?: () => Promise<void>
@@ -10,8 +185,15 @@ export const DataTab: FC<DataTabProps> = ({ onRefreshThreads }) => {
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  useEffect(() => {
+    getUsageSummary()
+      .then(setUsageSummary)
+      .catch((err) => console.error('Failed to load usage summary:', err))
+  }, [])
+
   const handleExport = useCallback(async () => {
     setIsExporting(true)
     try {
@@ -72,6 +254,32 @@ export const DataTab: FC<DataTabProps> = ({ onRefreshThreads }) => {
 
   return (
     <div className="settings-tab-content">
+      <div className="settings-section">
+        <h4>Spend</h4>
+        {usageSummary ? (
+          <>
+            <div className="usage-table">
+              <div className="usage-row">
+                <span className="usage-row-label">Chats</span>
+                <span className="usage-row-value">{formatUsage(usageSummary.chats)}</span>
+              </div>
+              <div className="usage-row">
+                <span className="usage-row-label">Scheduled shortcuts</span>
+                <span className="usage-row-value">{formatUsage(usageSummary.shortcuts)}</span>
+              </div>
+            </div>
+            <UsageTable title="By model" rows={usageSummary.byModel} />
+            <UsageTable title="By shortcut" rows={usageSummary.byShortcut} />
+            <UsageTable title="Top chats" rows={usageSummary.byThread.slice(0, TOP_THREADS)} />
+          </>
+        ) : (
+          <span className="help-text">Loading...</span>
+        )}
+        <span className="help-text">
+          Costs are estimates from list prices. Models without a listed price show token counts only.
+        </span>
+      </div>
+
       <div className="settings-section">
         <h4>Export & Import</h4>
 
@@ -131,6 +339,11 @@ export const DataTab: FC<DataTabProps> = ({ onRefreshThreads }) => {
           </div>
         )}
       </div>
+
+      <div className="settings-section">
+        <h4>Recorded Runs</h4>
+        <ReplayList />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,296 @@
+import { useState, useCallback, useRef, useEffect, type FC } from 'react'
+import {
+  Upload,
+  Trash2,
+  CheckCircle,
+  AlertCircle,
+  Download,
+  Plus,
+  Pencil,
+  Play,
+} from 'lucide-react'
+import { getAllMacros, saveMacro, deleteMacro, downloadMacro } from '@storage/macroStorage'
+import { parseMacro, serializeMacro } from '@shared/macro'
+import { MessageTypes } from '@shared/messages'
+import type { StoredMacro } from '@storage/types'
+
+const MACRO_TEMPLATE = `{
+  "name": "check-order-status",
+  "description": "Look up the status of the latest order",
+  "startUrl": "https://shop.example.com/orders",
+  "steps": [
+    { "tool": "computer", "params": { "action": "left_click" }, "locator": { "role": "link", "name": "Latest order", "tag": "a" } },
+    { "tool": "get_page_text", "saveAs": "order" }
+  ]
+}`
+
+function toEditorContent(macro: StoredMacro): string {
+  const { name, description, startUrl, steps } = macro
+  return serializeMacro({ name, description, startUrl, steps })
+}
+
+export const MacrosTab: FC = () => {
+  const [macros, setMacros] = useState<StoredMacro[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  /** null: editor closed, 'new': creating, otherwise the id being edited */
+  const [editing, setEditing] = useState<string | null>(null)
+  const [editorContent, setEditorContent] = useState('')
+  const [runningId, setRunningId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadMacros = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setMacros(await getAllMacros())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMacros()
+  }, [loadMacros])
+
+  const openEditor = useCallback((id: string, content: string) => {
+    setEditing(id)
+    setEditorContent(content)
+    setError(null)
+    setSuccess(null)
+  }, [])
+
+  const closeEditor = useCallback(() => {
+    setEditing(null)
+    setEditorContent('')
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    setError(null)
+    try {
+      const macro = await saveMacro(parseMacro(editorContent))
+      // Renaming saves under the new name; drop the old one
+      if (editing && editing !== 'new' && editing !== macro.id) {
+        await deleteMacro(editing)
+      }
+      setSuccess(`Macro "${macro.name}" saved`)
+      closeEditor()
+      await loadMacros()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [editing, editorContent, closeEditor, loadMacros])
+
+  const handleFileImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+
+    setError(null)
+    setSuccess(null)
+    const imported: string[] = []
+    const errors: string[] = []
+    for (const file of files) {
+      try {
+        const macro = await saveMacro(parseMacro(await file.text()))
+        imported.push(`"${macro.name}"`)
+      } catch (err) {
+        errors.push(`${file.name}: ${(err as Error).message}`)
+      }
+    }
+    if (imported.length > 0) {
+      setSuccess(`Imported ${imported.join(', ')}`)
+    }
+    if (errors.length > 0) {
+      setError(errors.join('; '))
+    }
+    await loadMacros()
+
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }, [loadMacros])
+
+  const handleRun = useCallback(async (macro: StoredMacro) => {
+    setRunningId(macro.id)
+    setError(null)
+    setSuccess(null)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageTypes.RUN_MACRO,
+        macroId: macro.id,
+        label: macro.name,
+      }) as { success: boolean; error?: string; steps?: number; fallback?: boolean }
+
+      if (!response?.success) {
+        setError(response?.error || 'Macro run failed')
+      } else if (response.fallback) {
+        setSuccess(`Step ${response.steps} of "${macro.name}" failed; the agent finished the run`)
+      } else {
+        setSuccess(`"${macro.name}" finished all ${response.steps} steps`)
+      }
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setRunningId(null)
+      await loadMacros()
+    }
+  }, [loadMacros])
+
+  const handleDelete = useCallback(async (macro: StoredMacro) => {
+    if (!confirm(`Delete macro "${macro.name}"?`)) return
+
+    try {
+      await deleteMacro(macro.id)
+      setSuccess(`Macro "${macro.name}" deleted`)
+      await loadMacros()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [loadMacros])
+
+  return (
+    <div className="settings-tab-content">
+      {/* Status messages */}
+      {error && (
+        <div className="status-message error">
+          <AlertCircle size={16} />
+          <span>{error}</span>
+          <button type="button" onClick={() => setError(null)}>&times;</button>
+        </div>
+      )}
+      {success && (
+        <div className="status-message success">
+          <CheckCircle size={16} />
+          <span>{success}</span>
+          <button type="button" onClick={() => setSuccess(null)}>&times;</button>
+        </div>
+      )}
+
+      <div className="settings-section">
+        <h4>Add Macro</h4>
+
+        <div className="form-group button-row">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            multiple
+            onChange={handleFileImport}
+            style={{ display: 'none' }}
+          />
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload size={16} />
+            Import Files
+          </button>
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => (editing === 'new' ? closeEditor() : openEditor('new', MACRO_TEMPLATE))}
+          >
+            <Plus size={16} />
+            New Macro
+          </button>
+        </div>
+        <span className="help-text">
+          A macro replays fixed tool calls without the model, so it costs no tokens. Elements are found by role and name. If a step fails, the agent takes over from there. Record one with Record workflow in the composer menu.
+        </span>
+
+        {editing && (
+          <div className="install-form">
+            <textarea
+              value={editorContent}
+              onChange={(e) => setEditorContent(e.target.value)}
+              rows={14}
+              spellCheck={false}
+            />
+            <div className="button-row">
+              <button type="button" className="button-secondary" onClick={closeEditor}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="button-primary"
+                onClick={handleSave}
+                disabled={!editorContent.trim()}
+              >
+                Save Macro
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="settings-section">
+        <h4>Macros ({macros.length})</h4>
+
+        {isLoading ? (
+          <div className="loading">Loading macros...</div>
+        ) : macros.length === 0 ? (
+          <div className="empty-state">
+            No macros yet. Record a workflow, create one above, or import a .macro.json file.
+          </div>
+        ) : (
+          <div className="skills-list">
+            {macros.map((macro) => (
+              <div key={macro.id} className="skill-item">
+                <div className="skill-info">
+                  <div className="skill-header">
+                    <span className="skill-name">{macro.name}</span>
+                  </div>
+                  {macro.description && <div className="skill-description">{macro.description}</div>}
+                  <div className="skill-meta">
+                    {macro.steps.length} {macro.steps.length === 1 ? 'step' : 'steps'}
+                    {macro.startUrl && ` · ${macro.startUrl}`}
+                    {macro.lastRunAt && ` · last run ${new Date(macro.lastRunAt).toLocaleString()}: ${macro.lastRunStatus === 'fallback' ? 'finished by the agent' : macro.lastRunStatus}`}
+                  </div>
+                </div>
+                <div className="skill-actions">
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => handleRun(macro)}
+                    disabled={runningId !== null}
+                    title={runningId === macro.id ? 'Running...' : 'Run in a new tab'}
+                  >
+                    {runningId === macro.id ? <span className="spinner" /> : <Play size={16} />}
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => openEditor(macro.id, toEditorContent(macro))}
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => downloadMacro(macro)}
+                    title="Export"
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button danger"
+                    onClick={() => handleDelete(macro)}
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
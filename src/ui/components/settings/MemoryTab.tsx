@@ -0,0 +1,187 @@
+import { useState, useCallback, useEffect, useMemo, type FC } from 'react'
+import { Trash2, CheckCircle, AlertCircle, Plus } from 'lucide-react'
+import {
+  getAllMemories,
+  addMemory,
+  deleteMemory,
+  deleteAllMemories,
+  rankMemories,
+  MAX_MEMORY_LENGTH,
+} from '@storage/memoryStorage'
+import type { MemoryEntry } from '@storage/types'
+
+export const MemoryTab: FC = () => {
+  const [memories, setMemories] = useState<MemoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [newMemory, setNewMemory] = useState('')
+  const [search, setSearch] = useState('')
+
+  const loadMemories = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setMemories(await getAllMemories())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMemories()
+  }, [loadMemories])
+
+  const visibleMemories = useMemo(
+    () => (search.trim() ? rankMemories(memories, search) : memories),
+    [memories, search]
+  )
+
+  const handleAdd = useCallback(async () => {
+    setError(null)
+    setSuccess(null)
+    try {
+      const { duplicate } = await addMemory(newMemory, { source: 'user' })
+      setSuccess(duplicate ? 'Already saved' : 'Memory saved')
+      setNewMemory('')
+      await loadMemories()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [newMemory, loadMemories])
+
+  const handleDelete = useCallback(async (memory: MemoryEntry) => {
+    try {
+      await deleteMemory(memory.id)
+      await loadMemories()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [loadMemories])
+
+  const handleDeleteAll = useCallback(async () => {
+    if (!confirm('Delete ALL memories? This cannot be undone.')) return
+
+    try {
+      await deleteAllMemories()
+      setSuccess('All memories deleted')
+      await loadMemories()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [loadMemories])
+
+  return (
+    <div className="settings-tab-content">
+      {error && (
+        <div className="status-message error">
+          <AlertCircle size={16} />
+          <span>{error}</span>
+          <button type="button" onClick={() => setError(null)}>&times;</button>
+        </div>
+      )}
+      {success && (
+        <div className="status-message success">
+          <CheckCircle size={16} />
+          <span>{success}</span>
+          <button type="button" onClick={() => setSuccess(null)}>&times;</button>
+        </div>
+      )}
+
+      <div className="settings-section">
+        <h4>Add Memory</h4>
+        <div className="form-group">
+          <textarea
+            value={newMemory}
+            onChange={(e) => setNewMemory(e.target.value)}
+            placeholder="e.g. My shipping address is 1 Main St, Springfield"
+            rows={2}
+            maxLength={MAX_MEMORY_LENGTH}
+          />
+          <span className="help-text">
+            The agent also saves facts itself with the remember tool. Memories that match your request are added to the prompt in every thread.
+          </span>
+        </div>
+        <div className="button-row">
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={handleAdd}
+            disabled={!newMemory.trim()}
+          >
+            <Plus size={16} />
+            Save Memory
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h4>Saved Memories ({memories.length})</h4>
+
+        {memories.length > 0 && (
+          <div className="form-group">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search memories"
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="loading">Loading memories...</div>
+        ) : memories.length === 0 ? (
+          <div className="empty-state">
+            No memories yet. Tell the agent to remember something, or add it above.
+          </div>
+        ) : visibleMemories.length === 0 ? (
+          <div className="empty-state">No memories match "{search}".</div>
+        ) : (
+          <div className="skills-list">
+            {visibleMemories.map((memory) => (
+              <div key={memory.id} className="skill-item">
+                <div className="skill-info">
+                  <div className="skill-description">{memory.content}</div>
+                  <div className="skill-meta">
+                    {memory.source === 'agent' ? 'Saved by the agent' : 'Added by you'} ·{' '}
+                    {new Date(memory.updatedAt).toLocaleDateString()}
+                    {memory.tags?.length ? ` · ${memory.tags.join(', ')}` : ''}
+                    {memory.lastUsedAt && ` · last used ${new Date(memory.lastUsedAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <div className="skill-actions">
+                  <button
+                    type="button"
+                    className="icon-button danger"
+                    onClick={() => handleDelete(memory)}
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {memories.length > 0 && (
+        <div className="settings-section">
+          <h4>Management</h4>
+          <div className="button-row">
+            <button
+              type="button"
+              className="button-danger"
+              onClick={handleDeleteAll}
+            >
+              <Trash2 size={16} />
+              Delete All
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,19 @@
-import React, { type FC, type ChangeEvent, useState, useEffect } from 'react'
-import { Zap, Image, Eye, EyeOff, LogIn, LogOut, Loader2, Key, User } from 'lucide-react'
-import type { ProviderSettings, ProviderType } from '@shared/settings'
-import { PROVIDER_CONFIGS, getModelsForProvider } from '@agent/index'
+import React, { type FC, type ChangeEvent, useState, useEffect, useRef, useMemo } from 'react'
+import { Zap, Image, Eye, EyeOff, LogIn, LogOut, Loader2, Key, User, Plus, Trash2, Upload } from 'lucide-react'
+import type { ProviderSettings, ProviderType, ApprovalRule, FallbackModel } from '@shared/settings'
+import { PROVIDER_CONFIGS, getModelsForProvider, getDefaultModelForProvider, parseScriptedFixture } from '@agent/index'
 import { CustomSelect } from '../CustomSelect'
 import { MessageTypes } from '@shared/messages'
+import { MAX_STORED_REPLAYS } from '@storage/replayStorage'
+
+const APPROVAL_RULE_OPTIONS: { rule: ApprovalRule; label: string }[] = [
+  { rule: 'run_javascript', label: 'Running JavaScript' },
+  { rule: 'form_submit', label: 'Submitting forms' },
+  { rule: 'navigate_new_domain', label: 'Navigating to a new domain' },
+  { rule: 'close_tab', label: 'Closing tabs' },
+  { rule: 'mcp_tools', label: 'MCP tools' },
+  { rule: 'update_plan', label: 'Plans' },
+]
 
 type OpenAIAuthMode = 'api-key' | 'chatgpt-login'
 type GoogleAuthMode = 'api-key' | 'google-login'
@@ -22,8 +32,15 @@ interface ProviderTabProps {
   onCustomVisionChange: (e: ChangeEvent<HTMLInputElement>) => void
   onCustomReasoningChange: (e: ChangeEvent<HTMLInputElement>) => void
   onMaxStepsChange: (e: ChangeEvent<HTMLInputElement>) => void
+  onMaxRetriesChange: (e: ChangeEvent<HTMLInputElement>) => void
+  onFallbackModelsChange: (fallbackModels: FallbackModel[]) => void
   onGeminiThinkingLevelChange: (e: ChangeEvent<HTMLSelectElement>) => void
+  onToolCallModeChange: (e: ChangeEvent<HTMLSelectElement>) => void
+  onApprovalRuleToggle: (rule: ApprovalRule, enabled: boolean) => void
+  onStrictPlanChange: (e: ChangeEvent<HTMLInputElement>) => void
+  onRecordRunsChange: (e: ChangeEvent<HTMLInputElement>) => void
   onUserPreferenceChange: (e: ChangeEvent<HTMLTextAreaElement>) => void
+  onScriptedFixtureChange: (fixture: string) => void
   onToggleShowApiKey: () => void
   onCodexAuthChange?: () => void  // Callback to refresh settings after auth change
   onGeminiAuthChange?: () => void  // Callback to refresh settings after Gemini auth change
@@ -43,8 +60,15 @@ export const ProviderTab: FC<ProviderTabProps> = ({
   onCustomVisionChange,
   onCustomReasoningChange,
   onMaxStepsChange,
+  onMaxRetriesChange,
+  onFallbackModelsChange,
   onGeminiThinkingLevelChange,
+  onToolCallModeChange,
+  onApprovalRuleToggle,
+  onStrictPlanChange,
+  onRecordRunsChange,
   onUserPreferenceChange,
+  onScriptedFixtureChange,
   onToggleShowApiKey,
   onCodexAuthChange,
   onGeminiAuthChange,
@@ -88,10 +112,48 @@ export const ProviderTab: FC<ProviderTabProps> = ({
   const currentProviderConfig = PROVIDER_CONFIGS[settings.provider]
   const currentApiKey = settings.apiKeys[settings.provider] || ''
   const isOpenAICompatible = settings.provider === 'openai-compatible'
+  const isScripted = settings.provider === 'scripted'
   const isOpenAI = settings.provider === 'openai'
   const isGoogle = settings.provider === 'google'
   const isGemini3 = isGoogle && settings.model.includes('gemini-3')
 
+  const fallbackModels = settings.fallbackModels ?? []
+
+  const fixtureInputRef = useRef<HTMLInputElement>(null)
+  const [fixtureError, setFixtureError] = useState<string | null>(null)
+  const fixtureSummary = useMemo(() => {
+    if (!settings.scriptedFixture) return null
+    try {
+      const fixture = parseScriptedFixture(settings.scriptedFixture)
+      return `${fixture.name ?? 'Unnamed fixture'} · ${fixture.turns.length} turn${fixture.turns.length === 1 ? '' : 's'}`
+    } catch {
+      return null
+    }
+  }, [settings.scriptedFixture])
+
+  const handleFixtureFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const content = await file.text()
+      parseScriptedFixture(content)
+      setFixtureError(null)
+      onScriptedFixtureChange(content)
+    } catch (err) {
+      setFixtureError((err as Error).message)
+    }
+  }
+
+  const updateFallback = (index: number, updates: Partial<FallbackModel>) => {
+    onFallbackModelsChange(fallbackModels.map((f, i) => (i === index ? { ...f, ...updates } : f)))
+  }
+
+  const addFallback = () => {
+    const provider: ProviderType = 'anthropic'
+    onFallbackModelsChange([...fallbackModels, { provider, model: getDefaultModelForProvider(provider) }])
+  }
+
   // Listen for auth completion from background
   React.useEffect(() => {
     const handleMessage = (message: { type: string; success?: boolean; error?: string }) => {
@@ -458,6 +520,132 @@ export const ProviderTab: FC<ProviderTabProps> = ({
         <span className="help-text">Maximum tool-use steps per response (1–50)</span>
       </div>
 
+      <div className="form-group">
+        <label htmlFor="max-retries">Retries</label>
+        <input
+          id="max-retries"
+          type="number"
+          min={0}
+          max={10}
+          value={settings.maxRetries ?? 3}
+          onChange={onMaxRetriesChange}
+        />
+        <span className="help-text">
+          Retries per model on rate limits, overload and network errors, with backoff (0–10)
+        </span>
+      </div>
+
+      <div className="form-group">
+        <label>Fallback Models</label>
+        {fallbackModels.length > 0 && (
+          <div className="fallback-model-list">
+            {fallbackModels.map((fallback, index) => (
+              <div key={index} className="fallback-model-row">
+                <select
+                  value={fallback.provider}
+                  onChange={(e) => {
+                    const provider = e.target.value as ProviderType
+                    updateFallback(index, { provider, model: getDefaultModelForProvider(provider) })
+                  }}
+                  aria-label={`Fallback ${index + 1} provider`}
+                >
+                  {Object.entries(PROVIDER_CONFIGS).map(([key, config]) => (
+                    <option key={key} value={key}>
+                      {config.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={fallback.model}
+                  onChange={(e) => updateFallback(index, { model: e.target.value })}
+                  placeholder="Model ID"
+                  aria-label={`Fallback ${index + 1} model`}
+                />
+                <button
+                  type="button"
+                  className="input-icon-button"
+                  onClick={() => onFallbackModelsChange(fallbackModels.filter((_, i) => i !== index))}
+                  aria-label={`Remove fallback ${index + 1}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <button type="button" className="button-secondary fallback-add-btn" onClick={addFallback}>
+          <Plus size={14} />
+          Add fallback
+        </button>
+        <span className="help-text">
+          Tried in order when the model keeps failing after its retries. Uses the API keys saved for each provider. Fallbacks whose tool-call mode differs from the main model's are skipped.
+        </span>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="tool-call-mode">Tool Calling</label>
+        <select
+          id="tool-call-mode"
+          value={settings.toolCallModes?.[settings.provider] || 'auto'}
+          onChange={onToolCallModeChange}
+        >
+          <option value="auto">Auto</option>
+          <option value="native">Native</option>
+          <option value="xml">XML</option>
+        </select>
+        <span className="help-text">
+          Native uses the provider's built-in tool calling. Auto picks native for models known to support it well.
+        </span>
+      </div>
+
+      <div className="form-group">
+        <label>Ask Before</label>
+        <div className="approval-rule-options">
+          {APPROVAL_RULE_OPTIONS.map(({ rule, label }) => (
+            <label key={rule} className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={settings.approvalRules?.includes(rule) ?? false}
+                onChange={(e) => onApprovalRuleToggle(rule, e.target.checked)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <span className="help-text">
+          The agent pauses on these actions until you approve, edit or reject them. Scheduled shortcuts run without approval.
+        </span>
+      </div>
+
+      <div className="form-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={settings.strictPlan ?? false}
+            onChange={onStrictPlanChange}
+          />
+          Strict plan
+        </label>
+        <span className="help-text">
+          Block navigation, new tabs, fetches and link clicks to domains outside the agent's plan. You can allow extra domains when asked.
+        </span>
+      </div>
+
+      <div className="form-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={settings.recordRuns ?? false}
+            onChange={onRecordRunsChange}
+          />
+          Record runs
+        </label>
+        <span className="help-text">
+          Save every model call and tool result of each run, screenshots included, so it can be downloaded or replayed from the Data tab. The last {MAX_STORED_REPLAYS} runs are kept.
+        </span>
+      </div>
+
       {isOpenAICompatible && (
         <>
           <div className="form-group">
@@ -487,8 +675,34 @@ export const ProviderTab: FC<ProviderTabProps> = ({
         </>
       )}
 
+      {isScripted && (
+        <div className="form-group">
+          <label>Fixture</label>
+          <input
+            ref={fixtureInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleFixtureFile}
+            style={{ display: 'none' }}
+          />
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => fixtureInputRef.current?.click()}
+          >
+            <Upload size={14} />
+            {settings.scriptedFixture ? 'Replace fixture' : 'Load fixture'}
+          </button>
+          {fixtureSummary && <span className="help-text">{fixtureSummary}</span>}
+          {fixtureError && <span className="error-text">{fixtureError}</span>}
+          <span className="help-text">
+            A JSON file of scripted turns (text, reasoning, tool calls) replayed in order instead of calling a model. Each run starts from the first turn.
+          </span>
+        </div>
+      )}
+
       {/* API Key - show for providers in api-key mode */}
-      {(!isOpenAI || openaiAuthMode === 'api-key') && (!isGoogle || googleAuthMode === 'api-key') && (
+      {!isScripted && (!isOpenAI || openaiAuthMode === 'api-key') && (!isGoogle || googleAuthMode === 'api-key') && (
         <div className="form-group">
           <label htmlFor="api-key">
             API Key
@@ -6,10 +6,13 @@ import { ProviderTab } from './ProviderTab'
 import { TracingTab } from './TracingTab'
 import { DataTab } from './DataTab'
 import { SkillsTab } from './SkillsTab'
+import { MemoryTab } from './MemoryTab'
+import { SitesTab } from './SitesTab'
+import { MacrosTab } from './MacrosTab'
 import { McpTab } from './McpTab'
 import { ApiTab } from './ApiTab'
 
-type SettingsTab = 'provider' | 'tracing' | 'skills' | 'mcp' | 'api' | 'data'
+type SettingsTab = 'provider' | 'tracing' | 'skills' | 'macros' | 'sites' | 'memory' | 'mcp' | 'api' | 'data'
 
 interface SettingsPanelProps {
   settings: ProviderSettings
@@ -45,8 +48,15 @@ export const SettingsPanel: FC<SettingsPanelProps> = ({
     handleCustomVisionChange,
     handleCustomReasoningChange,
     handleMaxStepsChange,
+    handleMaxRetriesChange,
+    handleFallbackModelsChange,
     handleGeminiThinkingLevelChange,
+    handleToolCallModeChange,
+    handleApprovalRuleToggle,
+    handleStrictPlanChange,
+    handleRecordRunsChange,
     handleUserPreferenceChange,
+    handleScriptedFixtureChange,
     handleTracingUpdate,
     handleCodexAuthChange,
     handleGeminiAuthChange,
@@ -144,6 +154,27 @@ export const SettingsPanel: FC<SettingsPanelProps> = ({
             >
               Skills
             </button>
+            <button
+              type="button"
+              className={`settings-tab ${activeTab === 'macros' ? 'active' : ''}`}
+              onClick={() => setActiveTab('macros')}
+            >
+              Macros
+            </button>
+            <button
+              type="button"
+              className={`settings-tab ${activeTab === 'sites' ? 'active' : ''}`}
+              onClick={() => setActiveTab('sites')}
+            >
+              Sites
+            </button>
+            <button
+              type="button"
+              className={`settings-tab ${activeTab === 'memory' ? 'active' : ''}`}
+              onClick={() => setActiveTab('memory')}
+            >
+              Memory
+            </button>
             <button
               type="button"
               className={`settings-tab ${activeTab === 'mcp' ? 'active' : ''}`}
@@ -184,8 +215,15 @@ export const SettingsPanel: FC<SettingsPanelProps> = ({
                   onCustomVisionChange={handleCustomVisionChange}
                   onCustomReasoningChange={handleCustomReasoningChange}
                   onMaxStepsChange={handleMaxStepsChange}
+                  onMaxRetriesChange={handleMaxRetriesChange}
+                  onFallbackModelsChange={handleFallbackModelsChange}
                   onGeminiThinkingLevelChange={handleGeminiThinkingLevelChange}
+                  onToolCallModeChange={handleToolCallModeChange}
+                  onApprovalRuleToggle={handleApprovalRuleToggle}
+                  onStrictPlanChange={handleStrictPlanChange}
+                  onRecordRunsChange={handleRecordRunsChange}
                   onUserPreferenceChange={handleUserPreferenceChange}
+                  onScriptedFixtureChange={handleScriptedFixtureChange}
                   onToggleShowApiKey={() => setShowApiKey(!showApiKey)}
                   onCodexAuthChange={handleCodexAuthChange}
                   onGeminiAuthChange={handleGeminiAuthChange}
@@ -204,6 +242,12 @@ export const SettingsPanel: FC<SettingsPanelProps> = ({
 
             {activeTab === 'skills' && <SkillsTab />}
 
+            {activeTab === 'macros' && <MacrosTab />}
+
+            {activeTab === 'sites' && <SitesTab />}
+
+            {activeTab === 'memory' && <MemoryTab />}
+
             {activeTab === 'mcp' && <McpTab />}
 
             {activeTab === 'api' && <ApiTab />}
@@ -0,0 +1,306 @@
+import { useState, useCallback, useRef, useEffect, useMemo, type FC } from 'react'
+import {
+  Upload,
+  Trash2,
+  CheckCircle,
+  AlertCircle,
+  ToggleLeft,
+  ToggleRight,
+  Download,
+  Plus,
+  Pencil,
+} from 'lucide-react'
+import {
+  getAllSiteProfiles,
+  saveSiteProfile,
+  updateSiteProfile,
+  setSiteProfileEnabled,
+  deleteSiteProfile,
+  importSiteProfiles,
+  findMatchingSiteProfiles,
+  type StoredSiteProfile,
+} from '@sites/index'
+
+const PROFILE_TEMPLATE = `---
+name: jira
+match: ["*.atlassian.net", jira.example.com]
+description: Team Jira
+---
+
+- Use the quick-search box at the top to find issues.
+- Never change an issue's assignee unless asked.`
+
+export const SitesTab: FC = () => {
+  const [profiles, setProfiles] = useState<StoredSiteProfile[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  /** null: editor closed, 'new': creating, otherwise the id being edited */
+  const [editing, setEditing] = useState<string | null>(null)
+  const [editorContent, setEditorContent] = useState('')
+  const [testUrl, setTestUrl] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadProfiles = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setProfiles(await getAllSiteProfiles())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const testMatches = useMemo(() => {
+    const url = testUrl.trim()
+    if (!url) return null
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`
+    return findMatchingSiteProfiles(profiles.filter((p) => p.enabled), withScheme)
+  }, [profiles, testUrl])
+
+  const openEditor = useCallback((id: string, content: string) => {
+    setEditing(id)
+    setEditorContent(content)
+    setError(null)
+    setSuccess(null)
+  }, [])
+
+  const closeEditor = useCallback(() => {
+    setEditing(null)
+    setEditorContent('')
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    setError(null)
+    try {
+      const profile = editing === 'new'
+        ? await saveSiteProfile(editorContent)
+        : await updateSiteProfile(editing!, editorContent)
+      setSuccess(`Site profile "${profile?.name}" saved`)
+      closeEditor()
+      await loadProfiles()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [editing, editorContent, closeEditor, loadProfiles])
+
+  const handleFileImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+
+    setError(null)
+    setSuccess(null)
+    try {
+      const contents = await Promise.all(files.map((file) => file.text()))
+      const { imported, errors } = await importSiteProfiles(contents)
+      if (imported.length > 0) {
+        setSuccess(`Imported ${imported.map((p) => `"${p.name}"`).join(', ')}`)
+      }
+      if (errors.length > 0) {
+        setError(errors.map(({ index, error }) => `${files[index].name}: ${error}`).join('; '))
+      }
+      await loadProfiles()
+    } catch (err) {
+      setError('Failed to read file')
+    }
+
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }, [loadProfiles])
+
+  const handleToggleEnabled = useCallback(async (profile: StoredSiteProfile) => {
+    try {
+      await setSiteProfileEnabled(profile.id, !profile.enabled)
+      await loadProfiles()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [loadProfiles])
+
+  const handleDelete = useCallback(async (profile: StoredSiteProfile) => {
+    if (!confirm(`Delete site profile "${profile.name}"?`)) return
+
+    try {
+      await deleteSiteProfile(profile.id)
+      setSuccess(`Site profile "${profile.name}" deleted`)
+      await loadProfiles()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [loadProfiles])
+
+  const handleExport = useCallback((profile: StoredSiteProfile) => {
+    const blob = new Blob([profile.rawContent], { type: 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${profile.name}.site.md`
+    a.click()
+    URL.revokeObjectURL(url)
+  }, [])
+
+  return (
+    <div className="settings-tab-content">
+      {/* Status messages */}
+      {error && (
+        <div className="status-message error">
+          <AlertCircle size={16} />
+          <span>{error}</span>
+          <button type="button" onClick={() => setError(null)}>&times;</button>
+        </div>
+      )}
+      {success && (
+        <div className="status-message success">
+          <CheckCircle size={16} />
+          <span>{success}</span>
+          <button type="button" onClick={() => setSuccess(null)}>&times;</button>
+        </div>
+      )}
+
+      <div className="settings-section">
+        <h4>Add Site Profile</h4>
+
+        <div className="form-group button-row">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md"
+            multiple
+            onChange={handleFileImport}
+            style={{ display: 'none' }}
+          />
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload size={16} />
+            Import Files
+          </button>
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => (editing === 'new' ? closeEditor() : openEditor('new', PROFILE_TEMPLATE))}
+          >
+            <Plus size={16} />
+            New Profile
+          </button>
+        </div>
+        <span className="help-text">
+          When the agent's tab is on a matching site, the profile's instructions are added to its prompt. Match by hostname (covers subdomains) or by a URL glob such as cms.example.com/admin/*.
+        </span>
+
+        {editing && (
+          <div className="install-form">
+            <textarea
+              value={editorContent}
+              onChange={(e) => setEditorContent(e.target.value)}
+              rows={10}
+            />
+            <div className="button-row">
+              <button type="button" className="button-secondary" onClick={closeEditor}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="button-primary"
+                onClick={handleSave}
+                disabled={!editorContent.trim()}
+              >
+                Save Profile
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="settings-section">
+        <h4>Site Profiles ({profiles.length})</h4>
+
+        {profiles.length > 0 && (
+          <div className="form-group">
+            <input
+              type="text"
+              value={testUrl}
+              onChange={(e) => setTestUrl(e.target.value)}
+              placeholder="Test a URL, e.g. acme.atlassian.net/browse/OPS-1"
+            />
+            {testMatches && (
+              <span className="help-text">
+                {testMatches.length > 0
+                  ? `Matches: ${testMatches.map((p) => p.name).join(', ')}`
+                  : 'No enabled profile matches this URL'}
+              </span>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="loading">Loading site profiles...</div>
+        ) : profiles.length === 0 ? (
+          <div className="empty-state">
+            No site profiles yet. Create one above or import SITE.md files.
+          </div>
+        ) : (
+          <div className="skills-list">
+            {profiles.map((profile) => (
+              <div key={profile.id} className={`skill-item ${!profile.enabled ? 'disabled' : ''}`}>
+                <div className="skill-info">
+                  <div className="skill-header">
+                    <span className="skill-name">{profile.name}</span>
+                  </div>
+                  {profile.description && <div className="skill-description">{profile.description}</div>}
+                  <div className="skill-meta">
+                    {profile.patterns.join(', ')}
+                    {profile.input && ` · ${profile.input} input`}
+                  </div>
+                </div>
+                <div className="skill-actions">
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => handleToggleEnabled(profile)}
+                    title={profile.enabled ? 'Disable' : 'Enable'}
+                  >
+                    {profile.enabled ? <ToggleRight size={20} /> : <ToggleLeft size={20} />}
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => openEditor(profile.id, profile.rawContent)}
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => handleExport(profile)}
+                    title="Export"
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button danger"
+                    onClick={() => handleDelete(profile)}
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,5 +3,7 @@ export { ProviderTab } from './ProviderTab'
 export { DataTab } from './DataTab'
 export { TracingTab } from './TracingTab'
 export { SkillsTab } from './SkillsTab'
+export { MemoryTab } from './MemoryTab'
+export { SitesTab } from './SitesTab'
 export { ApiTab } from './ApiTab'
 export { useSettingsForm } from './useSettingsForm'
@@ -1,5 +1,5 @@
 import { useState, useCallback, type ChangeEvent } from 'react'
-import type { ProviderSettings, ProviderType } from '@shared/settings'
+import type { ProviderSettings, ProviderType, ToolCallPreference, ApprovalRule, FallbackModel } from '@shared/settings'
 import { loadSettings } from '@shared/settings'
 import { getModelsForProvider, getDefaultModelForProvider } from '@agent/index'
 
@@ -130,6 +130,21 @@ export function useSettingsForm(initialSettings: ProviderSettings) {
     }))
   }, [])
 
+  const handleMaxRetriesChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10)
+    setLocalSettings((prev) => ({
+      ...prev,
+      maxRetries: Number.isNaN(value) ? undefined : Math.max(0, Math.min(10, value)),
+    }))
+  }, [])
+
+  const handleFallbackModelsChange = useCallback((fallbackModels: FallbackModel[]) => {
+    setLocalSettings((prev) => ({
+      ...prev,
+      fallbackModels,
+    }))
+  }, [])
+
   const handleGeminiThinkingLevelChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
     setLocalSettings((prev) => ({
       ...prev,
@@ -137,6 +152,38 @@ export function useSettingsForm(initialSettings: ProviderSettings) {
     }))
   }, [])
 
+  const handleToolCallModeChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value as ToolCallPreference
+    setLocalSettings((prev) => ({
+      ...prev,
+      toolCallModes: { ...prev.toolCallModes, [prev.provider]: value },
+    }))
+  }, [])
+
+  const handleApprovalRuleToggle = useCallback((rule: ApprovalRule, enabled: boolean) => {
+    setLocalSettings((prev) => {
+      const rules = (prev.approvalRules ?? []).filter((r) => r !== rule)
+      return {
+        ...prev,
+        approvalRules: enabled ? [...rules, rule] : rules,
+      }
+    })
+  }, [])
+
+  const handleStrictPlanChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setLocalSettings((prev) => ({
+      ...prev,
+      strictPlan: e.target.checked,
+    }))
+  }, [])
+
+  const handleRecordRunsChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setLocalSettings((prev) => ({
+      ...prev,
+      recordRuns: e.target.checked,
+    }))
+  }, [])
+
   const handleUserPreferenceChange = useCallback((e: ChangeEvent<HTMLTextAreaElement>) => {
     setLocalSettings((prev) => ({
       ...prev,
@@ -144,6 +191,10 @@ export function useSettingsForm(initialSettings: ProviderSettings) {
     }))
   }, [])
 
+  const handleScriptedFixtureChange = useCallback((scriptedFixture: string) => {
+    setLocalSettings((prev) => ({ ...prev, scriptedFixture }))
+  }, [])
+
   const handleTracingUpdate = useCallback((updates: Partial<ProviderSettings>) => {
     setLocalSettings((prev) => ({ ...prev, ...updates }))
   }, [])
@@ -197,8 +248,15 @@ export function useSettingsForm(initialSettings: ProviderSettings) {
     handleCustomVisionChange,
     handleCustomReasoningChange,
     handleMaxStepsChange,
+    handleMaxRetriesChange,
+    handleFallbackModelsChange,
     handleGeminiThinkingLevelChange,
+    handleToolCallModeChange,
+    handleApprovalRuleToggle,
+    handleStrictPlanChange,
+    handleRecordRunsChange,
     handleUserPreferenceChange,
+    handleScriptedFixtureChange,
     handleTracingUpdate,
     handleCodexAuthChange,
     handleGeminiAuthChange,
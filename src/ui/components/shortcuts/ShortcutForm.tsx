@@ -1,9 +1,11 @@
-import { useState, useCallback, type FC } from 'react'
+import { useState, useCallback, useEffect, type FC } from 'react'
 import { X } from 'lucide-react'
 import { PROVIDER_CONFIGS, getModelsForProvider } from '@agent/index'
-import type { ShortcutSchedule, ScheduledShortcut } from '@storage/types'
+import type { ShortcutSchedule, ScheduledShortcut, StoredMacro } from '@storage/types'
 import type { ProviderSettings } from '@shared/settings'
 import { slugify } from '@storage/shortcutStorage'
+import { getAllMacros } from '@storage/macroStorage'
+import { isJsonSchema, type JsonSchema } from '@shared/jsonSchema'
 
 interface ShortcutFormProps {
   settings: ProviderSettings
@@ -15,6 +17,8 @@ interface ShortcutFormProps {
     schedule: ShortcutSchedule
     provider?: string
     model?: string
+    outputSchema?: JsonSchema
+    macroId?: string
   }) => Promise<void>
   onClose: () => void
 }
@@ -70,9 +74,18 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
   )
   const [provider, setProvider] = useState(shortcut?.provider ?? settings.provider)
   const [model, setModel] = useState(shortcut?.model ?? settings.model)
+  const [outputSchema, setOutputSchema] = useState(
+    shortcut?.outputSchema ? JSON.stringify(shortcut.outputSchema, null, 2) : ''
+  )
+  const [macroId, setMacroId] = useState(shortcut?.macroId ?? '')
+  const [macros, setMacros] = useState<StoredMacro[]>([])
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  useEffect(() => {
+    getAllMacros().then(setMacros).catch(() => setMacros([]))
+  }, [])
+
   const models = getModelsForProvider(provider)
   const normalizedName = slugify(name)
 
@@ -87,6 +100,17 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
     []
   )
 
+  const handleMacroChange = useCallback(
+    (id: string) => {
+      setMacroId(id)
+      const macro = macros.find((m) => m.id === id)
+      if (macro?.startUrl && (!startUrl.trim() || startUrl === 'https://')) {
+        setStartUrl(macro.startUrl)
+      }
+    },
+    [macros, startUrl]
+  )
+
   const handleSubmit = useCallback(async () => {
     if (!name.trim()) {
       setError('Name is required')
@@ -96,7 +120,7 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
       setError('Name must include letters or numbers')
       return
     }
-    if (!prompt.trim()) {
+    if (!prompt.trim() && !macroId) {
       setError('Prompt is required')
       return
     }
@@ -105,6 +129,18 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
       return
     }
 
+    let parsedSchema: JsonSchema | undefined
+    if (outputSchema.trim()) {
+      try {
+        const parsed: unknown = JSON.parse(outputSchema)
+        if (!isJsonSchema(parsed)) throw new Error()
+        parsedSchema = parsed
+      } catch {
+        setError('Output schema must be a JSON object')
+        return
+      }
+    }
+
     const schedule: ShortcutSchedule = { type: scheduleType }
     if (scheduleType === 'once') {
       if (!scheduleDate) {
@@ -142,6 +178,8 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
         schedule,
         provider: useCustomModel ? provider : undefined,
         model: useCustomModel ? model : undefined,
+        outputSchema: parsedSchema,
+        macroId: macroId || undefined,
       })
       onClose()
     } catch (e) {
@@ -149,7 +187,7 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
     } finally {
       setIsSaving(false)
     }
-  }, [name, normalizedName, prompt, startUrl, scheduleType, scheduleDate, intervalMinutes, useCustomModel, provider, model, onSave, onClose])
+  }, [name, normalizedName, prompt, startUrl, scheduleType, scheduleDate, intervalMinutes, useCustomModel, provider, model, outputSchema, macroId, onSave, onClose])
 
   return (
     <div className="settings-overlay" onClick={onClose}>
@@ -177,13 +215,36 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
               )}
             </div>
 
+            {macros.length > 0 && (
+              <div className="setting-group">
+                <label className="setting-label">Macro</label>
+                <select
+                  className="setting-input"
+                  value={macroId}
+                  onChange={(e) => handleMacroChange(e.target.value)}
+                >
+                  <option value="">None: run the agent</option>
+                  {macros.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+                {macroId && (
+                  <span className="setting-hint">
+                    Replays the macro without the model. The agent only runs if a step fails.
+                  </span>
+                )}
+              </div>
+            )}
+
             <div className="setting-group">
-              <label className="setting-label">Prompt</label>
+              <label className="setting-label">{macroId ? 'Goal (optional)' : 'Prompt'}</label>
               <textarea
                 className="setting-input setting-textarea"
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
-                placeholder="Describe what the agent should do..."
+                placeholder={macroId
+                  ? 'What the macro is for, used if the agent has to take over...'
+                  : 'Describe what the agent should do...'}
                 rows={4}
               />
             </div>
@@ -282,6 +343,21 @@ export const ShortcutForm: FC<ShortcutFormProps> = ({
               )}
             </div>
 
+            <div className="setting-group">
+              <label className="setting-label">Output schema (optional)</label>
+              <textarea
+                className="setting-input setting-textarea shortcut-schema-input"
+                value={outputSchema}
+                onChange={(e) => setOutputSchema(e.target.value)}
+                placeholder={'{\n  "type": "array",\n  "items": { "type": "object", "properties": { "name": { "type": "string" }, "price": { "type": "number" } } }\n}'}
+                rows={5}
+                spellCheck={false}
+              />
+              <span className="setting-hint">
+                JSON Schema for the result. The agent's final answer is checked against it and saved as structured data.
+              </span>
+            </div>
+
             {error && <div className="error-message">{error}</div>}
 
             <div className="settings-actions">
@@ -149,8 +149,17 @@ export const ShortcutList: FC<ShortcutListProps> = ({
                   <span className="shortcut-item-lastrun shortcut-meta-chip">
                     Last run: {formatLastRun(s)}
                   </span>
+                  {s.macroId && (
+                    <span className="shortcut-meta-chip">Macro</span>
+                  )}
                 </div>
 
+                {s.lastRunStatus === 'success' && s.lastRunData !== undefined && (
+                  <details className="shortcut-item-data">
+                    <summary>Last result</summary>
+                    <pre>{JSON.stringify(s.lastRunData, null, 2)}</pre>
+                  </details>
+                )}
                 {s.lastRunStatus === 'error' && s.lastRunError && (
                   <div className="shortcut-item-error">{s.lastRunError}</div>
                 )}
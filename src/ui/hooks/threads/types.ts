@@ -1,6 +1,6 @@
 import type { Thread } from '@storage/types'
 import type { AttachmentFile } from '@ui/components/FileAttachment'
-import type { ToolCallInfo, AssistantMessageSegment } from '@agent/index'
+import type { ToolCallInfo, AssistantMessageSegment, TokenUsage } from '@agent/index'
 
 export interface ThreadMessage {
   id: string
@@ -15,6 +15,7 @@ export interface ThreadMessage {
   siblingIndex?: number
   model?: string
   provider?: string
+  usage?: TokenUsage
 }
 
 export interface AddUserMessageResult extends ThreadMessage {
@@ -41,6 +42,7 @@ export interface UseThreadsReturn {
       assistantSegments?: AssistantMessageSegment[]
       model?: string
       provider?: string
+      usage?: TokenUsage
     }
   ) => void
   clearCurrentThread: () => Promise<void>
@@ -21,7 +21,7 @@ import {
   type MessageInput,
 } from '@storage/chatStorage'
 import type { AttachmentFile } from '@ui/components/FileAttachment'
-import type { ToolCallInfo, AssistantMessageSegment } from '@agent/index'
+import type { ToolCallInfo, AssistantMessageSegment, TokenUsage } from '@agent/index'
 import {
   type ThreadMessage,
   type AddUserMessageResult,
@@ -52,6 +52,7 @@ export function useThreads(): UseThreadsReturn {
       assistantSegments?: AssistantMessageSegment[]
       model?: string
       provider?: string
+      usage?: TokenUsage
     }
   } | null>(null)
   const rafIdRef = useRef<number | null>(null)
@@ -109,6 +110,7 @@ export function useThreads(): UseThreadsReturn {
         siblingIndex,
         model: msg.model,
         provider: msg.provider,
+        usage: msg.usage,
       })
     }
     setMessagesWithRef(threadMessages)
@@ -273,6 +275,7 @@ export function useThreads(): UseThreadsReturn {
         assistantSegments?: AssistantMessageSegment[]
         model?: string
         provider?: string
+        usage?: TokenUsage
       }
     ) => {
       pendingUpdateRef.current = { id, updates }
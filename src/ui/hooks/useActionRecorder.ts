@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react'
+import { MessageTypes, type RecordedActionMessage } from '@shared/messages'
+import type { RecordedActionEntry } from '@shared/actionRecording'
+
+/**
+ * Record mode: collects the user's own actions in the side panel's tab.
+ * The content script reports clicks, typing and selects; the background
+ * reports navigations.
+ */
+export function useActionRecorder(tabId: number) {
+  const [isRecording, setIsRecording] = useState(false)
+  const [actions, setActions] = useState<RecordedActionEntry[]>([])
+
+  useEffect(() => {
+    if (!isRecording) return
+
+    const handleMessage = (message: unknown, sender: chrome.runtime.MessageSender) => {
+      const { type } = message as { type: string }
+      if (type !== MessageTypes.RECORDED_ACTION) return
+      const { action, tabId: actionTabId } = message as RecordedActionMessage
+      if ((actionTabId ?? sender.tab?.id) !== tabId) return
+      // Iframes have content scripts too; only the top frame is recorded
+      if (sender.frameId !== undefined && sender.frameId !== 0) return
+      setActions((prev) => [...prev, action])
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [isRecording, tabId])
+
+  const start = useCallback(async () => {
+    const response = await chrome.runtime.sendMessage({ type: MessageTypes.RECORDER_START, tabId })
+    if (!response?.success) {
+      throw new Error(response?.error || 'Failed to start recording')
+    }
+    setActions([{ kind: 'navigate', url: response.url, fromPage: false, timestamp: Date.now() }])
+    setIsRecording(true)
+  }, [tabId])
+
+  const stop = useCallback(async () => {
+    await chrome.runtime.sendMessage({ type: MessageTypes.RECORDER_STOP, tabId }).catch(() => {})
+    setIsRecording(false)
+  }, [tabId])
+
+  const clear = useCallback(() => {
+    setActions([])
+  }, [])
+
+  // Don't leave the page recording when the side panel closes
+  useEffect(() => {
+    if (!isRecording) return
+    const handleUnload = () => {
+      chrome.runtime.sendMessage({ type: MessageTypes.RECORDER_STOP, tabId }).catch(() => {})
+    }
+    window.addEventListener('beforeunload', handleUnload)
+    return () => window.removeEventListener('beforeunload', handleUnload)
+  }, [isRecording, tabId])
+
+  return {
+    isRecording,
+    actions,
+    start,
+    stop,
+    clear,
+  }
+}
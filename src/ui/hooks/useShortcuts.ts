@@ -6,6 +6,7 @@ import {
   deleteShortcut,
 } from '@storage/shortcutStorage'
 import type { ScheduledShortcut, ShortcutSchedule } from '@storage/types'
+import type { JsonSchema } from '@shared/jsonSchema'
 import { MessageTypes } from '@shared/messages'
 
 function syncAlarms(): void {
@@ -40,6 +41,8 @@ export function useShortcuts() {
       schedule: ShortcutSchedule
       provider?: string
       model?: string
+      outputSchema?: JsonSchema
+      macroId?: string
     }) => {
       const shortcut = await createShortcut(data as Parameters<typeof createShortcut>[0])
       await refresh()
@@ -1,16 +1,23 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
 import {
-  createProvider,
+  createProviderChain,
   getModelConfig,
+  resolveToolCallMode,
+  getContextLength,
   runWorkflow,
+  buildReplayedTurnMessages,
+  addTokenUsage,
+  getMessageText,
   type ToolCallInfo,
+  type ApprovalDecision,
   type AssistantMessageSegment,
   type Message as AgentMessage,
   type ContentPart,
   type MessageContent,
+  type TokenUsage,
 } from '@agent/index'
 import { MessageTypes } from '@shared/messages'
-import type { ProviderSettings, TracingSettings } from '@shared/settings'
+import type { ProviderSettings, TracingSettings, ToolCallMode } from '@shared/settings'
 import type { AttachmentFile } from '@ui/components/FileAttachment'
 import {
   parseSlashCommand,
@@ -22,6 +29,10 @@ import {
   type Skill,
 } from '@skills/index'
 import { McpManager, loadMcpServers, parsePrefixedName } from '@mcp/index'
+import { saveReplay } from '@storage/replayStorage'
+import { findRelevantMemories } from '@storage/memoryStorage'
+import type { MemoryEntry } from '@storage/types'
+import { getEnabledSiteProfiles, type SiteProfile } from '@sites/index'
 import type { ToolDefinition } from '@tools/definitions'
 
 const DEBUG = true
@@ -42,6 +53,8 @@ interface Message {
   role: 'user' | 'assistant'
   content: string
   attachments?: AttachmentFile[]
+  toolCalls?: ToolCallInfo[]
+  assistantSegments?: AssistantMessageSegment[]
 }
 
 interface StreamCallbacks {
@@ -49,7 +62,15 @@ interface StreamCallbacks {
   onAddAssistantMessage?: (threadId?: string, parentId?: string, modelInfo?: { model: string; provider: string }) => Promise<{ id: string }>
   onUpdateAssistantMessage?: (
     id: string,
-    updates: { content?: string; reasoning?: string; toolCalls?: ToolCallInfo[]; assistantSegments?: AssistantMessageSegment[] }
+    updates: {
+      content?: string
+      reasoning?: string
+      toolCalls?: ToolCallInfo[]
+      assistantSegments?: AssistantMessageSegment[]
+      model?: string
+      provider?: string
+      usage?: TokenUsage
+    }
   ) => void
 }
 
@@ -99,6 +120,7 @@ interface UseWorkflowStreamReturn {
   clearQueuedAfterToolResult: () => void
   clearQueuedAfterCompletion: () => void
   dumpQueues: () => string[]
+  resolveApproval: (toolCallId: string, decision: ApprovalDecision) => void
   stop: () => void
   clearError: () => void
 }
@@ -114,20 +136,31 @@ function buildMessageContent(content: string, attachments?: AttachmentFile[]): s
   for (const att of attachments) {
     if (att.type === 'image') {
       parts.push({ type: 'image', image: att.dataUrl, mediaType: att.mediaType })
-    } else {
+    } else if (att.mediaType === 'application/pdf') {
       parts.push({ type: 'file', data: att.dataUrl, mediaType: att.mediaType, filename: att.file.name })
     }
+    // Other documents (CSV, DOCX...) aren't readable by every model; they're only listed for upload_file
   }
+  // IDs let upload_file put the user's files on a page
+  const ids = attachments.map(att => `${att.file.name}: ${att.id}`).join(', ')
+  parts.push({ type: 'text', text: `[Attachment IDs: ${ids}]` })
   return parts
 }
 
-function buildConversationHistory(messages: Message[]): AgentMessage[] {
-  return messages
-    .filter((m) => m.content?.trim() || m.attachments?.length)
-    .map((m) => ({
-      role: m.role as 'user' | 'assistant',
+/** Rebuild the agent transcript, replaying each assistant turn's tool calls and condensed results. */
+function buildConversationHistory(messages: Message[], toolCallMode: ToolCallMode): AgentMessage[] {
+  return messages.flatMap((m, index): AgentMessage[] => {
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return buildReplayedTurnMessages(m, toolCallMode, `hist_${index}`)
+    }
+    if (!m.content?.trim() && !m.attachments?.length) {
+      return []
+    }
+    return [{
+      role: m.role,
       content: buildMessageContent(m.content, m.attachments),
-    }))
+    }]
+  })
 }
 
 function buildQueuePreview(message: QueuedMessage): QueuedMessagePreview {
@@ -165,6 +198,7 @@ export function useWorkflowStream({
   const hasCompletedToolCallInRunRef = useRef(false)
   const runMessageRef = useRef<((text: string, attachments: AttachmentFile[]) => Promise<void>) | null>(null)
   const queueCounterRef = useRef(0)
+  const pendingApprovalsRef = useRef(new Map<string, (decision: ApprovalDecision) => void>())
 
   const { onAddUserMessage, onAddAssistantMessage, onUpdateAssistantMessage } = callbacks
 
@@ -301,12 +335,33 @@ export function useWorkflowStream({
       mcpOptions?: {
         mcpTools?: ToolDefinition[]
         mcpManager?: McpManager
-      }
+      },
+      threadId?: string
     ) => {
-      const model = createProvider(settings)
+      const [primary, ...fallbacks] = createProviderChain(settings)
+      // Read before the run: tab context is appended to the last user message as it goes
+      const lastUserMessage = [...agentMessages].reverse().find((m) => m.role === 'user')
+      const lastUserText = lastUserMessage ? getMessageText(lastUserMessage) : ''
+      const recordingLabel = lastUserText.trim().slice(0, 120) || 'Untitled run'
+
+      // Memories are picked per request, so facts from other threads only show up when they're relevant
+      const [memories, siteProfiles] = await Promise.all([
+        findRelevantMemories(lastUserText).catch((err): MemoryEntry[] => {
+          logError('Failed to load memories:', err)
+          return []
+        }),
+        getEnabledSiteProfiles().catch((err): SiteProfile[] => {
+          logError('Failed to load site profiles:', err)
+          return []
+        }),
+      ])
+
+      // Set when the run falls back to another model; recorded on the assistant message
+      let switchedModel: { model: string; provider: string } | undefined
       let currentAssistantMessageId = assistantMessageId
       let accumulatedText = ''
       let accumulatedReasoning = ''
+      let accumulatedUsage: TokenUsage | undefined
       const accumulatedToolCalls: ToolCallInfo[] = []
       const assistantSegments: AssistantMessageSegment[] = []
       let textSegmentCounter = 0
@@ -348,6 +403,8 @@ export function useWorkflowStream({
             reasoning: accumulatedReasoning,
             toolCalls: [...accumulatedToolCalls],
             assistantSegments: cloneSegments(),
+            usage: accumulatedUsage,
+            ...switchedModel,
           })
         }
       }
@@ -361,7 +418,9 @@ export function useWorkflowStream({
             : false
 
       const result = await runWorkflow({
-        model,
+        model: primary.languageModel,
+        fallbackModels: fallbacks.map((c) => ({ model: c.languageModel, modelName: c.model, provider: c.provider })),
+        maxRetries: settings.maxRetries,
         messages: agentMessages,
         tabId,
         groupId,
@@ -393,6 +452,29 @@ export function useWorkflowStream({
             }
             updateAssistant()
           },
+          onApprovalRequest: (toolCall) => {
+            const index = accumulatedToolCalls.findIndex((tc) => tc.id === toolCall.id)
+            if (index !== -1) {
+              accumulatedToolCalls[index] = toolCall
+            } else {
+              accumulatedToolCalls.push(toolCall)
+              ensureToolSegment(toolCall.id)
+            }
+            updateAssistant()
+            return new Promise<ApprovalDecision>((resolve) => {
+              pendingApprovalsRef.current.set(toolCall.id, resolve)
+            })
+          },
+          onStepComplete: (_step, stepResult) => {
+            if (!stepResult.usage) return
+            accumulatedUsage = addTokenUsage(accumulatedUsage, stepResult.usage)
+            updateAssistant()
+          },
+          onModelSwitch: ({ modelName, provider, reason }) => {
+            log('Switched to fallback model:', { modelName, provider, reason })
+            switchedModel = { model: modelName, provider }
+            updateAssistant()
+          },
           onBeforeNextStep: async () => {
             if (afterToolResultQueueRef.current.length === 0) return null
 
@@ -422,7 +504,7 @@ export function useWorkflowStream({
             const newAssistant = await onAddAssistantMessage?.(
               lastUserResult?.threadId,
               undefined,
-              { model: settings.model, provider: settings.provider },
+              switchedModel ?? { model: settings.model, provider: settings.provider },
             )
 
             if (newAssistant) {
@@ -430,6 +512,7 @@ export function useWorkflowStream({
               currentAssistantMessageId = newAssistant.id
               accumulatedText = ''
               accumulatedReasoning = ''
+              accumulatedUsage = undefined
               accumulatedToolCalls.length = 0
               assistantSegments.length = 0
               textSegmentCounter = 0
@@ -437,6 +520,9 @@ export function useWorkflowStream({
 
             return { userMessages }
           },
+          onRecording: (bundle) => {
+            saveReplay(bundle, recordingLabel, threadId).catch((err) => logError('Failed to save run recording:', err))
+          },
         },
         tracing: settings.tracing as TracingSettings,
         modelName: settings.model,
@@ -446,6 +532,8 @@ export function useWorkflowStream({
         geminiThinkingLevel: settings.geminiThinkingLevel,
         // User preference for system prompt
         userPreference: settings.userPreference,
+        memories,
+        siteProfiles,
         // Pass skill options to workflow
         activeSkill: skillOptions?.activeSkill,
         availableSkills: skillOptions?.availableSkills,
@@ -458,6 +546,11 @@ export function useWorkflowStream({
         },
         // Pass MCP tools to workflow
         mcpTools: mcpOptions?.mcpTools,
+        toolCallMode: resolveToolCallMode(settings.provider, settings.model, settings.toolCallModes?.[settings.provider]),
+        contextLength: getContextLength(settings.provider, settings.model),
+        approvalRules: settings.approvalRules,
+        strictPlan: settings.strictPlan,
+        record: settings.recordRuns,
         // Route MCP tool calls to the MCP manager
         ...(mcpOptions?.mcpManager && {
           toolExecutor: async (name: string, params: Record<string, unknown>) => {
@@ -498,12 +591,23 @@ export function useWorkflowStream({
         ensureToolSegment(toolCall.id)
       }
 
+      if (result.finishReason === 'stuck' && assistantSegments.length > 0) {
+        textSegmentCounter += 1
+        assistantSegments.push({
+          type: 'text',
+          id: `txt_${textSegmentCounter}`,
+          text: `(Stopped: the agent kept repeating itself — ${result.error})`,
+        })
+      }
+
       if (onUpdateAssistantMessage) {
         onUpdateAssistantMessage(currentAssistantMessageId, {
           content: accumulatedText,
           reasoning: accumulatedReasoning,
           toolCalls: [...accumulatedToolCalls],
           assistantSegments: cloneSegments(),
+          usage: accumulatedUsage,
+          ...switchedModel,
         })
       }
 
@@ -580,7 +684,10 @@ export function useWorkflowStream({
         logError('Failed to load MCP servers:', err)
       }
 
-      const conversationHistory = buildConversationHistory(messages)
+      const conversationHistory = buildConversationHistory(
+        messages,
+        resolveToolCallMode(settings.provider, settings.model, settings.toolCallModes?.[settings.provider])
+      )
 
       let userMessageId: string
       let messageThreadId: string | undefined
@@ -618,6 +725,7 @@ export function useWorkflowStream({
           abortControllerRef.current.signal,
           { activeSkill, availableSkills },
           mcpTools?.length ? { mcpTools, mcpManager } : undefined,
+          messageThreadId,
         )
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error'
@@ -649,6 +757,7 @@ export function useWorkflowStream({
       runAgentWorkflow,
       settings.model,
       settings.provider,
+      settings.toolCallModes,
       setStreamingState,
       skillsReady,
       tabId,
@@ -689,7 +798,10 @@ export function useWorkflowStream({
       messagesBeforeEdit: Message[],
       onEditUserMessage: (messageId: string, newContent: string) => Promise<{ id: string; threadId: string }>
     ) => {
-      const conversationHistory = buildConversationHistory(messagesBeforeEdit)
+      const conversationHistory = buildConversationHistory(
+        messagesBeforeEdit,
+        resolveToolCallMode(settings.provider, settings.model, settings.toolCallModes?.[settings.provider])
+      )
 
       setStreamingState(true)
       hasCompletedToolCallInRunRef.current = false
@@ -711,7 +823,7 @@ export function useWorkflowStream({
             { role: 'user' as const, content: newContent },
           ]
 
-          await runAgentWorkflow(agentMessages, assistantMsg.id, abortControllerRef.current!.signal)
+          await runAgentWorkflow(agentMessages, assistantMsg.id, abortControllerRef.current!.signal, undefined, undefined, result.threadId)
         }
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error'
@@ -740,6 +852,18 @@ export function useWorkflowStream({
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    // Release tool calls still waiting on the user so the queue can unwind
+    for (const resolve of pendingApprovalsRef.current.values()) {
+      resolve({ action: 'reject', reason: 'The run was stopped' })
+    }
+    pendingApprovalsRef.current.clear()
+  }, [])
+
+  const resolveApproval = useCallback((toolCallId: string, decision: ApprovalDecision) => {
+    const resolve = pendingApprovalsRef.current.get(toolCallId)
+    if (!resolve) return
+    pendingApprovalsRef.current.delete(toolCallId)
+    resolve(decision)
   }, [])
 
   // Listen for STOP_AGENT from content script (via background)
@@ -772,6 +896,7 @@ export function useWorkflowStream({
     clearQueuedAfterToolResult,
     clearQueuedAfterCompletion,
     dumpQueues,
+    resolveApproval,
     stop,
     clearError,
   }